@@ -1,8 +1,178 @@
 // Import the `importDeposit` function from the file where it is implemented
 export { importDeposit } from "./src/import-deposit";
 
+// Import the dry run functions from the files where they are implemented
+export { planDepositImport, formatImportPlan } from "./src/import-deposit";
+export { planDepositImports } from "./src/import-batch";
+export type {
+  ImportPlan,
+  PlannedRequest,
+  PlannedFileUpload,
+  ImportDepositOptions,
+} from "./src/import-deposit";
+export type { BatchImportPlan } from "./src/import-batch";
+
+// Import the `importDeposits` batch function from the file where it is implemented
+export { importDeposits } from "./src/import-batch";
+
+// Import the watch mode function from the file where it is implemented
+export { watchDepositFolder, PROCESSED_FOLDER, FAILED_FOLDER } from "./src/watch-folder";
+export type { WatchOptions } from "./src/watch-folder";
+export type { WatchImportResult } from "./src/deposit-interfaces";
+
+// Import the idempotent import functions from the files where they are implemented
+export { importOrUpdateDeposit } from "./src/import-deposit";
+export { findExistingDeposit, normalizeDoi } from "./src/existing-deposits";
+export type { ImportResult } from "./src/import-deposit";
+export type { ExistingDepositPolicy, DepositIdentity } from "./src/existing-deposits";
+export type { ImportAction } from "./src/deposit-interfaces";
+
+// Import the sync functions from the file where they are implemented
+export { diffDeposit, syncDeposit, formatDepositDiff, SYNC_FIELDS } from "./src/sync-deposit";
+export type { SyncOptions, SyncField } from "./src/sync-deposit";
+export type { DepositDiff, FieldChange, MainFileChange, SyncResult } from "./src/deposit-interfaces";
+
+// Import the deposit lifecycle functions from the file where they are implemented
+export {
+  submitDeposit,
+  publishDeposit,
+  createDepositVersion,
+  runLifecycleAction,
+  getDepositStatuses,
+  getCommunityDepositStatuses,
+  readDepositIdList,
+  formatDepositStatuses,
+  LIFECYCLE_ACTIONS,
+} from "./src/deposit-lifecycle";
+export type { LifecycleOptions } from "./src/deposit-lifecycle";
+export type { LifecycleAction, LifecycleResult, DepositStatusEntry } from "./src/deposit-interfaces";
+
+// Import the import recovery functions from the files where they are implemented
+export { deleteDeposit } from "./src/import-deposit";
+export { defaultCheckpointPath, loadImportCheckpoint } from "./src/import-checkpoint";
+export type { ImportFailurePolicy } from "./src/import-checkpoint";
+export type { ImportCheckpoint } from "./src/deposit-interfaces";
+
+// Import the multipart upload functions from the file where they are implemented
+export { uploadFileInParts, DEFAULT_MULTIPART_THRESHOLD } from "./src/multipart-upload";
+export type { MultipartUploadOptions } from "./src/multipart-upload";
+export type { MultipartUpload, UploadedPart } from "./src/deposit-interfaces";
+
+// Import the `meta.json` validation functions from the file where they are implemented
+export {
+  validateMetadata,
+  validateDepositDirectory,
+} from "./src/validate-deposit";
+export type { ValidationProblem } from "./src/validate-deposit";
+
+// Import the metadata reader functions from the file where they are implemented
+export {
+  registerMetadataReader,
+  readDepositMetadata,
+} from "./src/metadata-readers";
+export type {
+  MetadataReader,
+  DepositMetadataSource,
+} from "./src/metadata-readers";
+export type { DepositMetadata } from "./src/deposit-interfaces";
+
+// Import the author functions from the files where they are implemented
+export { transformAuthor } from "./src/import-deposit";
+export {
+  CREDIT_ROLES,
+  normalizeOrcid,
+  isValidOrcid,
+  normalizeRor,
+} from "./src/authors";
+export type { CreditRole } from "./src/authors";
+export type { Author, InputAuthor, Affiliation } from "./src/deposit-interfaces";
+
 // Import the `importDeposit` function from the file where it is implemented
-export { exportDeposit } from "./src/export-deposit";
+export { exportDeposit, exportDepositToStream } from "./src/export-deposit";
+export type { ExportOptions } from "./src/export-deposit";
+
+// Import the peer review export functions from the file where they are implemented
+export { listDepositReviews, getReviewFileStream, toExportedReview, REVIEWS_FOLDER } from "./src/deposit-reviews";
+export type {
+  ReviewPopulated,
+  ReviewerProfile,
+  ExportedReview,
+  ExportedReviewFile,
+} from "./src/deposit-interfaces";
+
+// Import the community export function from the file where it is implemented
+export { exportCommunity } from "./src/export-community";
+export type { CommunityExportOptions } from "./src/export-community";
+export type { DepositFilters } from "./src/list-deposits";
+export type { ExportManifest } from "./src/deposit-interfaces";
+
+// Import the export metadata formats from the file where they are implemented
+export { EXPORT_FORMATS, renderExportFormats } from "./src/export-formats";
+export type { ExportFormat, PackagedFile } from "./src/export-formats";
+
+// Import the archive manifest helpers from the file where they are implemented
+export { createArchiveManifest, verifyArchiveManifest } from "./src/archive-manifest";
+export type { ArchiveManifest, ManifestFile, IntegrityProblem } from "./src/archive-manifest";
+
+// Import the migration functions from the file where they are implemented
+export {
+  migrateDeposit,
+  migrateDeposits,
+  migrateCommunity,
+} from "./src/migrate-deposit";
+
+// Connection details used to talk to a specific Orvium instance
+export type { ApiConnection } from "./src/api-connection";
+
+// Import the configurable `OrviumClient` and profile helpers from the file where they are implemented
+export {
+  OrviumClient,
+  loadProfile,
+  defaultConfigPath,
+} from "./src/orvium-client";
+export type { OrviumProfile, OrviumProfilesConfig } from "./src/orvium-client";
+
+// Typed errors thrown by every API call
+export {
+  OrviumError,
+  AuthError,
+  NotFoundError,
+  ValidationError,
+  StorageUploadError,
+  IntegrityError,
+  IncompleteMigrationError,
+} from "./src/errors";
+export type { ApiStep, FailedFileCopy } from "./src/errors";
+
+// Import the logger and progress reporting helpers from the file where they are implemented
+export { consoleLogger, silentLogger, countingStream } from "./src/logger";
+export type { Logger, ProgressEvent } from "./src/logger";
 
 // Import the `getUserSummary` function from the file where it is implemented
 export { getUserSummary } from "./src/user-summary";
+
+// Import the user summary report and format functions from the files where they are implemented
+export {
+  getUserSummaryReport,
+  countContributions,
+  readOrcidList,
+} from "./src/user-summary";
+export {
+  SUMMARY_FORMATS,
+  formatUserSummary,
+  formatSummaryReport,
+} from "./src/summary-formats";
+export type { SummaryFormat } from "./src/summary-formats";
+export type {
+  UserSummary,
+  DepositSummary,
+  PeerReviewSummary,
+  CommunitySummary,
+  ContributionCounts,
+  UserSummaryReport,
+  UserSummaryReportEntry,
+} from "./src/deposit-interfaces";
+
+// Import the mock Orvium API from the file where it is implemented
+export { MockOrviumServer, startMockServer } from "./src/mock-server";
+export type { MockServerOptions, MockFailure, MockRequest, MockReview } from "./src/mock-server";
@@ -0,0 +1,98 @@
+import axios, { AxiosInstance, AxiosRequestConfig } from "axios";
+import dotenv from "dotenv";
+import type { Logger } from "./logger";
+
+/**
+ * Connection details of an Orvium instance. Every HTTP helper receives one of these instead of reading
+ * the environment directly, so the same process can talk to several instances (e.g. when migrating deposits).
+ *
+ * @property {string} apiUrl - Base URL of the Orvium API.
+ * @property {string} apiKey - API key sent in the `x-api-key` header.
+ * @property {string} apiKeyUser - API key user sent in the `x-api-key-user` header.
+ * @property {number} [timeout] - Timeout of every HTTP request in milliseconds (no timeout by default).
+ * @property {AxiosInstance} [axiosInstance] - Axios instance used for the requests, e.g. to configure proxies or interceptors (defaults to the global axios).
+ * @property {number} [maxRetries] - Number of times a request failing with 429, 5xx or a network error is retried (defaults to 3).
+ *   Requests that are not idempotent, such as creating a deposit, are only retried on 429 or 503 with `Retry-After`.
+ * @property {number} [retryDelay] - Base delay in milliseconds of the exponential backoff between retries (defaults to 500).
+ * @property {number} [requestsPerSecond] - Maximum number of API requests started per second (unlimited by default).
+ * @property {number} [multipartThreshold] - Files of at least this many bytes are uploaded in parts, when the platform supports it (defaults to 100 MB).
+ * @property {Logger} [logger] - Receives the messages and progress events of the operations using the connection (defaults to the console).
+ */
+export interface ApiConnection {
+  apiUrl: string;
+  apiKey: string;
+  apiKeyUser: string;
+  timeout?: number;
+  axiosInstance?: AxiosInstance;
+  maxRetries?: number;
+  retryDelay?: number;
+  requestsPerSecond?: number;
+  multipartThreshold?: number;
+  logger?: Logger;
+}
+
+/**
+ * Builds a connection from the `API_URL`, `API_KEY` and `API_KEY_USER` environment variables,
+ * optionally prefixed (e.g. `SOURCE_API_URL` with the prefix `SOURCE_`). Variables defined in a
+ * `.env` file of the working directory are loaded first.
+ *
+ * @param {string} [prefix] - Prefix of the environment variable names.
+ * @returns {ApiConnection} The connection read from the environment.
+ * @throws {Error} Throws an error if any of the variables is not set.
+ */
+export function connectionFromEnv(prefix = ""): ApiConnection {
+  dotenv.config();
+
+  const apiUrl = process.env[`${prefix}API_URL`];
+  const apiKey = process.env[`${prefix}API_KEY`];
+  const apiKeyUser = process.env[`${prefix}API_KEY_USER`];
+
+  if (!apiUrl || !apiKey || !apiKeyUser) {
+    throw new Error(
+      `Missing required environment variables: ${prefix}API_KEY, ${prefix}API_KEY_USER and ${prefix}API_URL are not set.`
+    );
+  }
+  return { apiUrl, apiKey, apiKeyUser };
+}
+
+/**
+ * Returns the authentication headers expected by the Orvium API.
+ *
+ * @param {ApiConnection} connection - Connection with the API keys.
+ * @returns {Record<string, string>} The `x-api-key` and `x-api-key-user` headers.
+ */
+export function authHeaders(connection: ApiConnection): Record<string, string> {
+  return {
+    "x-api-key": connection.apiKey,
+    "x-api-key-user": connection.apiKeyUser,
+  };
+}
+
+/**
+ * Returns the axios instance that must be used for every request made on behalf of a connection,
+ * including the requests to signed storage URLs.
+ *
+ * @param {ApiConnection} connection - Connection that may carry its own axios instance.
+ * @returns {AxiosInstance} The connection axios instance, or the global axios.
+ */
+export function httpClient(connection: ApiConnection): AxiosInstance {
+  return connection.axiosInstance ?? axios;
+}
+
+/**
+ * Returns the request configuration for a call to the Orvium API: authentication headers and timeout.
+ *
+ * @param {ApiConnection} connection - Connection with the API keys and timeout.
+ * @param {AxiosRequestConfig} [config] - Additional request configuration merged into the result.
+ * @returns {AxiosRequestConfig} The request configuration.
+ */
+export function apiRequestConfig(
+  connection: ApiConnection,
+  config: AxiosRequestConfig = {}
+): AxiosRequestConfig {
+  return {
+    timeout: connection.timeout,
+    ...config,
+    headers: { ...authHeaders(connection), ...config.headers },
+  };
+}
@@ -0,0 +1,194 @@
+/**
+ * Checksummed manifests of exported deposits.
+ *
+ * - Every zip written by `exportDeposit` contains a `manifest.json` with the SHA-256 and size of each of its files.
+ * - Before importing a deposit folder or zip that has a manifest, its files are checked against it, so a
+ *   corrupted or truncated archive is rejected before anything is created in Orvium.
+ * - Archives can also be verified offline with `orvium-tools-verify`.
+ */
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+
+export const MANIFEST_FILENAME = "manifest.json";
+
+const CHUNK_SIZE = 1024 * 1024;
+
+/**
+ * A file listed in `manifest.json`.
+ *
+ * @property {string} name - The name of the file inside the archive, with `/` separated folders, e.g. `reviews/<id>/review.json`.
+ * @property {number} size - The size of the file in bytes.
+ * @property {string} sha256 - The SHA-256 digest of the file, in hexadecimal.
+ */
+export interface ManifestFile {
+  name: string;
+  size: number;
+  sha256: string;
+}
+
+/**
+ * The content of `manifest.json`.
+ *
+ * @property {number} version - Version of the manifest format.
+ * @property {string} algorithm - The digest algorithm, always `sha256`.
+ * @property {string} createdAt - ISO timestamp of the export.
+ * @property {ManifestFile[]} files - Every file of the archive, except the manifest itself.
+ */
+export interface ArchiveManifest {
+  version: 1;
+  algorithm: "sha256";
+  createdAt: string;
+  files: ManifestFile[];
+}
+
+/**
+ * A mismatch between a deposit folder and its manifest.
+ *
+ * @property {string} file - The name of the file, or `manifest.json` for problems with the manifest itself.
+ * @property {string} message - Description of the problem.
+ */
+export interface IntegrityProblem {
+  file: string;
+  message: string;
+}
+
+/**
+ * Computes the SHA-256 and size of in-memory content, such as a generated metadata file.
+ *
+ * @param {string} name - The name of the file inside the archive.
+ * @param {string | Buffer} content - The content of the file.
+ * @returns {ManifestFile} The manifest entry of the file.
+ */
+export function describeContent(name: string, content: string | Buffer): ManifestFile {
+  const buffer = typeof content === "string" ? Buffer.from(content) : content;
+  return {
+    name,
+    size: buffer.length,
+    sha256: crypto.createHash("sha256").update(buffer).digest("hex"),
+  };
+}
+
+/**
+ * Computes the SHA-256 and size of a file, reading it in chunks.
+ *
+ * @param {string} filePath - Path of the file.
+ * @returns {{ size: number, sha256: string }} The size and digest of the file.
+ */
+export function hashFile(filePath: string): { size: number; sha256: string } {
+  const hash = crypto.createHash("sha256");
+  const buffer = Buffer.alloc(CHUNK_SIZE);
+  const fd = fs.openSync(filePath, "r");
+  let size = 0;
+  try {
+    for (;;) {
+      const bytesRead = fs.readSync(fd, buffer, 0, CHUNK_SIZE, null);
+      if (bytesRead === 0) {
+        break;
+      }
+      hash.update(buffer.subarray(0, bytesRead));
+      size += bytesRead;
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+  return { size, sha256: hash.digest("hex") };
+}
+
+/**
+ * Builds the manifest of an archive.
+ *
+ * @param {ManifestFile[]} files - Every file of the archive, except the manifest itself.
+ * @returns {ArchiveManifest} The manifest, to be written as `manifest.json`.
+ */
+export function createArchiveManifest(files: ManifestFile[]): ArchiveManifest {
+  return {
+    version: 1,
+    algorithm: "sha256",
+    createdAt: new Date().toISOString(),
+    files,
+  };
+}
+
+/**
+ * Checks whether a deposit folder contains a `manifest.json`.
+ *
+ * @param {string} directoryPath - Directory with the deposit files.
+ * @returns {boolean} True if the folder has a manifest.
+ */
+export function hasArchiveManifest(directoryPath: string): boolean {
+  return fs.existsSync(path.join(directoryPath, MANIFEST_FILENAME));
+}
+
+// Whether a manifest entry names a file inside the folder: a relative path without `.` or `..` segments
+function isArchivePath(name: string): boolean {
+  return (
+    name !== "" &&
+    !name.includes("\\") &&
+    name.split("/").every((segment) => segment !== "" && segment !== "." && segment !== "..")
+  );
+}
+
+// Every file of a folder and its subfolders, as `/` separated paths relative to the folder
+function listFolderFiles(directoryPath: string, prefix = ""): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(path.join(directoryPath, prefix), { withFileTypes: true })) {
+    const name = prefix === "" ? entry.name : `${prefix}/${entry.name}`;
+    if (entry.isDirectory()) {
+      files.push(...listFolderFiles(directoryPath, name));
+    } else if (entry.isFile()) {
+      files.push(name);
+    }
+  }
+  return files;
+}
+
+/**
+ * Checks the files of a deposit folder against its `manifest.json`: every listed file must exist with the
+ * recorded size and SHA-256, and every file of the folder and its subfolders (such as `reviews/`) must be listed.
+ *
+ * @param {string} directoryPath - Directory with the deposit files, e.g. an extracted export zip.
+ * @returns {IntegrityProblem[]} Every problem found; an empty array when the folder matches its manifest.
+ */
+export function verifyArchiveManifest(directoryPath: string): IntegrityProblem[] {
+  let manifest: ArchiveManifest;
+  try {
+    manifest = JSON.parse(
+      fs.readFileSync(path.join(directoryPath, MANIFEST_FILENAME), "utf8")
+    );
+  } catch (error: any) {
+    return [{ file: MANIFEST_FILENAME, message: `cannot be read: ${error.message}` }];
+  }
+  if (manifest?.algorithm !== "sha256" || !Array.isArray(manifest.files)) {
+    return [{ file: MANIFEST_FILENAME, message: "is not a sha256 file manifest" }];
+  }
+
+  const problems: IntegrityProblem[] = [];
+  const listed = new Set<string>();
+  for (const entry of manifest.files) {
+    const name = String(entry?.name ?? "");
+    if (!isArchivePath(name)) {
+      problems.push({ file: name, message: "is not a valid file name" });
+      continue;
+    }
+    listed.add(name);
+    const filePath = path.join(directoryPath, name);
+    if (!fs.existsSync(filePath)) {
+      problems.push({ file: name, message: "is missing" });
+      continue;
+    }
+    const { size, sha256 } = hashFile(filePath);
+    if (size !== entry.size) {
+      problems.push({ file: name, message: `has ${size} bytes, expected ${entry.size}` });
+    } else if (sha256 !== entry.sha256) {
+      problems.push({ file: name, message: "does not match its SHA-256 checksum" });
+    }
+  }
+
+  for (const name of listFolderFiles(directoryPath)) {
+    if (name !== MANIFEST_FILENAME && !listed.has(name)) {
+      problems.push({ file: name, message: `is not listed in ${MANIFEST_FILENAME}` });
+    }
+  }
+  return problems;
+}
@@ -0,0 +1,118 @@
+/**
+ * Identifiers and roles of deposit authors.
+ *
+ * - Normalise ORCID iDs given as `https://orcid.org/...` URLs, bare iDs or 16 digits without hyphens, and check
+ *   their ISO 7064 MOD 11-2 check digit.
+ * - Normalise ROR ids of affiliations to their `https://ror.org/...` form.
+ * - List the CRediT (Contributor Roles Taxonomy) roles accepted by the platform.
+ * - Derive the nickname of an author from their name when none is given.
+ */
+
+/**
+ * A CRediT contributor role, as named by the Orvium platform.
+ */
+export type CreditRole =
+  | "conceptualization"
+  | "data curation"
+  | "formal analysis"
+  | "funding acquisition"
+  | "investigation"
+  | "methodology"
+  | "project administration"
+  | "resources"
+  | "software"
+  | "supervision"
+  | "validation"
+  | "visualization"
+  | "writing original draft"
+  | "writing review editing";
+
+/**
+ * Every CRediT contributor role, in the order of the taxonomy.
+ */
+export const CREDIT_ROLES: CreditRole[] = [
+  "conceptualization",
+  "data curation",
+  "formal analysis",
+  "funding acquisition",
+  "investigation",
+  "methodology",
+  "project administration",
+  "resources",
+  "software",
+  "supervision",
+  "validation",
+  "visualization",
+  "writing original draft",
+  "writing review editing",
+];
+
+/**
+ * Checks that a string names a CRediT contributor role.
+ *
+ * @param {string} value - The value to check, e.g. a role read from a metadata file.
+ * @returns {boolean} True if the value is one of `CREDIT_ROLES`.
+ */
+export function isCreditRole(value: string): value is CreditRole {
+  return (CREDIT_ROLES as string[]).includes(value);
+}
+
+/**
+ * Extracts an ORCID iD from an ORCID URL (`https://orcid.org/0000-0002-1825-0097`), a bare iD or its 16 characters
+ * without hyphens, in the hyphenated upper case form the platform stores. The check digit is not verified.
+ *
+ * @param {string} value - The ORCID iD or URL.
+ * @returns {string | undefined} The iD as `0000-0002-1825-0097`, or undefined if the value does not contain one.
+ */
+export function normalizeOrcid(value: string): string | undefined {
+  const match = /(?:^|[/\s:])(\d{4})-?(\d{4})-?(\d{4})-?(\d{3}[\dX])\/?$/i.exec(value.trim());
+  return match ? match.slice(1, 5).join("-").toUpperCase() : undefined;
+}
+
+/**
+ * Checks the ISO 7064 MOD 11-2 check digit of an ORCID iD.
+ *
+ * @param {string} orcid - The iD, in any form accepted by `normalizeOrcid`.
+ * @returns {boolean} True if the value is an ORCID iD whose last character matches the check digit of the others.
+ */
+export function isValidOrcid(orcid: string): boolean {
+  const normalized = normalizeOrcid(orcid);
+  if (!normalized) {
+    return false;
+  }
+  const digits = normalized.replace(/-/g, "");
+  let total = 0;
+  for (const digit of digits.slice(0, -1)) {
+    total = (total + Number(digit)) * 2;
+  }
+  const remainder = (12 - (total % 11)) % 11;
+  return digits.slice(-1) === (remainder === 10 ? "X" : String(remainder));
+}
+
+/**
+ * Extracts a ROR id from a ROR URL (`https://ror.org/05dxps055`) or a bare id, as its URL.
+ *
+ * @param {string} value - The ROR id or URL.
+ * @returns {string | undefined} The id as `https://ror.org/05dxps055`, or undefined if the value is not a ROR id.
+ */
+export function normalizeRor(value: string): string | undefined {
+  const match = /^(?:https?:\/\/)?(?:ror\.org\/)?(0[a-hj-km-np-tv-z0-9]{6}\d{2})\/?$/i.exec(value.trim());
+  return match ? `https://ror.org/${match[1].toLowerCase()}` : undefined;
+}
+
+/**
+ * Derives a nickname from the name of an author, e.g. `jose-maria-garcia` for José María García.
+ *
+ * @param {string[]} names - The first, middle and last names of the author.
+ * @returns {string} The names in lower case without accents, joined with hyphens.
+ */
+export function nickNameOf(...names: (string | undefined)[]): string {
+  return names
+    .filter((name): name is string => !!name)
+    .join(" ")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
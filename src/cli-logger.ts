@@ -0,0 +1,84 @@
+/**
+ * Logger of the command line tools.
+ *
+ * - Messages: information on stdout (moved to stderr with `--json`), warnings and errors on stderr.
+ * - With `--json`, messages and progress events are written to stderr as JSON lines, one object per line, so
+ *   that a script can follow an import or export while stdout only holds the result.
+ * - Otherwise, uploads and downloads are drawn as a progress bar per file when stderr is a terminal.
+ * - With `--quiet`, only warnings and errors are written.
+ */
+import type { GlobalOptions } from "./cli";
+import type { Logger, ProgressEvent } from "./logger";
+
+const BAR_WIDTH = 30;
+
+function megabytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function progressBar(file: string, bytes: number, total?: number): string {
+  if (!total) {
+    return `${file}  ${megabytes(bytes)}`;
+  }
+  const ratio = Math.min(bytes / total, 1);
+  const filled = Math.round(ratio * BAR_WIDTH);
+  const percent = `${Math.floor(ratio * 100)}%`.padStart(4);
+  return `${file}  [${"#".repeat(filled)}${"-".repeat(BAR_WIDTH - filled)}] ${percent}  ${megabytes(bytes)} / ${megabytes(total)}`;
+}
+
+/**
+ * Creates the logger of a command invocation.
+ *
+ * @param {GlobalOptions} globals - The global options of the invocation (`--json`, `--quiet`).
+ * @param {NodeJS.WriteStream} [stream] - Where progress is written (defaults to stderr).
+ * @returns {Logger} The logger, to be attached to the connections of the command.
+ */
+export function createCliLogger(globals: GlobalOptions, stream: NodeJS.WriteStream = process.stderr): Logger {
+  if (globals.json) {
+    const line = (value: object) => stream.write(`${JSON.stringify(value)}\n`);
+    const log = (level: string) => (message: string) => line({ type: "log", level, message });
+    return {
+      info: globals.quiet ? () => undefined : log("info"),
+      warn: log("warn"),
+      error: log("error"),
+      progress: globals.quiet ? undefined : (event) => line(event),
+    };
+  }
+
+  // The bar of the file being transferred is redrawn in place, and ended before anything else is written
+  let drawing = false;
+  const endBar = () => {
+    if (drawing) {
+      stream.write("\n");
+      drawing = false;
+    }
+  };
+  const progress = (event: ProgressEvent) => {
+    if (event.type !== "bytesUploaded" && event.type !== "bytesDownloaded") {
+      return;
+    }
+    const verb = event.type === "bytesUploaded" ? "Uploading" : "Downloading";
+    stream.write(`\r\x1b[K${verb} ${progressBar(event.file, event.bytes, event.total)}`);
+    drawing = true;
+    if (event.total !== undefined && event.bytes >= event.total) {
+      endBar();
+    }
+  };
+  return {
+    info: (message) => {
+      if (!globals.quiet) {
+        endBar();
+        console.log(message);
+      }
+    },
+    warn: (message) => {
+      endBar();
+      console.warn(message);
+    },
+    error: (message) => {
+      endBar();
+      console.error(message);
+    },
+    progress: globals.quiet || !stream.isTTY ? undefined : progress,
+  };
+}
@@ -0,0 +1,401 @@
+/**
+ * Command line layer shared by the `orvium-tools` CLI and its per-command aliases (`orvium-tools-import`, ...).
+ *
+ * - Commands declare their arguments and options; the help text and the usage errors are generated from them.
+ * - Global options (`--config`, `--profile`, `--api-url`, `--json`, `--quiet`) are accepted by every command and
+ *   resolved into the connection the command uses.
+ * - Messages and progress events of the library are rendered by the logger of `cli-logger.ts`.
+ * - Every command exits with one of the `EXIT_CODES`.
+ */
+import { parseArgs } from "util";
+import * as readline from "readline/promises";
+import dotenv from "dotenv";
+import { ApiConnection, connectionFromEnv } from "./api-connection";
+import { OrviumError } from "./errors";
+import type { Logger } from "./logger";
+import { createCliLogger } from "./cli-logger";
+import { OrviumClient, loadProfile } from "./orvium-client";
+
+/**
+ * Exit codes of every command.
+ */
+export const EXIT_CODES = {
+  success: 0, // Everything succeeded
+  failure: 1, // Runtime error, or at least one deposit failed or did not verify
+  usage: 2, // Incorrect usage: unknown command or option, missing argument or invalid value
+  config: 3, // The connection cannot be resolved: missing API settings, unreadable --config or unknown --profile
+};
+
+const EXIT_CODE_HELP: [number, string][] = [
+  [EXIT_CODES.success, "Success"],
+  [EXIT_CODES.failure, "Runtime error, or at least one deposit failed or did not verify"],
+  [EXIT_CODES.usage, "Incorrect usage: unknown command or option, missing argument or invalid value"],
+  [EXIT_CODES.config, "Missing API settings, unreadable --config file or unknown --profile"],
+];
+
+/**
+ * Thrown by a command when its arguments are missing or invalid. The command exits with `EXIT_CODES.usage`.
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+/**
+ * Thrown when the connection to the Orvium API cannot be resolved. The command exits with `EXIT_CODES.config`.
+ */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+/**
+ * An option accepted by a command.
+ *
+ * @property {"string" | "boolean"} type - Whether the option takes a value.
+ * @property {boolean} [multiple] - Whether the option may be repeated; its values are collected in an array.
+ * @property {string} [short] - Single character alias of the option.
+ * @property {string} [value] - Placeholder of the value in the help text, e.g. `<n>`.
+ * @property {string} description - Description of the option in the help text.
+ */
+export interface CommandOption {
+  type: "string" | "boolean";
+  multiple?: boolean;
+  short?: string;
+  value?: string;
+  description: string;
+}
+
+/**
+ * The arguments of a command invocation, as parsed by `util.parseArgs`.
+ *
+ * @property {object} values - Option values keyed by option name; options not given are undefined.
+ * @property {string[]} positionals - The positional arguments.
+ */
+export interface CommandArgs {
+  values: Record<string, string | boolean | (string | boolean)[] | undefined>;
+  positionals: string[];
+}
+
+/**
+ * The global options accepted by every command.
+ *
+ * @property {string} [config] - Environment file with the API settings, or the profiles file when used with `profile`.
+ * @property {string} [profile] - Named profile of the profiles file used as connection.
+ * @property {string} [apiUrl] - Base URL of the Orvium API, overriding the environment or the profile.
+ * @property {boolean} json - Print the result as JSON on stdout, and messages and progress events as JSON lines on stderr.
+ * @property {boolean} quiet - Print only errors (and the result with `json`).
+ */
+export interface GlobalOptions {
+  config?: string;
+  profile?: string;
+  apiUrl?: string;
+  json: boolean;
+  quiet: boolean;
+}
+
+/**
+ * What a running command receives besides its arguments.
+ *
+ * @property {GlobalOptions} globals - The global options of the invocation.
+ * @property {Function} connection - Resolves the connection from the global options, the profile or the environment, with `logger` attached.
+ * @property {Logger} logger - Renders messages and progress events: progress bars, or JSON lines on stderr with `--json`.
+ * @property {Function} output - Prints the result of the command: `value` as JSON with `--json`, otherwise `text`.
+ */
+export interface CommandContext {
+  globals: GlobalOptions;
+  connection(): ApiConnection;
+  logger: Logger;
+  output(value: unknown, text?: string): void;
+}
+
+/**
+ * A subcommand of `orvium-tools`.
+ *
+ * @property {string} name - Name of the subcommand, e.g. `import`.
+ * @property {string} summary - One-line description shown in the command list and the help text.
+ * @property {string[]} usage - Synopsis lines, without the program name.
+ * @property {[string, string][]} [arguments] - Positional arguments and their descriptions, for the help text.
+ * @property {Record<string, CommandOption>} options - Options of the command, keyed by long name.
+ * @property {Function} run - Runs the command and resolves with its exit code.
+ */
+export interface CliCommand {
+  name: string;
+  summary: string;
+  usage: string[];
+  arguments?: [string, string][];
+  options: Record<string, CommandOption>;
+  run(args: CommandArgs, context: CommandContext): Promise<number>;
+}
+
+const GLOBAL_OPTIONS: Record<string, CommandOption> = {
+  config: {
+    type: "string",
+    value: "<file>",
+    description: "Environment file with API_URL, API_KEY and API_KEY_USER (default ./.env); with --profile, the profiles file",
+  },
+  profile: {
+    type: "string",
+    value: "<name>",
+    description: "Connect with a profile of the profiles file (default $ORVIUM_TOOLS_CONFIG or ~/.orvium-tools.json)",
+  },
+  "api-url": { type: "string", value: "<url>", description: "Base URL of the Orvium API, overriding API_URL or the profile" },
+  json: { type: "boolean", description: "Print the result as JSON on stdout, and messages and progress events as JSON lines on stderr" },
+  quiet: { type: "boolean", description: "Print only errors (and the result with --json)" },
+  help: { type: "boolean", short: "h", description: "Show help" },
+};
+
+// --- Help --------------------------------------------------------------------
+
+function formatRows(rows: [string, string][]): string[] {
+  const width = Math.max(...rows.map(([name]) => name.length));
+  return rows.map(([name, description]) => `  ${name.padEnd(width)}  ${description}`);
+}
+
+function optionRows(options: Record<string, CommandOption>): [string, string][] {
+  return Object.entries(options).map(([name, option]) => [
+    `${option.short ? `-${option.short}, ` : ""}--${name}${option.value ? ` ${option.value}` : ""}`,
+    option.description,
+  ]);
+}
+
+// Synopsis lines starting with spaces continue the previous line
+function usageLines(program: string, usage: string[]): string[] {
+  return usage.map((line, index) => {
+    if (line.startsWith(" ")) {
+      return `${" ".repeat(program.length + 8)}${line.trimStart()}`;
+    }
+    return `${index === 0 ? "Usage: " : "       "}${program} ${line}`;
+  });
+}
+
+function commonHelp(): string[] {
+  return [
+    "",
+    "Global options:",
+    ...formatRows(optionRows(GLOBAL_OPTIONS)),
+    "",
+    "Exit codes:",
+    ...formatRows(EXIT_CODE_HELP.map(([code, description]) => [String(code), description])),
+  ];
+}
+
+/**
+ * Generates the help text of a command.
+ *
+ * @param {CliCommand} command - The command.
+ * @param {string} program - How the command is invoked, e.g. `orvium-tools import` or `orvium-tools-import`.
+ * @returns {string} The help text.
+ */
+export function commandHelp(command: CliCommand, program: string): string {
+  const lines = [...usageLines(program, command.usage), "", command.summary];
+  if (command.arguments && command.arguments.length > 0) {
+    lines.push("", "Arguments:", ...formatRows(command.arguments));
+  }
+  if (Object.keys(command.options).length > 0) {
+    lines.push("", "Options:", ...formatRows(optionRows(command.options)));
+  }
+  return [...lines, ...commonHelp()].join("\n");
+}
+
+/**
+ * Generates the help text of the `orvium-tools` CLI, listing its commands.
+ *
+ * @param {CliCommand[]} commands - The available commands.
+ * @param {string} program - The program name.
+ * @returns {string} The help text.
+ */
+export function programHelp(commands: CliCommand[], program: string): string {
+  return [
+    `Usage: ${program} <command> [options] [arguments]`,
+    "",
+    "Commands:",
+    ...formatRows(commands.map((command) => [command.name, command.summary])),
+    "",
+    `Run "${program} <command> --help" for the arguments and options of a command.`,
+    ...commonHelp(),
+  ].join("\n");
+}
+
+// --- Execution ---------------------------------------------------------------
+
+function resolveConnection(globals: GlobalOptions): ApiConnection {
+  try {
+    if (globals.profile) {
+      const profile = loadProfile(globals.profile, globals.config);
+      return new OrviumClient({ ...profile, apiUrl: globals.apiUrl ?? profile.apiUrl }).connection;
+    }
+    if (globals.config) {
+      // Values of an explicit file win over the shell environment and ./.env
+      const { error } = dotenv.config({ path: globals.config, override: true });
+      if (error) {
+        throw error;
+      }
+    }
+    if (globals.apiUrl) {
+      // Set before reading the environment, so API_URL does not need to be defined anywhere else
+      process.env.API_URL = globals.apiUrl;
+    }
+    return connectionFromEnv();
+  } catch (error: any) {
+    throw new ConfigError(error?.message ?? String(error));
+  }
+}
+
+function reportError(error: any, globals: GlobalOptions): void {
+  if (globals.json) {
+    const details =
+      error instanceof OrviumError
+        ? { step: error.step, depositId: error.depositId, status: error.status }
+        : {};
+    console.error(
+      JSON.stringify({ error: { name: error?.name ?? "Error", message: error?.message ?? String(error), ...details } })
+    );
+  } else {
+    console.error(error?.message ?? error);
+  }
+}
+
+/**
+ * Asks a yes/no question on the terminal, e.g. before a command changes deposits. The question is written to
+ * stderr, so stdout only holds the result of the command.
+ *
+ * @param {string} question - The question, without the answer hint.
+ * @returns {Promise<boolean>} A promise that resolves with true if the answer starts with `y`.
+ * @throws {UsageError} Throws if stdin is not a terminal: the command must then be confirmed with an option such as `--yes`.
+ */
+export async function confirmPrompt(question: string): Promise<boolean> {
+  if (!process.stdin.isTTY) {
+    throw new UsageError(`${question} Cannot ask for confirmation when stdin is not a terminal: use --yes`);
+  }
+  const prompt = readline.createInterface({ input: process.stdin, output: process.stderr });
+  try {
+    const answer = await prompt.question(`${question} [y/N] `);
+    return /^y/i.test(answer.trim());
+  } finally {
+    prompt.close();
+  }
+}
+
+/**
+ * Runs a command with its command line arguments. Global options may appear anywhere in the arguments.
+ *
+ * @param {CliCommand} command - The command to run.
+ * @param {string[]} argv - The arguments after the command name.
+ * @param {string} program - How the command is invoked, used in the help text and usage errors.
+ * @returns {Promise<number>} A promise that resolves with the exit code; it never rejects.
+ */
+export async function runCommand(
+  command: CliCommand,
+  argv: string[],
+  program: string
+): Promise<number> {
+  let args: CommandArgs;
+  try {
+    args = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: { ...command.options, ...GLOBAL_OPTIONS },
+    });
+  } catch (error: any) {
+    console.error(error?.message ?? error);
+    console.error(usageLines(program, command.usage).join("\n"));
+    return EXIT_CODES.usage;
+  }
+
+  const { values } = args;
+  if (values.help) {
+    console.log(commandHelp(command, program));
+    return EXIT_CODES.success;
+  }
+  const globals: GlobalOptions = {
+    config: values.config as string | undefined,
+    profile: values.profile as string | undefined,
+    apiUrl: values["api-url"] as string | undefined,
+    json: values.json === true,
+    quiet: values.quiet === true,
+  };
+
+  // Results are written to stdout directly; the messages of the library go through the CLI logger of the
+  // connection, which writes them to stderr with --json, so stdout only holds the result, and drops them with --quiet.
+  const write = (text: string) => process.stdout.write(`${text}\n`);
+
+  let connection: ApiConnection | undefined;
+  const logger = createCliLogger(globals);
+  const context: CommandContext = {
+    globals,
+    connection: () => (connection ??= { ...resolveConnection(globals), logger }),
+    logger,
+    output(value, text) {
+      if (globals.json) {
+        write(JSON.stringify(value, null, 2));
+      } else if (!globals.quiet) {
+        write(text ?? JSON.stringify(value, null, 2));
+      }
+    },
+  };
+
+  try {
+    return await command.run(args, context);
+  } catch (error: any) {
+    reportError(error, globals);
+    if (error instanceof UsageError) {
+      console.error(usageLines(program, command.usage).join("\n"));
+      return EXIT_CODES.usage;
+    }
+    return error instanceof ConfigError ? EXIT_CODES.config : EXIT_CODES.failure;
+  }
+}
+
+/**
+ * Runs the `orvium-tools` CLI: finds the command named in the arguments and runs it.
+ *
+ * @param {CliCommand[]} commands - The available commands.
+ * @param {string[]} argv - The command line arguments, without the node and script paths.
+ * @param {string} [program] - The program name.
+ * @returns {Promise<number>} A promise that resolves with the exit code; it never rejects.
+ */
+export async function runCli(
+  commands: CliCommand[],
+  argv: string[],
+  program = "orvium-tools"
+): Promise<number> {
+  // The command is the first positional argument, skipping the values of global options
+  let index = 0;
+  while (index < argv.length && argv[index].startsWith("-")) {
+    const name = argv[index].replace(/^--/, "");
+    index += GLOBAL_OPTIONS[name]?.type === "string" ? 2 : 1;
+  }
+  const name = argv[index];
+
+  if (name === undefined || name === "help") {
+    const helpRequested = name === "help" || argv.includes("--help") || argv.includes("-h");
+    (helpRequested ? console.log : console.error)(programHelp(commands, program));
+    return helpRequested ? EXIT_CODES.success : EXIT_CODES.usage;
+  }
+  const command = commands.find((candidate) => candidate.name === name);
+  if (!command) {
+    console.error(`Unknown command "${name}"`);
+    console.error(programHelp(commands, program));
+    return EXIT_CODES.usage;
+  }
+  return runCommand(
+    command,
+    [...argv.slice(0, index), ...argv.slice(index + 1)],
+    `${program} ${command.name}`
+  );
+}
+
+/**
+ * Runs a command as a standalone program (e.g. `orvium-tools-import`) and exits the process with its exit code.
+ *
+ * @param {CliCommand} command - The command to run.
+ * @param {string} program - The name of the standalone program.
+ */
+export function runStandalone(command: CliCommand, program: string): void {
+  runCommand(command, process.argv.slice(2), program).then((code) => process.exit(code));
+}
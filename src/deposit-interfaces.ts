@@ -1,17 +1,45 @@
+import type { ApiStep, FailedFileCopy } from './errors';
+import type { CreditRole } from './authors';
+
+/**
+ * An institution an author is affiliated with.
+ *
+ * @property {string} name - The name of the institution.
+ * @property {string} [ror] - The ROR id of the institution, as `https://ror.org/05dxps055`.
+ */
+export interface Affiliation {
+    name: string;
+    ror?: string;
+}
+
 /**
  * Represents an author's basic information within the Orvium platform.
  * This interface is used to define the structure of author data throughout the application.
  *
  * @property {string} firstName - The first name of the author.
+ * @property {string} [middleName] - The middle name of the author, if any.
  * @property {string} lastName - The last name of the author.
- * @property {string} [nickname] - The nickname of the author, if applicable.
+ * @property {string} [nickName] - The nickname of the author, derived from their name when not given.
+ * @property {string} [email] - The email address of the author.
  * @property {string} [orcid] - The ORCID identifier for the author, providing a unique identifier that is internationally recognized.
+ * @property {Affiliation[]} [affiliations] - The institutions the author is affiliated with.
+ * @property {boolean} [corresponding] - True for the corresponding author of the deposit.
+ * @property {CreditRole[]} [credit] - The CRediT roles of the author in the work.
+ * @property {string} [sourceId] - The identifier of the author in the system the deposit comes from.
+ * @property {string} [sourceUserId] - The identifier of the user account of the author in the system the deposit comes from.
  */
 export interface Author {
     firstName: string;
+    middleName?: string;
     lastName: string;
     nickName?: string;
+    email?: string;
     orcid?: string;
+    affiliations?: Affiliation[];
+    corresponding?: boolean;
+    credit?: CreditRole[];
+    sourceId?: string;
+    sourceUserId?: string;
 }
 
 /**
@@ -25,7 +53,11 @@ export interface Author {
  * @property {string} first_name - The author's first name.
  * @property {string} middle_name - The author's middle name.
  * @property {string} last_name - The author's last name.
- * @property {string} orcid - The ORCID identifier for the author, providing a unique and persistent digital identifier.
+ * @property {string} orcid - The ORCID identifier for the author, as a bare iD or an `https://orcid.org/` URL.
+ * @property {string} [email] - The author's email address.
+ * @property {Affiliation[]} [affiliations] - The institutions the author is affiliated with.
+ * @property {boolean} [corresponding] - True for the corresponding author.
+ * @property {CreditRole[]} [credit] - The author's CRediT roles.
  * @property {string} [date_modified] - The last modification date of the author's record, optional and used for synchronization.
  */
 export interface InputAuthor {
@@ -35,6 +67,10 @@ export interface InputAuthor {
     middle_name: string;
     last_name: string;
     orcid: string;
+    email?: string;
+    affiliations?: Affiliation[];
+    corresponding?: boolean;
+    credit?: CreditRole[];
     date_modified?: string;
 }
 
@@ -47,6 +83,10 @@ export interface InputAuthor {
  * @property {string} community - The name or identifier of the community within which the deposit is categorized or managed.
  * @property {string} abstract - A brief summary of the deposit content, providing a clear overview of its purpose and scope.
  * @property {Author[]} authors - An array of Author objects who are credited with the creation or contribution to the deposit content.
+ * @property {DepositFile[]} [files] - Supplementary files (datasets, figures, cover letters...) uploaded alongside the manuscript.
+ * @property {DepositFile} [pdf] - A PDF rendering of the manuscript that replaces the one generated by the platform.
+ * @property {string} [doi] - The DOI of the deposit, used to recognise it when it is imported again.
+ * @property {string} [sourceId] - The identifier of the deposit in the system it comes from, used to recognise it when it has no DOI.
  */
 export interface Deposit {
     title: string;
@@ -57,7 +97,61 @@ export interface Deposit {
     keywords: string[];
     manuscript: {
         filename: string;
+        contentType?: string;
     }
+    files?: DepositFile[];
+    pdf?: DepositFile;
+    doi?: string;
+    sourceId?: string;
+}
+
+/**
+ * Describes a file of a deposit, other than the main manuscript, as listed in `meta.json`.
+ * The description and tags match the corresponding fields of `FileMetadata`.
+ *
+ * @property {string} filename - The name of the file inside the deposit folder.
+ * @property {string} [description] - A brief description of the file contents.
+ * @property {string[]} [tags] - Tags or keywords associated with the file.
+ * @property {string} [contentType] - MIME type of the file, overriding the type detected from its content.
+ */
+export interface DepositFile {
+    filename: string;
+    description?: string;
+    tags?: string[];
+    contentType?: string;
+}
+
+/**
+ * Describes the metadata of a deposit folder, as written in `meta.json` or mapped from another metadata format
+ * (JATS XML, Crossref, DataCite, BibTeX or RIS) by a metadata reader.
+ *
+ * @property {string} title - The title of the deposit.
+ * @property {string} abstract - The abstract of the deposit.
+ * @property {string} [community] - The community the deposit belongs to, used when none is given on import.
+ * @property {(InputAuthor | Author)[]} authors - The authors, in either the snake_case or the camelCase shape.
+ * @property {string[]} [disciplines] - The disciplines (subjects) of the deposit.
+ * @property {string[]} [keywords] - The keywords of the deposit.
+ * @property {object} manuscript - The main file of the deposit, with its optional content type.
+ * @property {DepositFile[]} [files] - Supplementary files uploaded alongside the manuscript.
+ * @property {DepositFile} [pdf] - A PDF rendering that replaces the one generated by the platform.
+ * @property {string} [doi] - The DOI of the deposit.
+ * @property {string} [sourceId] - The identifier of the deposit in the system it comes from.
+ */
+export interface DepositMetadata {
+    title: string;
+    abstract: string;
+    community?: string;
+    authors: (InputAuthor | Author)[];
+    disciplines?: string[];
+    keywords?: string[];
+    manuscript: {
+        filename: string;
+        contentType?: string;
+    };
+    files?: DepositFile[];
+    pdf?: DepositFile;
+    doi?: string;
+    sourceId?: string;
 }
 
 /**
@@ -65,12 +159,23 @@ export interface Deposit {
  * This interface defines the basic required information needed to create or manage a deposit,
  * typically involving scholarly or research content within a community-managed platform.
  *
+ * @property {string} _id - The unique identifier of the deposit in Orvium.
  * @property {string} title - The title of the deposit; describes the main subject or focus of the content.
  * @property {string} community - The name or identifier of the community within which the deposit is categorized or managed.
  * @property {string} abstract - A brief summary of the deposit content, providing a clear overview of its purpose and scope.
  * @property {Author[]} authors - An array of Author objects who are credited with the creation or contribution to the deposit content.
+ * @property {FileMetadata} publicationFile - Metadata of the main manuscript file stored for the deposit.
+ * @property {FileMetadata[]} [files] - Metadata of the supplementary files attached to the deposit.
+ * @property {FileMetadata} [pdfFile] - Metadata of the PDF rendering of the manuscript, if any.
+ * @property {string} [doi] - The DOI registered for the deposit, if any.
+ * @property {string} [publicationDate] - The date the deposit was published (ISO 8601), if it has been published.
+ * @property {string} [createdOn] - The date the deposit was created (ISO 8601).
+ * @property {string} [status] - The status of the deposit in its workflow (e.g. `draft`, `preprint`, `published`).
+ * @property {string} [sourceId] - The identifier of the deposit in the system it was imported from, if any.
+ * @property {number} [version] - The version of the deposit, starting at 1; each new version is a separate deposit.
  */
 export interface DepositPopulated {
+    _id: string;
     title: string;
     communityPopulated: {
         name: string;
@@ -79,10 +184,15 @@ export interface DepositPopulated {
     authors: Author[];
     disciplines: string[];
     keywords: string[];
-    publicationFile: {
-        filename: string;
-        description: string;
-    }
+    publicationFile: FileMetadata;
+    files?: FileMetadata[];
+    pdfFile?: FileMetadata;
+    doi?: string;
+    publicationDate?: string;
+    createdOn?: string;
+    status?: string;
+    sourceId?: string;
+    version?: number;
 }
 
 /**
@@ -114,12 +224,42 @@ export interface ManuscriptMetadata {
  * @property {FileMetadata} fileMetadata - Detailed metadata about the file that is being uploaded, including its name, type, size, etc.
  * @property {boolean} isMainFile - A flag indicating whether the file should be treated as the main file in its context, affecting how it is processed and stored.
  * @property {boolean} replacePDF - A flag indicating whether any existing PDF associated with the deposit should be replaced with this file.
+ * @property {MultipartUpload} [multipart] - Signed URLs of the parts of a large file, when an upload in parts was requested and the platform supports it.
  */
 export interface UploadSignedUrlResponse {
     signedUrl: string;
     fileMetadata: FileMetadata;
     isMainFile: boolean;
     replacePDF: boolean;
+    multipart?: MultipartUpload;
+}
+
+/**
+ * A storage upload in parts (an S3 multipart upload) started by the platform for a large file. Every part is
+ * sent to its own signed URL, so a dropped connection only repeats the part in flight, and the parts are
+ * assembled into the file by a request to `completeUrl`.
+ *
+ * @property {string} uploadId - The identifier of the upload in the storage service.
+ * @property {number} partSize - The size in bytes of every part but the last one.
+ * @property {Object[]} parts - The signed URL of each part, by part number starting at 1.
+ * @property {string} completeUrl - The signed URL that assembles the uploaded parts.
+ */
+export interface MultipartUpload {
+    uploadId: string;
+    partSize: number;
+    parts: { partNumber: number; signedUrl: string }[];
+    completeUrl: string;
+}
+
+/**
+ * A part of a multipart upload stored by the storage service.
+ *
+ * @property {number} partNumber - The number of the part, starting at 1.
+ * @property {string} etag - The ETag returned by the storage service for the part, needed to assemble the file.
+ */
+export interface UploadedPart {
+    partNumber: number;
+    etag: string;
 }
  
 /**
@@ -141,3 +281,487 @@ export interface FileMetadata {
     contentLength: number;
     tags: string[];
 }
+
+/**
+ * What importing a deposit did: create a new deposit, or skip, update or replace the deposit with the same
+ * DOI or source identifier that already existed in the community.
+ */
+export type ImportAction = 'created' | 'skipped' | 'updated' | 'replaced';
+
+/**
+ * Outcome of importing a single deposit folder as part of a batch import.
+ *
+ * @property {'succeeded' | 'failed'} status - Whether the folder was fully imported (deposit created and manuscript confirmed).
+ * @property {string} [depositId] - The identifier of the deposit in Orvium, present when the import succeeded, or when it failed after the deposit was created.
+ * @property {ImportAction} [action] - What the import did: create a deposit, or skip, update or replace the one that already existed.
+ * @property {string} [error] - The error message of the last failed attempt, present when the import failed.
+ * @property {ApiStep} [step] - The step the last failed attempt stopped at, present when the import failed.
+ * @property {string} updatedAt - ISO timestamp of the last attempt for this folder.
+ */
+export interface ImportManifestEntry {
+    status: 'succeeded' | 'failed';
+    depositId?: string;
+    action?: ImportAction;
+    error?: string;
+    step?: ApiStep;
+    updatedAt: string;
+}
+
+/**
+ * Result of a deposit folder imported by the watch mode, written next to the folder once it is moved to
+ * `processed/` or `failed/` as `<folder>.import-result.json`.
+ *
+ * @property {string} folder - The name of the folder in the watched folder.
+ * @property {string} path - Where the folder was moved to.
+ * @property {string} startedAt - ISO timestamp of the start of the import.
+ */
+export interface WatchImportResult extends ImportManifestEntry {
+    folder: string;
+    path: string;
+    startedAt: string;
+}
+
+/**
+ * Progress of the import of a deposit that was created but whose files were not all uploaded yet. It is saved
+ * after every step, so an import that failed can resume from the failed step instead of creating the deposit again.
+ *
+ * @property {string} source - The deposit folder or archive being imported.
+ * @property {string} apiUrl - The API URL of the Orvium instance the deposit was created in.
+ * @property {string} community - The community the deposit was created in.
+ * @property {string} depositId - The identifier of the deposit created in Orvium.
+ * @property {ApiStep} step - The step in progress, or the step that failed.
+ * @property {string[]} completed - Names of the files whose upload was confirmed.
+ * @property {object} [stored] - The file uploaded to storage but not confirmed yet, with the response of its signed URL request.
+ * @property {object} [multipart] - The file being uploaded in parts, with the response of its signed URL request and the parts already stored.
+ * @property {string} [error] - The error message of the failed step, if the import failed.
+ * @property {string} updatedAt - ISO timestamp of the last change.
+ */
+export interface ImportCheckpoint {
+    source: string;
+    apiUrl: string;
+    community: string;
+    depositId: string;
+    step: ApiStep;
+    completed: string[];
+    stored?: {
+        filename: string;
+        upload: UploadSignedUrlResponse;
+    };
+    multipart?: {
+        filename: string;
+        upload: UploadSignedUrlResponse;
+        parts: UploadedPart[];
+    };
+    error?: string;
+    updatedAt: string;
+}
+
+/**
+ * Run manifest written by the batch importer. It maps every deposit folder (relative to the scanned
+ * root directory) to the result of its import, so an interrupted or partially failed run can be resumed.
+ *
+ * @property {string} community - The Orvium community the deposits were imported into.
+ * @property {string} createdAt - ISO timestamp of the first run that used this manifest.
+ * @property {string} updatedAt - ISO timestamp of the last time the manifest was written.
+ * @property {Record<string, ImportManifestEntry>} deposits - Import result keyed by deposit folder.
+ */
+export interface ImportManifest {
+    community: string;
+    createdAt: string;
+    updatedAt: string;
+    deposits: Record<string, ImportManifestEntry>;
+}
+
+/**
+ * Outcome of exporting a single deposit as part of a community export.
+ *
+ * @property {'succeeded' | 'failed'} status - Whether the deposit zip was fully written.
+ * @property {string} [archive] - The name of the deposit zip in the download directory, present when the export succeeded.
+ * @property {string} [title] - The title of the deposit.
+ * @property {string} [error] - The error message of the last failed attempt, present when the export failed.
+ * @property {string} updatedAt - ISO timestamp of the last attempt for this deposit.
+ */
+export interface ExportManifestEntry {
+    status: 'succeeded' | 'failed';
+    archive?: string;
+    title?: string;
+    error?: string;
+    updatedAt: string;
+}
+
+/**
+ * Run manifest written by the community exporter. It maps every deposit id to the result of its export,
+ * so an interrupted run can be resumed without downloading the completed deposits again.
+ *
+ * @property {string} community - The Orvium community the deposits were exported from.
+ * @property {string} createdAt - ISO timestamp of the first run that used this manifest.
+ * @property {string} updatedAt - ISO timestamp of the last time the manifest was written.
+ * @property {Record<string, ExportManifestEntry>} deposits - Export result keyed by deposit id.
+ */
+export interface ExportManifest {
+    community: string;
+    createdAt: string;
+    updatedAt: string;
+    deposits: Record<string, ExportManifestEntry>;
+}
+
+/**
+ * Describes one page of deposits returned by the Orvium API when listing the deposits of a community.
+ *
+ * @property {DepositPopulated[]} deposits - The deposits included in the requested page.
+ * @property {number} count - The total number of deposits matching the query, across all pages.
+ */
+export interface DepositListResponse {
+    deposits: DepositPopulated[];
+    count: number;
+}
+
+/**
+ * The public profile of a peer reviewer.
+ *
+ * @property {string} [firstName] - The first name of the reviewer.
+ * @property {string} [lastName] - The last name of the reviewer.
+ * @property {string} [nickname] - The nickname of the reviewer in Orvium.
+ * @property {string} [orcid] - The ORCID iD of the reviewer.
+ */
+export interface ReviewerProfile {
+    firstName?: string;
+    lastName?: string;
+    nickname?: string;
+    orcid?: string;
+}
+
+/**
+ * A peer review of a deposit, as returned by `GET /reviews?depositId={id}`.
+ *
+ * @property {string} _id - The identifier of the review.
+ * @property {string} deposit - The identifier of the reviewed deposit.
+ * @property {string} status - The status of the review, e.g. `published`.
+ * @property {string} [kind] - The kind of review, e.g. `peer review`.
+ * @property {string} [decision] - The decision of the reviewer, e.g. `accepted` or `minor revision`.
+ * @property {string} [comments] - The text of the review.
+ * @property {boolean} [showIdentityToAuthor] - Whether the reviewer is shown to the authors.
+ * @property {boolean} [showIdentityToEveryone] - Whether the reviewer is shown publicly.
+ * @property {ReviewerProfile} [ownerProfile] - The profile of the reviewer.
+ * @property {string} [creationDate] - ISO timestamp of the creation of the review.
+ * @property {string} [publicationDate] - ISO timestamp of the publication of the review.
+ * @property {string} [doi] - The DOI of the review, if it has one.
+ * @property {FileMetadata} [file] - The review report uploaded by the reviewer.
+ * @property {FileMetadata[]} [extraFiles] - Other files attached to the review.
+ */
+export interface ReviewPopulated {
+    _id: string;
+    deposit: string;
+    status: string;
+    kind?: string;
+    decision?: string;
+    comments?: string;
+    showIdentityToAuthor?: boolean;
+    showIdentityToEveryone?: boolean;
+    ownerProfile?: ReviewerProfile;
+    creationDate?: string;
+    publicationDate?: string;
+    doi?: string;
+    file?: FileMetadata;
+    extraFiles?: FileMetadata[];
+}
+
+/**
+ * A file of a review in an exported deposit.
+ *
+ * @property {string} filename - The name of the file in Orvium.
+ * @property {string} path - The name of the file inside the archive, e.g. `reviews/<id>/report.pdf`.
+ * @property {string} contentType - The MIME type of the file.
+ * @property {number} size - The size of the file in bytes.
+ * @property {boolean} [report] - Whether the file is the review report, rather than an extra file.
+ */
+export interface ExportedReviewFile {
+    filename: string;
+    path: string;
+    contentType: string;
+    size: number;
+    report?: boolean;
+}
+
+/**
+ * The metadata of a peer review in an exported deposit, written as `reviews/<id>/review.json`. The reviewer
+ * is only included when their identity is public.
+ *
+ * @property {string} id - The identifier of the review in Orvium.
+ * @property {string} status - The status of the review, e.g. `published`.
+ * @property {string} [kind] - The kind of review.
+ * @property {string} [decision] - The decision of the reviewer.
+ * @property {ReviewerProfile} [reviewer] - The reviewer, when shown publicly.
+ * @property {string} [creationDate] - ISO timestamp of the creation of the review.
+ * @property {string} [publicationDate] - ISO timestamp of the publication of the review.
+ * @property {string} [doi] - The DOI of the review.
+ * @property {string} [comments] - The text of the review.
+ * @property {ExportedReviewFile[]} files - The files of the review, stored next to `review.json`.
+ */
+export interface ExportedReview {
+    id: string;
+    status: string;
+    kind?: string;
+    decision?: string;
+    reviewer?: ReviewerProfile;
+    creationDate?: string;
+    publicationDate?: string;
+    doi?: string;
+    comments?: string;
+    files: ExportedReviewFile[];
+}
+
+/**
+ * Outcome of migrating a single deposit from one Orvium instance to another.
+ *
+ * @property {string} sourceId - The identifier of the deposit in the source instance.
+ * @property {'succeeded' | 'failed'} status - Whether the deposit and all its files were fully created in the target instance.
+ * @property {string} [targetId] - The identifier of the deposit created in the target instance, present when the migration succeeded
+ *   or when the deposit was created but some of its files could not be copied.
+ * @property {string} [error] - The error message, present when the migration failed.
+ * @property {FailedFileCopy[]} [failedFiles] - The files that could not be copied, the manuscript included, if any.
+ */
+export interface MigrationResult {
+    sourceId: string;
+    status: 'succeeded' | 'failed';
+    targetId?: string;
+    error?: string;
+    failedFiles?: FailedFileCopy[];
+}
+
+/**
+ * A metadata field whose value differs between a deposit in Orvium and its local metadata.
+ *
+ * @property {string} field - The field, e.g. `title` or `authors`.
+ * @property {unknown} remote - The value in Orvium.
+ * @property {unknown} local - The value in the local metadata, which replaces the remote one.
+ */
+export interface FieldChange {
+    field: string;
+    remote: unknown;
+    local: unknown;
+}
+
+/**
+ * The main file of a local deposit folder, when its content differs from the main file of the deposit in Orvium.
+ *
+ * @property {string} filename - The name of the local file.
+ * @property {number} size - The size of the local file in bytes.
+ * @property {string} sha256 - The SHA-256 digest of the local file.
+ * @property {string} [remoteFilename] - The name of the main file in Orvium, absent if the deposit has none.
+ * @property {number} [remoteSize] - The size of the main file in Orvium in bytes.
+ * @property {string} [remoteSha256] - The SHA-256 digest of the main file in Orvium, absent when the sizes already differ.
+ */
+export interface MainFileChange {
+    filename: string;
+    size: number;
+    sha256: string;
+    remoteFilename?: string;
+    remoteSize?: number;
+    remoteSha256?: string;
+}
+
+/**
+ * Differences between a deposit in Orvium and a local deposit folder.
+ *
+ * @property {string} depositId - The identifier of the deposit in Orvium.
+ * @property {string} source - The local deposit folder or archive.
+ * @property {FieldChange[]} changes - The metadata fields that differ.
+ * @property {MainFileChange} [mainFile] - The local main file, when its content differs from the one in Orvium.
+ */
+export interface DepositDiff {
+    depositId: string;
+    source: string;
+    changes: FieldChange[];
+    mainFile?: MainFileChange;
+}
+
+/**
+ * Outcome of synchronising a deposit with its local metadata.
+ *
+ * @property {boolean} applied - Whether the differences were pushed: false when there were none or they were not confirmed.
+ */
+export interface SyncResult extends DepositDiff {
+    applied: boolean;
+}
+
+/**
+ * A workflow operation on an existing deposit: submit a draft to its community, publish it, or create a new
+ * draft version of it.
+ */
+export type LifecycleAction = 'submit' | 'publish' | 'new-version';
+
+/**
+ * Outcome of a workflow operation on a single deposit.
+ *
+ * @property {string} depositId - The identifier of the deposit.
+ * @property {LifecycleAction} action - The operation.
+ * @property {'succeeded' | 'skipped' | 'failed'} status - Whether the operation succeeded, was not needed because the deposit was already in the target state, or failed.
+ * @property {string} [depositStatus] - The status of the deposit after the operation, or its current status when skipped.
+ * @property {string} [versionId] - The identifier of the new version, for `new-version`, or of the newer version that was already there when skipped.
+ * @property {string} [error] - The error message, present when the operation failed.
+ * @property {ApiStep} [step] - The step that failed, present when the operation failed.
+ */
+export interface LifecycleResult {
+    depositId: string;
+    action: LifecycleAction;
+    status: 'succeeded' | 'skipped' | 'failed';
+    depositStatus?: string;
+    versionId?: string;
+    error?: string;
+    step?: ApiStep;
+}
+
+/**
+ * The workflow status of a deposit, as listed by the `status` command.
+ *
+ * @property {string} depositId - The identifier of the deposit.
+ * @property {string} [title] - The title of the deposit.
+ * @property {string} [community] - The community of the deposit.
+ * @property {string} [status] - The status of the deposit, e.g. `draft`, `pending_approval` or `published`.
+ * @property {number} [version] - The version of the deposit.
+ * @property {string} [error] - The error message, present when the deposit could not be retrieved.
+ */
+export interface DepositStatusEntry {
+    depositId: string;
+    title?: string;
+    community?: string;
+    status?: string;
+    version?: number;
+    error?: string;
+}
+
+/**
+ * A deposit in the contributions summary of a user.
+ *
+ * @property {string} title - The title of the deposit.
+ * @property {string} [abstract] - The abstract of the deposit.
+ * @property {string} [publicationType] - The publication type, e.g. `Research article`.
+ * @property {string} [accessRight] - The access right, e.g. `open`.
+ * @property {string} [submissionDate] - The date the deposit was submitted.
+ * @property {string} status - The status of the deposit, e.g. `published`.
+ * @property {string} [reviewType] - The review type of the deposit, e.g. `open`.
+ * @property {Author[]} [authors] - The authors of the deposit.
+ * @property {string[]} [keywords] - The keywords of the deposit.
+ * @property {string} [doi] - The DOI of the deposit, as a URL.
+ * @property {string} [url] - The page of the deposit on the platform.
+ */
+export interface DepositSummary {
+    title: string;
+    abstract?: string;
+    publicationType?: string;
+    accessRight?: string;
+    submissionDate?: string;
+    status: string;
+    reviewType?: string;
+    authors?: Author[];
+    keywords?: string[];
+    doi?: string;
+    url?: string;
+}
+
+/**
+ * A peer review in the contributions summary of a user.
+ *
+ * @property {string} _id - The identifier of the review.
+ * @property {string} [creator] - The identifier of the user who wrote the review.
+ * @property {string} status - The status of the review, e.g. `published`.
+ * @property {string} [kind] - The kind of review, e.g. `peer review`.
+ * @property {string} [decision] - The decision of the reviewer, e.g. `accepted`.
+ * @property {boolean} [showIdentityToAuthor] - Whether the reviewer is shown to the authors.
+ * @property {boolean} [showIdentityToEveryone] - Whether the reviewer is shown publicly.
+ */
+export interface PeerReviewSummary {
+    _id: string;
+    creator?: string;
+    status: string;
+    kind?: string;
+    decision?: string;
+    showIdentityToAuthor?: boolean;
+    showIdentityToEveryone?: boolean;
+}
+
+/**
+ * A community in the contributions summary of a user.
+ *
+ * @property {string} name - The name of the community.
+ * @property {string} [description] - The description of the community.
+ * @property {string} [country] - The country of the community.
+ * @property {string} [type] - The type of community, e.g. `community` or `conference`.
+ * @property {string} [subscription] - The subscription plan of the community.
+ * @property {string} [membershipType] - How users join the community, e.g. `open`.
+ * @property {string} [logoURL] - The URL of the logo of the community.
+ */
+export interface CommunitySummary {
+    name: string;
+    description?: string;
+    country?: string;
+    type?: string;
+    subscription?: string;
+    membershipType?: string;
+    logoURL?: string;
+}
+
+/**
+ * The contributions summary of a user, as returned by `GET /users/profile/{orcid}/summary`.
+ *
+ * @property {string} [nickname] - The nickname of the user.
+ * @property {string} [orcid] - The ORCID iD of the user, as a URL.
+ * @property {boolean} [isOpensciVerified] - Whether the identity of the user has been verified.
+ * @property {DepositSummary[]} depositsSummaryPopulated - The deposits the user is an author of.
+ * @property {PeerReviewSummary[]} peerReviewsSummaryPopulated - The peer reviews written by the user.
+ * @property {CommunitySummary[]} communitiesSummaryPopulated - The communities the user belongs to.
+ */
+export interface UserSummary {
+    nickname?: string;
+    orcid?: string;
+    isOpensciVerified?: boolean;
+    depositsSummaryPopulated: DepositSummary[];
+    peerReviewsSummaryPopulated: PeerReviewSummary[];
+    communitiesSummaryPopulated: CommunitySummary[];
+}
+
+/**
+ * The number of contributions of a user, or of everyone in a report.
+ *
+ * @property {number} deposits - The number of deposits.
+ * @property {number} publishedDeposits - The number of those deposits that are published.
+ * @property {number} reviews - The number of peer reviews.
+ * @property {number} communities - The number of communities.
+ */
+export interface ContributionCounts {
+    deposits: number;
+    publishedDeposits: number;
+    reviews: number;
+    communities: number;
+}
+
+/**
+ * The contributions of one person of a multi-ORCID report.
+ *
+ * @property {string} orcid - The ORCID iD of the person, as `0000-0002-1825-0097`.
+ * @property {string} [nickname] - The nickname of the user, present when the summary was retrieved.
+ * @property {ContributionCounts} counts - The contributions of the person; all zero when the summary could not be retrieved.
+ * @property {UserSummary} [summary] - The summary of the person, present when it was retrieved.
+ * @property {string} [error] - The error message, present when the summary could not be retrieved.
+ */
+export interface UserSummaryReportEntry {
+    orcid: string;
+    nickname?: string;
+    counts: ContributionCounts;
+    summary?: UserSummary;
+    error?: string;
+}
+
+/**
+ * The aggregated contributions of a group of people, e.g. everyone in a department.
+ *
+ * @property {string} generatedAt - ISO timestamp of the report.
+ * @property {UserSummaryReportEntry[]} people - The contributions of every person, in the order of the ORCID list.
+ * @property {ContributionCounts} totals - The sum of the contributions of everyone whose summary was retrieved.
+ */
+export interface UserSummaryReport {
+    generatedAt: string;
+    people: UserSummaryReportEntry[];
+    totals: ContributionCounts;
+}
@@ -0,0 +1,160 @@
+#!/usr/bin/env node
+
+/**
+ * CLI for moving deposits through their workflow and listing their status, one at a time or in batch.
+ *
+ * Usage:
+ *   $ orvium-tools submit [--ids <file>] [--concurrency <n>] [depositId...]
+ *   $ orvium-tools publish [--ids <file>] [--concurrency <n>] [depositId...]
+ *   $ orvium-tools new-version [--ids <file>] [--concurrency <n>] [depositId...]
+ *   $ orvium-tools status [--ids <file>] [--format <format>] [depositId...]
+ *   $ orvium-tools status --community <name> [--status <status>] [--format <format>]
+ *   # or through the alias:
+ *   $ orvium-tools-lifecycle <submit|publish|new-version|status> ...
+ *
+ * Arguments:
+ *   <depositId>  Deposits to process, in addition to those of --ids
+ *
+ * Options:
+ *   --ids <file>          File of deposit ids, one or more per line (- reads stdin)
+ *   --concurrency <n>     Number of deposits processed in parallel (default 4)
+ *   --community <name>    status: list every deposit of the community instead
+ *   --status <status>     status: with --community, only deposits with this status
+ *   --format <format>     status: table (default), json, csv or markdown
+ *   (and the global options of cli.ts; --json prints the result of every deposit as JSON)
+ *
+ * Example:
+ *   $ orvium-tools submit --ids imported.txt
+ *   $ orvium-tools status --community "Ethics Community" --status pending_approval
+ *
+ * Behavior:
+ *   - submit, publish and new-version call `runLifecycleAction(action, ids, connection, options)`. Deposits
+ *     already in the target state are skipped, and so are deposits that already have a newer version for
+ *     new-version; the command exits with 1 if any deposit failed.
+ *   - status calls `getDepositStatuses(ids, connection)` or `getCommunityDepositStatuses(community, connection)`.
+ */
+
+import { CliCommand, CommandArgs, EXIT_CODES, UsageError, runCli } from "./cli";
+import { LifecycleAction } from "./deposit-interfaces";
+import {
+  formatDepositStatuses,
+  getCommunityDepositStatuses,
+  getDepositStatuses,
+  readDepositIdList,
+  runLifecycleAction,
+} from "./deposit-lifecycle";
+import { SUMMARY_FORMATS, isSummaryFormat } from "./summary-formats";
+
+const ID_OPTIONS = {
+  ids: { type: "string" as const, value: "<file>", description: "File of deposit ids, one or more per line (- reads stdin)" },
+  concurrency: { type: "string" as const, value: "<n>", description: "Number of deposits processed in parallel (default 4)" },
+};
+
+// The ids given as arguments and in the --ids file, each once
+function depositIds({ values, positionals }: CommandArgs): string[] {
+  const listed = values.ids !== undefined ? readDepositIdList(values.ids as string) : [];
+  const ids = [...new Set([...positionals, ...listed])];
+  if (ids.length === 0) {
+    throw new UsageError("Missing <depositId> or --ids <file>");
+  }
+  return ids;
+}
+
+function concurrencyOf(values: CommandArgs["values"]): number | undefined {
+  if (values.concurrency === undefined) {
+    return undefined;
+  }
+  const concurrency = Number(values.concurrency);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new UsageError("Invalid --concurrency. Expected a positive whole number");
+  }
+  return concurrency;
+}
+
+const DONE: Record<LifecycleAction, string> = {
+  submit: "submitted",
+  publish: "published",
+  "new-version": "new version created",
+};
+
+function lifecycleCommand(action: LifecycleAction, summary: string): CliCommand {
+  return {
+    name: action,
+    summary,
+    usage: ["[--ids <file>] [--concurrency <n>] [depositId...]"],
+    arguments: [["[depositId...]", "Deposits to process, in addition to those of --ids"]],
+    options: ID_OPTIONS,
+
+    async run(args, context) {
+      const ids = depositIds(args);
+      const results = await runLifecycleAction(action, ids, context.connection(), {
+        concurrency: concurrencyOf(args.values),
+      });
+
+      const lines = results.map((result) => {
+        switch (result.status) {
+          case "succeeded":
+            return `${result.depositId}: ${DONE[action]}${result.versionId ? ` ${result.versionId}` : ""} (${result.depositStatus ?? "unknown status"})`;
+          case "skipped":
+            return result.versionId
+              ? `${result.depositId}: skipped, already has version ${result.versionId} (${result.depositStatus ?? "unknown status"})`
+              : `${result.depositId}: skipped, already ${result.depositStatus}`;
+          case "failed":
+            return `${result.depositId}: failed, ${result.error}`;
+        }
+      });
+      const failed = results.filter((result) => result.status === "failed").length;
+      lines.push(`${results.length - failed} of ${results.length} deposit(s) done, ${failed} failed`);
+      context.output(results, lines.join("\n"));
+      return failed > 0 ? EXIT_CODES.failure : EXIT_CODES.success;
+    },
+  };
+}
+
+export const submitCommand = lifecycleCommand("submit", "Submit draft deposits to their community");
+export const publishCommand = lifecycleCommand("publish", "Publish deposits accepted by their community (moderators only)");
+export const newVersionCommand = lifecycleCommand("new-version", "Create a new draft version of published deposits");
+
+export const statusCommand: CliCommand = {
+  name: "status",
+  summary: "List deposits with their current workflow status",
+  usage: [
+    "[--ids <file>] [--format <format>] [depositId...]",
+    "--community <name> [--status <status>] [--format <format>]",
+  ],
+  arguments: [["[depositId...]", "Deposits to list, in addition to those of --ids"]],
+  options: {
+    ids: ID_OPTIONS.ids,
+    community: { type: "string", value: "<name>", description: "List every deposit of the community instead" },
+    status: { type: "string", value: "<status>", description: "With --community, only deposits with this status (e.g. draft)" },
+    format: {
+      type: "string",
+      value: "<format>",
+      description: `How the list is printed: table (default), ${SUMMARY_FORMATS.filter((format) => format !== "table").join(", ")}`,
+    },
+  },
+
+  async run(args, context) {
+    const { values } = args;
+    const format = (values.format as string | undefined) ?? "table";
+    if (!isSummaryFormat(format)) {
+      throw new UsageError(`Invalid --format. Expected one of: ${SUMMARY_FORMATS.join(", ")}`);
+    }
+    const community = values.community as string | undefined;
+    if (values.status !== undefined && !community) {
+      throw new UsageError("--status needs --community");
+    }
+
+    const entries = community
+      ? await getCommunityDepositStatuses(community, context.connection(), { status: values.status as string | undefined })
+      : await getDepositStatuses(depositIds(args), context.connection());
+    context.output(entries, formatDepositStatuses(entries, format));
+    return entries.some((entry) => entry.error !== undefined) ? EXIT_CODES.failure : EXIT_CODES.success;
+  },
+};
+
+export const lifecycleCommands = [submitCommand, publishCommand, newVersionCommand, statusCommand];
+
+if (require.main === module) {
+  runCli(lifecycleCommands, process.argv.slice(2), "orvium-tools-lifecycle").then((code) => process.exit(code));
+}
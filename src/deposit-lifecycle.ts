@@ -0,0 +1,317 @@
+/**
+ * Workflow operations on deposits that already exist, one at a time or in batch.
+ *
+ * - `submit` sends a draft to its community (`PATCH /deposits/{id}/submit`), where it waits for approval.
+ * - `publish` publishes a deposit accepted by its community (`PATCH /deposits/{id}/publish`). The API keys must
+ *   belong to a moderator of the community.
+ * - `new-version` creates a new draft version of a published deposit (`POST /deposits/{id}/createRevision`),
+ *   which is then updated and submitted like any draft.
+ * - Deposits already in the target state are skipped, so a batch can be run again after some deposits failed.
+ *   For `new-version`, a deposit is skipped when its community already has a newer version of it, recognised by
+ *   the same DOI or `sourceId`. A deposit without either identifier gets another new version on every run.
+ * - The statuses of deposits are listed for a list of ids, or for every deposit of a community.
+ */
+import * as fs from "fs";
+import { ApiConnection, connectionFromEnv } from "./api-connection";
+import {
+  DepositPopulated,
+  DepositStatusEntry,
+  LifecycleAction,
+  LifecycleResult,
+} from "./deposit-interfaces";
+import { getDepositById } from "./export-deposit";
+import { isSameDeposit, normalizeDoi } from "./existing-deposits";
+import { DepositFilters, listCommunityDeposits } from "./list-deposits";
+import { loggerOf } from "./logger";
+import { SummaryFormat, renderRows } from "./summary-formats";
+import { request } from "./transport";
+
+/**
+ * Every workflow operation.
+ */
+export const LIFECYCLE_ACTIONS: LifecycleAction[] = ["submit", "publish", "new-version"];
+
+const DEFAULT_CONCURRENCY = 4;
+
+// Statuses of deposits that were already submitted: submitting them again is skipped
+const SUBMITTED_STATUSES = ["pending_approval", "preprint", "in_review", "published"];
+
+/**
+ * Options accepted by `runLifecycleAction` and `getDepositStatuses`.
+ *
+ * @property {number} [concurrency] - Maximum number of deposits processed at the same time (defaults to 4).
+ * @property {Function} [onResult] - Called with the result of every deposit, as soon as it is known.
+ */
+export interface LifecycleOptions {
+  concurrency?: number;
+  onResult?: (result: LifecycleResult) => void;
+}
+
+/**
+ * Checks that a string names a workflow operation.
+ *
+ * @param {string} value - The value to check, e.g. a command line argument.
+ * @returns {boolean} True if the value is one of `LIFECYCLE_ACTIONS`.
+ */
+export function isLifecycleAction(value: string): value is LifecycleAction {
+  return (LIFECYCLE_ACTIONS as string[]).includes(value);
+}
+
+/**
+ * Submits a draft deposit to its community.
+ *
+ * @param {ApiConnection} connection - The Orvium instance that holds the deposit.
+ * @param {string} depositId - The unique identifier of the deposit.
+ * @returns {Promise<DepositPopulated>} A promise that resolves with the submitted deposit.
+ * @throws {OrviumError} Throws a typed error if the deposit cannot be submitted, e.g. because it is not a draft.
+ */
+export async function submitDeposit(connection: ApiConnection, depositId: string): Promise<DepositPopulated> {
+  const response = await request<DepositPopulated>(
+    connection,
+    { step: "submitDeposit", depositId },
+    { method: "PATCH", url: `${connection.apiUrl}/deposits/${depositId}/submit` }
+  );
+  return response.data;
+}
+
+/**
+ * Publishes a deposit accepted by its community. The API keys must belong to a moderator of the community.
+ *
+ * @param {ApiConnection} connection - The Orvium instance that holds the deposit.
+ * @param {string} depositId - The unique identifier of the deposit.
+ * @returns {Promise<DepositPopulated>} A promise that resolves with the published deposit.
+ * @throws {OrviumError} Throws a typed error if the deposit cannot be published.
+ */
+export async function publishDeposit(connection: ApiConnection, depositId: string): Promise<DepositPopulated> {
+  const response = await request<DepositPopulated>(
+    connection,
+    { step: "publishDeposit", depositId },
+    { method: "PATCH", url: `${connection.apiUrl}/deposits/${depositId}/publish` }
+  );
+  return response.data;
+}
+
+/**
+ * Creates a new draft version of a published deposit, with its metadata and files.
+ *
+ * @param {ApiConnection} connection - The Orvium instance that holds the deposit.
+ * @param {string} depositId - The unique identifier of the deposit.
+ * @returns {Promise<DepositPopulated>} A promise that resolves with the new version, a separate deposit with its own id.
+ * @throws {OrviumError} Throws a typed error if the version cannot be created, e.g. because the deposit is not published.
+ */
+export async function createDepositVersion(connection: ApiConnection, depositId: string): Promise<DepositPopulated> {
+  const response = await request<DepositPopulated>(
+    connection,
+    { step: "createVersion", depositId },
+    { method: "POST", url: `${connection.apiUrl}/deposits/${depositId}/createRevision` }
+  );
+  return response.data;
+}
+
+// Whether a deposit is already where the operation would take it
+function alreadyDone(action: "submit" | "publish", status: string | undefined): boolean {
+  return action === "submit" ? status !== undefined && SUBMITTED_STATUSES.includes(status) : status === "published";
+}
+
+// The deposits of every community, listed once per batch
+type CommunityDeposits = Map<string, Promise<DepositPopulated[]>>;
+
+// A newer version of a deposit in its community, e.g. created by an earlier run: same DOI or sourceId, higher version
+async function newerVersion(
+  connection: ApiConnection,
+  deposit: DepositPopulated,
+  communities: CommunityDeposits
+): Promise<DepositPopulated | undefined> {
+  if (!normalizeDoi(deposit.doi) && deposit.sourceId === undefined) {
+    return undefined;
+  }
+  const community = deposit.communityPopulated.name;
+  if (!communities.has(community)) {
+    communities.set(community, listCommunityDeposits(connection, community));
+  }
+  const deposits = await communities.get(community)!;
+  return deposits.find(
+    (candidate) =>
+      candidate._id !== deposit._id &&
+      (candidate.version ?? 1) > (deposit.version ?? 1) &&
+      isSameDeposit(deposit, candidate)
+  );
+}
+
+async function applyAction(
+  connection: ApiConnection,
+  action: LifecycleAction,
+  depositId: string,
+  communities: CommunityDeposits
+): Promise<LifecycleResult> {
+  try {
+    const current = await getDepositById(connection, depositId);
+    if (action === "new-version") {
+      const version = await newerVersion(connection, current, communities);
+      if (version) {
+        return { depositId, action, status: "skipped", depositStatus: version.status, versionId: version._id };
+      }
+    } else if (alreadyDone(action, current.status)) {
+      return { depositId, action, status: "skipped", depositStatus: current.status };
+    }
+    switch (action) {
+      case "submit": {
+        const deposit = await submitDeposit(connection, depositId);
+        return { depositId, action, status: "succeeded", depositStatus: deposit.status };
+      }
+      case "publish": {
+        const deposit = await publishDeposit(connection, depositId);
+        return { depositId, action, status: "succeeded", depositStatus: deposit.status };
+      }
+      case "new-version": {
+        const version = await createDepositVersion(connection, depositId);
+        return { depositId, action, status: "succeeded", depositStatus: version.status, versionId: version._id };
+      }
+    }
+  } catch (error: any) {
+    loggerOf(connection).error(`Error running ${action} on deposit ${depositId}: ${error?.message ?? error}`);
+    return { depositId, action, status: "failed", error: error?.message ?? String(error), step: error?.step };
+  }
+}
+
+// Runs `task` on every item, up to `concurrency` at the same time, and resolves with the results in the order of the items
+async function mapConcurrently<T, R>(items: T[], concurrency: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error("Concurrency must be a positive integer");
+  }
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Runs a workflow operation on a list of deposits, e.g. the ids obtained by `importDeposits`. A deposit that
+ * fails does not stop the others: its result records the error and the step that failed. Deposits already in
+ * the target state are skipped; for `new-version`, deposits whose community already has a newer version with the
+ * same DOI or `sourceId`, which the result gives as `versionId`.
+ *
+ * @param {LifecycleAction} action - The operation: `submit`, `publish` or `new-version`.
+ * @param {string[]} depositIds - The deposits.
+ * @param {ApiConnection} [connection] - Orvium instance of the deposits. Defaults to the one configured in the environment.
+ * @param {LifecycleOptions} [options] - Concurrency, and a callback for every result.
+ * @returns {Promise<LifecycleResult[]>} A promise that resolves with the result of every deposit, in the order of `depositIds`.
+ */
+export async function runLifecycleAction(
+  action: LifecycleAction,
+  depositIds: string[],
+  connection: ApiConnection = connectionFromEnv(),
+  options: LifecycleOptions = {}
+): Promise<LifecycleResult[]> {
+  const communities: CommunityDeposits = new Map();
+  return mapConcurrently(depositIds, options.concurrency ?? DEFAULT_CONCURRENCY, async (depositId) => {
+    const result = await applyAction(connection, action, depositId, communities);
+    options.onResult?.(result);
+    return result;
+  });
+}
+
+function statusEntry(deposit: DepositPopulated): DepositStatusEntry {
+  return {
+    depositId: deposit._id,
+    title: deposit.title,
+    community: deposit.communityPopulated?.name,
+    status: deposit.status,
+    version: deposit.version,
+  };
+}
+
+/**
+ * Retrieves the current status of a list of deposits. A deposit that cannot be retrieved is listed with the error.
+ *
+ * @param {string[]} depositIds - The deposits.
+ * @param {ApiConnection} [connection] - Orvium instance of the deposits. Defaults to the one configured in the environment.
+ * @param {LifecycleOptions} [options] - Concurrency.
+ * @returns {Promise<DepositStatusEntry[]>} A promise that resolves with the status of every deposit, in the order of `depositIds`.
+ */
+export async function getDepositStatuses(
+  depositIds: string[],
+  connection: ApiConnection = connectionFromEnv(),
+  options: LifecycleOptions = {}
+): Promise<DepositStatusEntry[]> {
+  return mapConcurrently(depositIds, options.concurrency ?? DEFAULT_CONCURRENCY, async (depositId) => {
+    try {
+      return statusEntry(await getDepositById(connection, depositId));
+    } catch (error: any) {
+      return { depositId, error: error?.message ?? String(error) };
+    }
+  });
+}
+
+/**
+ * Retrieves the current status of every deposit of a community that matches the filters.
+ *
+ * @param {string} community - The community.
+ * @param {ApiConnection} [connection] - Orvium instance of the community. Defaults to the one configured in the environment.
+ * @param {DepositFilters} [filters] - Status, date range and author filters.
+ * @returns {Promise<DepositStatusEntry[]>} A promise that resolves with the status of every matching deposit.
+ */
+export async function getCommunityDepositStatuses(
+  community: string,
+  connection: ApiConnection = connectionFromEnv(),
+  filters: DepositFilters = {}
+): Promise<DepositStatusEntry[]> {
+  const deposits = await listCommunityDeposits(connection, community, filters);
+  return deposits.map(statusEntry);
+}
+
+/**
+ * Reads a file of deposit ids, one or more per line, separated by spaces or commas. Text after `#` is a comment,
+ * and repeated ids are read once. The path `-` reads the ids from stdin, e.g. from the output of another command.
+ *
+ * @param {string} filePath - Path of the file, or `-` for stdin.
+ * @returns {string[]} The deposit ids, in the order of the file.
+ * @throws {Error} Throws an error listing every value that is not a deposit id, with its line number.
+ */
+export function readDepositIdList(filePath: string): string[] {
+  const ids = new Set<string>();
+  const invalid: string[] = [];
+  fs.readFileSync(filePath === "-" ? 0 : filePath, "utf8")
+    .split(/\r?\n/)
+    .forEach((line, index) => {
+      for (const value of line.replace(/#.*/, "").split(/[\s,;]+/).filter((item) => item !== "")) {
+        if (/^[0-9a-f]{24}$/i.test(value)) {
+          ids.add(value.toLowerCase());
+        } else {
+          invalid.push(`line ${index + 1}: ${value}`);
+        }
+      }
+    });
+  if (invalid.length > 0) {
+    throw new Error(`Invalid deposit ids in ${filePath === "-" ? "stdin" : filePath}: ${invalid.join("; ")}`);
+  }
+  return [...ids];
+}
+
+/**
+ * Formats deposit statuses as an aligned table, CSV or Markdown, one row per deposit, or as JSON.
+ *
+ * @param {DepositStatusEntry[]} entries - The statuses.
+ * @param {SummaryFormat} format - The text format.
+ * @returns {string} The rendered statuses.
+ */
+export function formatDepositStatuses(entries: DepositStatusEntry[], format: SummaryFormat): string {
+  if (format === "json") {
+    return JSON.stringify(entries, null, 2);
+  }
+  const rows = entries.map((entry) => [
+    entry.depositId,
+    entry.status ?? "",
+    entry.version !== undefined ? String(entry.version) : "",
+    entry.community ?? "",
+    entry.title ?? "",
+    entry.error ?? "",
+  ]);
+  return renderRows(["id", "status", "version", "community", "title", "error"], rows, format);
+}
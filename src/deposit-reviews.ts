@@ -0,0 +1,123 @@
+/**
+ * Peer reviews of deposits, as included in deposit exports.
+ *
+ * - List the reviews attached to a deposit (`GET /reviews?depositId={id}`) that the API keys can see.
+ * - Download the files of a review through their signed URL, like the files of a deposit.
+ * - Describe every review as the `review.json` written under `reviews/<id>/` in the exported zip, next to its
+ *   files. The reviewer is only included when their identity is public.
+ */
+import { Readable } from "stream";
+import { ApiConnection } from "./api-connection";
+import { ExportedReview, FileMetadata, ReviewPopulated } from "./deposit-interfaces";
+import { OrviumError } from "./errors";
+import { request } from "./transport";
+
+/**
+ * Folder of the exported zip where the reviews are written, one subfolder per review.
+ */
+export const REVIEWS_FOLDER = "reviews";
+
+/**
+ * Retrieves the peer reviews attached to a deposit.
+ *
+ * @param {ApiConnection} connection - The Orvium instance that holds the deposit.
+ * @param {string} depositId - The unique identifier of the deposit.
+ * @returns {Promise<ReviewPopulated[]>} A promise that resolves with the reviews the API keys can see.
+ * @throws {OrviumError} Throws a typed error if the reviews cannot be listed.
+ */
+export async function listDepositReviews(
+  connection: ApiConnection,
+  depositId: string
+): Promise<ReviewPopulated[]> {
+  const response = await request<ReviewPopulated[]>(
+    connection,
+    { step: "listReviews", depositId },
+    { method: "GET", url: `${connection.apiUrl}/reviews`, params: { depositId } }
+  );
+  return response.data ?? [];
+}
+
+/**
+ * Opens a download stream for a file of a review, following the signed URL returned by the API.
+ *
+ * @param {ApiConnection} connection - The Orvium instance that holds the review.
+ * @param {string} depositId - The reviewed deposit, reported in errors.
+ * @param {string} reviewId - The unique identifier of the review.
+ * @param {string} filename - The name of the file in the review.
+ * @returns {Promise<Readable>} A promise that resolves with the content of the file.
+ * @throws {OrviumError} Throws a typed error if the file cannot be downloaded.
+ */
+export async function getReviewFileStream(
+  connection: ApiConnection,
+  depositId: string,
+  reviewId: string,
+  filename: string
+): Promise<Readable> {
+  const context = { step: "downloadFile" as const, depositId };
+
+  const response = await request(connection, context, {
+    method: "GET",
+    url: `${connection.apiUrl}/reviews/${reviewId}/files/${encodeURIComponent(filename)}`,
+    maxRedirects: 0,
+    validateStatus: (status) => status === 302,
+  });
+  const signedUrl = response.headers["location"];
+  if (!signedUrl) {
+    throw new OrviumError("Signed URL not found in response headers", context);
+  }
+
+  const fileResponse = await request<Readable>(
+    connection,
+    { ...context, storage: true },
+    { method: "GET", url: signedUrl, responseType: "stream" }
+  );
+  return fileResponse.data;
+}
+
+// Every file of a review: the report first, then the extra files, each once
+function reviewFiles(review: ReviewPopulated): { file: FileMetadata; report: boolean }[] {
+  const files = review.file ? [{ file: review.file, report: true }] : [];
+  for (const file of review.extraFiles ?? []) {
+    if (!files.some((entry) => entry.file.filename === file.filename)) {
+      files.push({ file, report: false });
+    }
+  }
+  return files;
+}
+
+/**
+ * Describes a review as written into an exported deposit. Its files are stored under `reviews/<id>/`.
+ *
+ * @param {ReviewPopulated} review - The review retrieved from Orvium.
+ * @returns {ExportedReview} The content of `review.json`.
+ */
+export function toExportedReview(review: ReviewPopulated): ExportedReview {
+  const folder = `${REVIEWS_FOLDER}/${review._id}`;
+  const profile = review.ownerProfile;
+  return {
+    id: review._id,
+    status: review.status,
+    kind: review.kind,
+    decision: review.decision,
+    reviewer:
+      review.showIdentityToEveryone && profile
+        ? {
+            firstName: profile.firstName,
+            lastName: profile.lastName,
+            nickname: profile.nickname,
+            orcid: profile.orcid || undefined,
+          }
+        : undefined,
+    creationDate: review.creationDate,
+    publicationDate: review.publicationDate,
+    doi: review.doi || undefined,
+    comments: review.comments || undefined,
+    files: reviewFiles(review).map(({ file, report }) => ({
+      filename: file.filename,
+      path: `${folder}/${file.filename}`,
+      contentType: file.contentType,
+      size: file.contentLength,
+      report: report || undefined,
+    })),
+  };
+}
@@ -0,0 +1,166 @@
+/**
+ * Typed errors thrown by every call to the Orvium API and to the signed storage URLs.
+ *
+ * All errors extend `OrviumError`, which records the step that failed, the deposit involved (when known),
+ * the HTTP status and the response body, so automation can react to a failure without parsing console output:
+ *
+ * - `AuthError`: the API keys were rejected (401 / 403).
+ * - `NotFoundError`: the deposit, file or user does not exist (404).
+ * - `ValidationError`: the API rejected the request payload (400 / 409 / 422), or the local `meta.json` is invalid.
+ * - `StorageUploadError`: the upload of a file to its signed storage URL failed.
+ * - `IntegrityError`: a downloaded file does not have the size reported by the API, or the files of a deposit
+ *   archive do not match the checksums of its `manifest.json`.
+ * - `IncompleteMigrationError`: a deposit was migrated, but some of its files could not be copied.
+ * - `OrviumError`: any other failure, e.g. a 5xx or network error that persisted after all retries.
+ */
+import { isAxiosError } from "axios";
+
+/**
+ * Steps of the toolkit that can fail with a typed error: local validation, and every call to the Orvium API or to the storage service.
+ */
+export type ApiStep =
+  | "validateMetadata"
+  | "verifyManifest"
+  | "importBasicDeposit"
+  | "updateDeposit"
+  | "deleteFile"
+  | "deleteDeposit"
+  | "generateUploadUrl"
+  | "uploadToStorage"
+  | "completeMultipartUpload"
+  | "confirmUpload"
+  | "getDeposit"
+  | "submitDeposit"
+  | "publishDeposit"
+  | "createVersion"
+  | "downloadFile"
+  | "listDeposits"
+  | "listReviews"
+  | "getUserSummary";
+
+/**
+ * Context attached to an error.
+ *
+ * @property {ApiStep} step - The step that failed.
+ * @property {string} [depositId] - The deposit the step was working on, if any.
+ * @property {number} [status] - The HTTP status of the failed response, if a response was received.
+ * @property {unknown} [details] - The body of the failed response, if any.
+ * @property {unknown} [cause] - The underlying error.
+ */
+export interface OrviumErrorContext {
+  step: ApiStep;
+  depositId?: string;
+  status?: number;
+  details?: unknown;
+  cause?: unknown;
+}
+
+export class OrviumError extends Error {
+  readonly step: ApiStep;
+  readonly depositId?: string;
+  readonly status?: number;
+  readonly details?: unknown;
+  readonly cause?: unknown;
+
+  constructor(message: string, context: OrviumErrorContext) {
+    const subject = context.depositId ? ` for deposit ${context.depositId}` : "";
+    super(`${context.step} failed${subject}: ${message}`);
+    this.name = new.target.name;
+    this.step = context.step;
+    this.depositId = context.depositId;
+    this.status = context.status;
+    this.details = context.details;
+    this.cause = context.cause;
+  }
+}
+
+export class AuthError extends OrviumError {}
+
+export class NotFoundError extends OrviumError {}
+
+export class ValidationError extends OrviumError {}
+
+export class StorageUploadError extends OrviumError {}
+
+export class IntegrityError extends OrviumError {}
+
+/**
+ * A file of a deposit that could not be copied to another instance.
+ *
+ * @property {string} filename - The name of the file in the source deposit.
+ * @property {string} error - The error message of the copy.
+ */
+export interface FailedFileCopy {
+  filename: string;
+  error: string;
+}
+
+export class IncompleteMigrationError extends OrviumError {
+  /** The deposit created in the target instance, which lacks the failed files. */
+  readonly targetId: string;
+  readonly failedFiles: FailedFileCopy[];
+
+  constructor(message: string, context: OrviumErrorContext, targetId: string, failedFiles: FailedFileCopy[]) {
+    super(message, context);
+    this.targetId = targetId;
+    this.failedFiles = failedFiles;
+  }
+}
+
+/**
+ * Converts any error raised while performing a step into the matching `OrviumError` subclass.
+ * Errors that already are `OrviumError`s are returned unchanged.
+ *
+ * @param {unknown} error - The error raised by axios or by the toolkit.
+ * @param {ApiStep} step - The step that was being performed.
+ * @param {string} [depositId] - The deposit the step was working on.
+ * @param {typeof OrviumError} [errorClass] - Class used for every failure of the step, regardless of the status (e.g. `StorageUploadError`).
+ * @returns {OrviumError} The typed error.
+ */
+export function toOrviumError(
+  error: unknown,
+  step: ApiStep,
+  depositId?: string,
+  errorClass?: typeof OrviumError
+): OrviumError {
+  if (error instanceof OrviumError) {
+    return error;
+  }
+
+  if (!isAxiosError(error) || !error.response) {
+    const message = error instanceof Error ? error.message : String(error);
+    return new (errorClass ?? OrviumError)(message, {
+      step,
+      depositId,
+      cause: error,
+    });
+  }
+
+  const { status, data } = error.response;
+  const serverMessage =
+    typeof data === "string" ? data : data?.message ?? error.message;
+  const context: OrviumErrorContext = {
+    step,
+    depositId,
+    status,
+    details: data,
+    cause: error,
+  };
+  const message = `${status} ${
+    Array.isArray(serverMessage) ? serverMessage.join(", ") : serverMessage
+  }`;
+
+  if (errorClass) {
+    return new errorClass(message, context);
+  }
+  if (status === 401 || status === 403) {
+    return new AuthError(message, context);
+  }
+  if (status === 404) {
+    return new NotFoundError(message, context);
+  }
+  if (status === 400 || status === 409 || status === 422) {
+    return new ValidationError(message, context);
+  }
+  return new OrviumError(message, context);
+}
@@ -0,0 +1,100 @@
+/**
+ * Detection of deposits that were already imported, so that importing a deposit again does not create a duplicate.
+ *
+ * - A deposit is identified by its DOI or, when it has none, by the `sourceId` of the system it comes from. Both are
+ *   read from the deposit metadata and sent to the platform when the deposit is created.
+ * - Before a deposit is created, the deposits of its community are searched for one with the same identifier.
+ * - What happens to a deposit that already exists is chosen with an `ExistingDepositPolicy`.
+ */
+import { ApiConnection } from "./api-connection";
+import { Deposit, DepositPopulated } from "./deposit-interfaces";
+import { listCommunityDeposits } from "./list-deposits";
+import { loggerOf } from "./logger";
+
+/**
+ * What to do when the deposit being imported already exists in the community:
+ *
+ * - `skip`: leave the existing deposit untouched.
+ * - `update`: update the metadata of the existing deposit, keeping its files.
+ * - `replace`: update the metadata and replace every file of the existing deposit.
+ */
+export type ExistingDepositPolicy = "skip" | "update" | "replace";
+
+/**
+ * Every existing deposit policy, starting with the default one.
+ */
+export const EXISTING_DEPOSIT_POLICIES: ExistingDepositPolicy[] = ["skip", "update", "replace"];
+
+/**
+ * The fields of a remote deposit needed to recognise it.
+ */
+export type DepositIdentity = Pick<DepositPopulated, "_id" | "doi" | "sourceId">;
+
+/**
+ * Checks that a string names an existing deposit policy.
+ *
+ * @param {string} value - The value to check, e.g. a command line argument.
+ * @returns {boolean} True if the value is one of `EXISTING_DEPOSIT_POLICIES`.
+ */
+export function isExistingDepositPolicy(value: string): value is ExistingDepositPolicy {
+  return (EXISTING_DEPOSIT_POLICIES as string[]).includes(value);
+}
+
+/**
+ * Normalises a DOI for comparison: resolver prefixes are removed and the DOI is lower-cased,
+ * as DOIs are case-insensitive.
+ *
+ * @param {string} [doi] - A DOI, bare (`10.1234/abc`), as a URL or with a `doi:` prefix.
+ * @returns {string | undefined} The bare lower-case DOI, or undefined if there is none.
+ */
+export function normalizeDoi(doi?: string): string | undefined {
+  const bare = doi
+    ?.trim()
+    .replace(/^https?:\/\/(?:dx\.)?doi\.org\//i, "")
+    .replace(/^doi:\s*/i, "")
+    .toLowerCase();
+  return bare ? bare : undefined;
+}
+
+/**
+ * Checks whether a remote deposit is the same deposit as one being imported: same DOI, or, when the
+ * deposit being imported has no DOI, same source identifier.
+ *
+ * @param {Deposit} deposit - The deposit being imported, or any deposit with its DOI and source identifier.
+ * @param {DepositIdentity} candidate - A deposit of the community.
+ * @returns {boolean} True if both have the same identifier.
+ */
+export function isSameDeposit(deposit: Pick<Deposit, "doi" | "sourceId">, candidate: DepositIdentity): boolean {
+  const doi = normalizeDoi(deposit.doi);
+  if (doi) {
+    return normalizeDoi(candidate.doi) === doi;
+  }
+  return deposit.sourceId !== undefined && candidate.sourceId === deposit.sourceId;
+}
+
+/**
+ * Looks for a deposit of the community that has the same DOI or source identifier as a deposit being imported.
+ * Deposits without either identifier are never matched.
+ *
+ * @param {ApiConnection} connection - The Orvium instance the deposit is imported into.
+ * @param {Deposit} deposit - The deposit being imported.
+ * @param {DepositIdentity[]} [candidates] - The deposits of the community, if already listed (e.g. once for a whole batch).
+ * @returns {Promise<DepositIdentity | undefined>} A promise that resolves with the existing deposit, or undefined.
+ */
+export async function findExistingDeposit(
+  connection: ApiConnection,
+  deposit: Deposit,
+  candidates?: DepositIdentity[]
+): Promise<DepositIdentity | undefined> {
+  if (!normalizeDoi(deposit.doi) && deposit.sourceId === undefined) {
+    return undefined;
+  }
+  const deposits = candidates ?? (await listCommunityDeposits(connection, deposit.community));
+  const matches = deposits.filter((candidate) => isSameDeposit(deposit, candidate));
+  if (matches.length > 1) {
+    loggerOf(connection).warn(
+      `${matches.length} deposits of ${deposit.community} match "${deposit.title}", using ${matches[0]._id}`
+    );
+  }
+  return matches[0];
+}
@@ -0,0 +1,217 @@
+/**
+ * Bulk export of the deposits of a community, for backups and audits.
+ *
+ * - List the deposits of a community page by page, filtered by status, date range and author ORCID.
+ * - Export every deposit as a `deposit_<id>.zip`, optionally gathered into a single archive with an index file.
+ * - Record the outcome of every deposit in a run manifest, so a later run only exports the deposits that are
+ *   missing (e.g. after an interruption, or new since the last backup).
+ */
+import * as fs from "fs";
+import * as path from "path";
+import archiver from "archiver";
+import { ApiConnection, connectionFromEnv } from "./api-connection";
+import { DepositPopulated, ExportManifest } from "./deposit-interfaces";
+import { ExportOptions, exportDeposit } from "./export-deposit";
+import { extractDepositArchive } from "./import-deposit";
+import { DepositFilters, listCommunityDeposits } from "./list-deposits";
+import { loggerOf, reportProgress } from "./logger";
+
+const DEFAULT_MANIFEST_FILENAME = "export-manifest.json";
+
+/**
+ * Options accepted by `exportCommunity`.
+ *
+ * @property {DepositFilters} [filters] - Status, date range and author ORCID the deposits must match.
+ * @property {boolean} [combined] - Also gather the deposits into a single `community_<name>.zip` with an `index.json`.
+ * @property {string} [manifestPath] - Path of the run manifest (defaults to `export-manifest.json` inside the download directory).
+ * @property {ApiConnection} [connection] - Orvium instance to export from (defaults to the one configured in the environment).
+ */
+export interface CommunityExportOptions extends ExportOptions {
+  filters?: DepositFilters;
+  combined?: boolean;
+  manifestPath?: string;
+  connection?: ApiConnection;
+}
+
+/**
+ * Loads the run manifest from disk, or creates an empty one if it does not exist yet.
+ *
+ * @param {string} manifestPath - Path of the manifest file.
+ * @param {string} community - Community the deposits are exported from.
+ * @returns {ExportManifest} The manifest of the previous run or a new empty manifest.
+ * @throws {Error} Throws an error if an existing manifest was created for a different community.
+ */
+function loadManifest(manifestPath: string, community: string): ExportManifest {
+  if (!fs.existsSync(manifestPath)) {
+    const now = new Date().toISOString();
+    return { community, createdAt: now, updatedAt: now, deposits: {} };
+  }
+
+  const manifest: ExportManifest = JSON.parse(
+    fs.readFileSync(manifestPath, "utf8")
+  );
+  if (manifest.community !== community) {
+    throw new Error(
+      `Manifest ${manifestPath} belongs to community "${manifest.community}", not "${community}"`
+    );
+  }
+  return manifest;
+}
+
+function saveManifest(manifestPath: string, manifest: ExportManifest): void {
+  manifest.updatedAt = new Date().toISOString();
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+}
+
+/**
+ * Writes a single archive with the content of every exported deposit in its own folder (named after the
+ * deposit id), and an `index.json` describing the deposits.
+ *
+ * @param {string} archivePath - Path of the combined archive.
+ * @param {string} downloadPath - Directory with the `deposit_<id>.zip` files.
+ * @param {DepositPopulated[]} deposits - The exported deposits.
+ * @param {object} index - The content of `index.json`.
+ */
+async function writeCombinedArchive(
+  archivePath: string,
+  downloadPath: string,
+  deposits: DepositPopulated[],
+  index: object
+): Promise<number> {
+  const archive = archiver("zip", { zlib: { level: 9 } });
+  const output = fs.createWriteStream(archivePath);
+  const closed = new Promise<void>((resolve, reject) => {
+    output.on("close", resolve);
+    output.on("error", reject);
+    archive.on("error", reject);
+  });
+  archive.pipe(output);
+
+  const extracted: string[] = [];
+  try {
+    archive.append(JSON.stringify(index, null, 2), { name: "index.json" });
+    for (const deposit of deposits) {
+      const extractPath = extractDepositArchive(
+        path.join(downloadPath, `deposit_${deposit._id}.zip`)
+      );
+      extracted.push(extractPath);
+      archive.directory(extractPath, deposit._id);
+    }
+    await archive.finalize();
+    await closed;
+    return archive.pointer();
+  } finally {
+    for (const extractPath of extracted) {
+      fs.rmSync(extractPath, { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * Exports every deposit of a community that matches the filters as a `deposit_<id>.zip` in the download
+ * directory. Deposits are exported one after another, and the manifest is written after each of them so
+ * an interrupted run can be resumed: deposits already exported, whose zip is still present, are skipped.
+ * With `combined`, the exported deposits are also gathered into `community_<name>.zip`, each in a folder
+ * named after its id, together with an `index.json`.
+ *
+ * @param {string} community - Orvium community whose deposits are exported.
+ * @param {string} downloadPath - Directory where the zip files and the manifest are written.
+ * @param {CommunityExportOptions} [options] - Filters, metadata formats, reviews, combined archive and manifest location.
+ * @returns {Promise<ExportManifest>} A promise that resolves with the updated manifest once every deposit has been processed.
+ */
+export async function exportCommunity(
+  community: string,
+  downloadPath: string,
+  options: CommunityExportOptions = {}
+): Promise<ExportManifest> {
+  const connection = options.connection ?? connectionFromEnv();
+  const manifestPath =
+    options.manifestPath ?? path.join(downloadPath, DEFAULT_MANIFEST_FILENAME);
+  const manifest = loadManifest(manifestPath, community);
+
+  const deposits = await listCommunityDeposits(
+    connection,
+    community,
+    options.filters
+  );
+  const isExported = (deposit: DepositPopulated) => {
+    const entry = manifest.deposits[deposit._id];
+    return (
+      entry?.status === "succeeded" &&
+      entry.archive !== undefined &&
+      fs.existsSync(path.join(downloadPath, entry.archive))
+    );
+  };
+  const pending = deposits.filter((deposit) => !isExported(deposit));
+  loggerOf(connection).info(
+    `Found ${deposits.length} deposit(s) in ${community}, ${pending.length} to export`
+  );
+
+  for (const deposit of pending) {
+    try {
+      await exportDeposit(deposit._id, downloadPath, connection, {
+        formats: options.formats,
+        reviews: options.reviews,
+      });
+      manifest.deposits[deposit._id] = {
+        status: "succeeded",
+        archive: `deposit_${deposit._id}.zip`,
+        title: deposit.title,
+        updatedAt: new Date().toISOString(),
+      };
+    } catch (error: any) {
+      loggerOf(connection).error(
+        `Error exporting ${deposit._id}: ${error?.message ?? error}`
+      );
+      manifest.deposits[deposit._id] = {
+        status: "failed",
+        title: deposit.title,
+        error: error?.message ?? String(error),
+        updatedAt: new Date().toISOString(),
+      };
+    }
+    saveManifest(manifestPath, manifest);
+  }
+  saveManifest(manifestPath, manifest);
+
+  if (options.combined) {
+    const exported = deposits.filter(isExported);
+    const archivePath = path.join(
+      downloadPath,
+      `community_${community.replace(/[^\w.-]+/g, "_")}.zip`
+    );
+    const bytes = await writeCombinedArchive(archivePath, downloadPath, exported, {
+      community,
+      exportedAt: new Date().toISOString(),
+      filters: options.filters ?? {},
+      deposits: exported.map((deposit) => ({
+        id: deposit._id,
+        folder: deposit._id,
+        title: deposit.title,
+        status: deposit.status,
+        doi: deposit.doi,
+        publicationDate: deposit.publicationDate,
+        authors: deposit.authors.map(
+          (author) => `${author.firstName} ${author.lastName}`
+        ),
+      })),
+      failed: deposits
+        .filter((deposit) => !isExported(deposit))
+        .map((deposit) => ({
+          id: deposit._id,
+          title: deposit.title,
+          error: manifest.deposits[deposit._id]?.error,
+        })),
+    });
+    reportProgress(connection, {
+      type: "archiveFinalized",
+      path: archivePath,
+      bytes,
+    });
+    loggerOf(connection).info(
+      `Combined archive created successfully: ${archivePath}`
+    );
+  }
+
+  return manifest;
+}
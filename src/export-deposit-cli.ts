@@ -4,43 +4,131 @@
  * CLI for exporting a deposit (metadata + files) from Orvium.
  *
  * Usage:
+ *   $ orvium-tools export [--format <formats>] [--reviews] <depositId> <downloadDirectory>
+ *   $ orvium-tools export --community <name> [filters] [--combined] [--manifest <file>]
+ *                         [--format <formats>] [--reviews] <downloadDirectory>
+ *   # or through the alias:
  *   $ orvium-tools-export <depositId> <downloadDirectory>
- *   # via npx:
- *   $ npx orvium-tools-export <depositId> <downloadDirectory>
  *
  * Arguments:
  *   <depositId>          The Orvium deposit ID to export
  *   <downloadDirectory>  Local directory where files will be written
  *
+ * Options:
+ *   --format <formats>   Comma-separated metadata formats written alongside meta.json:
+ *                        jats, bibtex, csl-json, ro-crate, or all (may be repeated)
+ *   --reviews            Also export the peer reviews of the deposits under reviews/ in every zip
+ *   --community <name>   Export every deposit of the community instead of a single deposit
+ *   --status <status>    Only deposits with this status (e.g. published)
+ *   --from <date>        Only deposits published (or created) on or after this ISO date
+ *   --to <date>          Only deposits published (or created) on or before this ISO date
+ *   --orcid <id>         Only deposits with an author with this ORCID iD
+ *   --combined           Also gather the deposits into community_<name>.zip with an index.json
+ *   --manifest <file>    Run manifest used to resume (default <downloadDirectory>/export-manifest.json)
+ *   (and the global options of cli.ts; --json prints the archive path or the manifest as JSON)
+ *
  * Behavior:
- *   - Validates required CLI arguments.
- *   - Calls `exportDeposit(depositId, downloadDirectory)`.
+ *   - Calls `exportDeposit(depositId, downloadDirectory, connection, { formats, reviews })`,
+ *     or `exportCommunity(community, downloadDirectory, options)` with --community.
+ *   - In community mode, exits with 1 if any deposit failed; running again retries only those.
  *   - Prints the result or any errors.
- *
- * Notes:
- *   - If your core function relies on environment variables (e.g. ORVIUM_TOKEN),
- *     you can enable `.env` support by uncommenting the dotenv block below.
  */
 
+import * as path from "path";
+import { CliCommand, EXIT_CODES, UsageError, runStandalone } from "./cli";
 import { exportDeposit } from "./export-deposit";
+import { exportCommunity } from "./export-community";
+import { EXPORT_FORMATS, ExportFormat, isExportFormat } from "./export-formats";
 
-// Optional: load .env (uncomment if needed)
-// import 'dotenv/config';
+function parseFormats(values: string[]): ExportFormat[] {
+  const formats: ExportFormat[] = [];
+  for (const value of values.flatMap((entry) => entry.split(",")).map((entry) => entry.trim())) {
+    if (value === "") {
+      continue;
+    } else if (value === "all") {
+      formats.push(...EXPORT_FORMATS);
+    } else if (isExportFormat(value)) {
+      formats.push(value);
+    } else {
+      throw new UsageError(
+        `Invalid --format "${value}". Expected one of: ${EXPORT_FORMATS.join(", ")}, all`
+      );
+    }
+  }
+  return formats;
+}
 
-// --- Parse & validate args ---------------------------------------------------
+export const exportCommand: CliCommand = {
+  name: "export",
+  summary: "Export a deposit, or every deposit of a community, as zip files",
+  usage: [
+    "[--format <jats,bibtex,csl-json,ro-crate|all>] [--reviews] <depositId> <downloadDirectory>",
+    "--community <name> [--status <status>] [--from <date>] [--to <date>] [--orcid <id>]",
+    "  [--combined] [--manifest <file>] [--format <formats>] [--reviews] <downloadDirectory>",
+  ],
+  arguments: [
+    ["<depositId>", "The Orvium deposit id to export"],
+    ["<downloadDirectory>", "Local directory where the zip files are written"],
+  ],
+  options: {
+    format: {
+      type: "string",
+      multiple: true,
+      value: "<formats>",
+      description: `Comma-separated metadata formats written alongside meta.json: ${EXPORT_FORMATS.join(", ")} or all`,
+    },
+    reviews: { type: "boolean", description: "Also export the peer reviews of the deposits under reviews/ in every zip" },
+    community: { type: "string", value: "<name>", description: "Export every deposit of the community instead of a single deposit" },
+    status: { type: "string", value: "<status>", description: "Only deposits with this status (e.g. published)" },
+    from: { type: "string", value: "<date>", description: "Only deposits published (or created) on or after this ISO date" },
+    to: { type: "string", value: "<date>", description: "Only deposits published (or created) on or before this ISO date" },
+    orcid: { type: "string", value: "<id>", description: "Only deposits with an author with this ORCID iD" },
+    combined: { type: "boolean", description: "Also gather the deposits into community_<name>.zip with an index.json" },
+    manifest: { type: "string", value: "<file>", description: "Run manifest used to resume (default <downloadDirectory>/export-manifest.json)" },
+  },
 
-const [depositId, downloadDirectory] = process.argv.slice(2);
+  async run({ values, positionals }, context) {
+    const community = values.community as string | undefined;
+    const [depositId, downloadDirectory] = community
+      ? [undefined, positionals[0]]
+      : positionals;
 
-const USAGE = "Usage: orvium-tools-export <depositId> <downloadDirectory>";
+    if ((!community && !depositId) || !downloadDirectory) {
+      throw new UsageError(community ? "Missing <downloadDirectory>" : "Missing <depositId> or <downloadDirectory>");
+    }
+    const formats = parseFormats((values.format as string[] | undefined) ?? []);
+    const reviews = values.reviews === true;
 
-if (!depositId || !downloadDirectory) {
-  console.error(USAGE);
-  process.exit(2); // 2 = incorrect usage
-}
+    if (community) {
+      const manifest = await exportCommunity(community, downloadDirectory, {
+        formats,
+        reviews,
+        filters: {
+          status: values.status as string | undefined,
+          from: values.from as string | undefined,
+          to: values.to as string | undefined,
+          orcid: values.orcid as string | undefined,
+        },
+        combined: values.combined === true,
+        manifestPath: values.manifest as string | undefined,
+        connection: context.connection(),
+      });
+      const results = Object.values(manifest.deposits);
+      const failed = results.filter((entry) => entry.status === "failed");
+      context.output(
+        manifest,
+        `Community export finished: ${results.length - failed.length} succeeded, ${failed.length} failed`
+      );
+      return failed.length > 0 ? EXIT_CODES.failure : EXIT_CODES.success;
+    }
 
-// --- Execute -----------------------------------------------------------------
+    await exportDeposit(depositId as string, downloadDirectory, context.connection(), { formats, reviews });
+    const archive = path.join(downloadDirectory, `deposit_${depositId}.zip`);
+    context.output({ depositId, archive }, `Deposit ${depositId} exported to ${archive}`);
+    return EXIT_CODES.success;
+  },
+};
 
-exportDeposit(depositId, downloadDirectory).catch((err) => {
-  console.error("Error during deposit export:", err?.message ?? err);
-  process.exit(1); // 1 = runtime error
-});
+if (require.main === module) {
+  runStandalone(exportCommand, "orvium-tools-export");
+}
@@ -1,147 +1,448 @@
-import axios from "axios";
 import * as fs from "fs"; // To save the ZIP file locally
 import * as path from "path";
-import dotenv from "dotenv";
-import { Deposit, DepositPopulated } from "./deposit-interfaces";
-import archiver from "archiver";
+import * as crypto from "crypto";
+import { Readable, Transform, Writable } from "stream";
+import { finished, pipeline } from "stream/promises";
+import {
+  Deposit,
+  DepositPopulated,
+  ExportedReview,
+  FileMetadata,
+} from "./deposit-interfaces";
+import { ApiConnection, connectionFromEnv } from "./api-connection";
+import { IntegrityError, OrviumError, toOrviumError } from "./errors";
+import { request } from "./transport";
+import { countingStream, loggerOf, reportProgress } from "./logger";
+import archiver, { Archiver } from "archiver";
+import {
+  ExportFormat,
+  PackagedFile,
+  renderExportFormats,
+} from "./export-formats";
+import { FileRole } from "./file-types";
+import {
+  ManifestFile,
+  MANIFEST_FILENAME,
+  createArchiveManifest,
+  describeContent,
+} from "./archive-manifest";
+import {
+  REVIEWS_FOLDER,
+  getReviewFileStream,
+  listDepositReviews,
+  toExportedReview,
+} from "./deposit-reviews";
 
-/**
- * Load and prepare environment variables
- */
+// Function to retrieve a deposit by ID
+export async function getDepositById(
+  connection: ApiConnection,
+  depositId: string
+): Promise<DepositPopulated> {
+  // Make the GET request to retrieve deposit details
+  const response = await request<DepositPopulated>(
+    connection,
+    { step: "getDeposit", depositId },
+    { method: "GET", url: `${connection.apiUrl}/deposits/${depositId}` }
+  );
+  // Return the deposit details from the response
+  return response.data;
+}
 
-dotenv.config();
+// Function to get a signed URL for a specific file in the deposit and open a download stream for it
+export async function getDepositFileStream(
+  connection: ApiConnection,
+  depositId: string,
+  filename: string
+): Promise<Readable> {
+  const context = { step: "downloadFile" as const, depositId };
 
-//Obtain the api key from the env variable
-const API_KEY: string | undefined = process.env.API_KEY;
-const API_KEY_USER: string | undefined = process.env.API_KEY_USER;
+  // Request the signed URL for the file
+  const response = await request(connection, context, {
+    method: "GET",
+    url: `${connection.apiUrl}/deposits/${depositId}/files/${encodeURIComponent(filename)}`,
+    maxRedirects: 0, // Prevent axios from following the redirect
+    validateStatus: (status) => status === 302, // Only accept status 302 for redirection
+  });
 
-// Function to retrieve a deposit by ID
-async function getDepositById(
-  depositId: string
-): Promise<DepositPopulated | null> {
-  const apiUrl = `${process.env.API_URL}/deposits/${depositId}`;
-  try {
-    // Make the GET request to retrieve deposit details
-    const response = await axios.get<DepositPopulated>(apiUrl, {
-      headers: {
-        "x-api-key": API_KEY,
-        "x-api-key-user": API_KEY_USER,
-      },
-    });
-    // Return the deposit details from the response
-    return response.data;
-  } catch (error: any) {
-    if (error.response) {
-      console.error(`Error: ${error.response.status} - ${error.response.data}`);
-    } else {
-      console.error("Error:", error.message);
-    }
-    return null;
+  // Get the signed URL from the location header
+  const signedUrl = response.headers["location"];
+  if (!signedUrl) {
+    throw new OrviumError("Signed URL not found in response headers", context);
   }
+
+  // Download the file using the signed URL
+  const fileResponse = await request<Readable>(
+    connection,
+    { ...context, storage: true },
+    { method: "GET", url: signedUrl, responseType: "stream" }
+  );
+  return fileResponse.data;
 }
 
-// Function to get a signed URL for a specific file in the deposit and download the file
-async function downloadDepositFile(
+// Function to download a specific file of the deposit into a local directory, returning its size and SHA-256.
+// The download fails with an IntegrityError if its size differs from the expected one reported by the API.
+// The bytes received so far are reported to the logger of the connection as bytesDownloaded progress events.
+export async function downloadDepositFile(
+  connection: ApiConnection,
   depositId: string,
   filename: string,
-  downloadPath: string
-): Promise<void> {
-  const fileUrl = `${process.env.API_URL}/deposits/${depositId}/files/${filename}`;
+  downloadPath: string,
+  expectedSize?: number
+): Promise<{ size: number; sha256: string }> {
+  const fileStream = await getDepositFileStream(connection, depositId, filename);
+  const filePath = path.join(downloadPath, filename);
+  const hash = crypto.createHash("sha256");
+  let size = 0;
+  const measure = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      hash.update(chunk);
+      size += chunk.length;
+      callback(null, chunk);
+    },
+  });
 
   try {
-    // Request the signed URL for the file
-    const response = await axios.get(fileUrl, {
-      headers: {
-        "x-api-key": API_KEY,
-        "x-api-key-user": API_KEY_USER,
-      },
-      maxRedirects: 0, // Prevent axios from following the redirect
-      validateStatus: (status) => status === 302, // Only accept status 302 for redirection
-    });
-
-    // Get the signed URL from the location header
-    const signedUrl = response.headers["location"];
-    if (!signedUrl) {
-      throw new Error("Signed URL not found in response headers");
-    }
+    await pipeline(
+      fileStream,
+      measure,
+      countingStream((bytes) =>
+        reportProgress(connection, {
+          type: "bytesDownloaded",
+          depositId,
+          file: filename,
+          bytes,
+          total: expectedSize,
+        })
+      ),
+      fs.createWriteStream(filePath)
+    );
+  } catch (error) {
+    throw toOrviumError(error, "downloadFile", depositId);
+  }
 
-    // Download the file using the signed URL
-    const fileResponse = await axios.get(signedUrl, { responseType: "stream" });
-    const filePath = path.join(downloadPath, filename);
-    const writer = fs.createWriteStream(filePath);
-
-    fileResponse.data.pipe(writer);
-
-    await new Promise<void>((resolve, reject) => {
-      // pipe / write...
-      writer.once("finish", () => resolve());
-      writer.once("error", (err) => reject(err));
-    });
-  } catch (error: any) {
-    if (error.response) {
-      console.error(`Error: ${error.response.status} - ${error.response.data}`);
-    } else {
-      console.error("Error:", error.message);
-    }
+  if (expectedSize !== undefined && size !== expectedSize) {
+    fs.rmSync(filePath, { force: true });
+    throw new IntegrityError(
+      `${filename} was downloaded with ${size} bytes, expected ${expectedSize}`,
+      {
+        step: "downloadFile",
+        depositId,
+        details: { filename, size, expectedSize },
+      }
+    );
   }
+  return { size, sha256: hash.digest("hex") };
 }
 
-export async function exportDeposit(
-  depositId: string,
-  downloadPath: string
-): Promise<void> {
-  const depositPopulated = await getDepositById(depositId);
-  if (!depositPopulated) {
-    throw new Error("depositPopulated cannot be null");
-  }
-  const deposit: Deposit = {
+// Function to convert a deposit retrieved from Orvium into the importable meta.json shape
+export function toDeposit(depositPopulated: DepositPopulated): Deposit {
+  return {
     title: depositPopulated.title,
     abstract: depositPopulated.abstract,
     disciplines: depositPopulated.disciplines,
-    authors: depositPopulated.authors.map((author: any) => ({
+    authors: depositPopulated.authors.map((author) => ({
       firstName: author.firstName,
+      middleName: author.middleName || undefined,
       lastName: author.lastName,
       nickName: author.nickName || "",
       email: author.email || "",
       orcid: author.orcid || "",
+      affiliations: author.affiliations?.length ? author.affiliations : undefined,
+      corresponding: author.corresponding || undefined,
+      credit: author.credit?.length ? author.credit : undefined,
+      sourceId: author.sourceId || undefined,
+      sourceUserId: author.sourceUserId || undefined,
     })),
     keywords: depositPopulated.keywords,
     community: depositPopulated.communityPopulated.name,
     manuscript: {
       filename: depositPopulated.publicationFile.description,
     },
+    files: (depositPopulated.files ?? []).map((file) => ({
+      filename: file.filename,
+      description: file.description,
+      tags: file.tags,
+    })),
+    pdf: depositPopulated.pdfFile
+      ? { filename: depositPopulated.pdfFile.filename }
+      : undefined,
+    // Identifiers let a later import recognise the deposit instead of duplicating it
+    doi: depositPopulated.doi || undefined,
+    sourceId: depositPopulated.sourceId || undefined,
   };
-  const metadataPath = path.join(downloadPath, "meta.json");
-  const manuscriptPath = path.join(
-    downloadPath,
-    depositPopulated.publicationFile.filename
-  );
-  fs.writeFileSync(metadataPath, JSON.stringify(deposit, null, 2));
+}
 
-  await downloadDepositFile(
-    depositId,
-    depositPopulated.publicationFile.filename,
-    downloadPath
-  );
-  const zipFilePath = path.join(downloadPath, `deposit_${depositId}.zip`);
-  const archive = archiver("zip", { zlib: { level: 9 } });
-  const output = fs.createWriteStream(zipFilePath);
+/**
+ * Options accepted by `exportDeposit`.
+ *
+ * @property {ExportFormat[]} [formats] - Standard metadata formats written into the zip alongside `meta.json`.
+ * @property {boolean} [reviews] - Also write the peer reviews of the deposit into the zip, under `reviews/<id>/`.
+ */
+export interface ExportOptions {
+  formats?: ExportFormat[];
+  reviews?: boolean;
+}
+
+// A file attached to a deposit: the name it is stored under in Orvium, and its description inside the zip
+interface ArchiveFile extends PackagedFile {
+  filename: string;
+}
 
-  output.on("close", () => {
-    console.log(`ZIP file created successfully: ${zipFilePath}`);
+// Function to list every file attached to a deposit, with the name it stored under and its name inside the zip
+function depositArchiveFiles(
+  depositPopulated: DepositPopulated,
+  deposit: Deposit
+): ArchiveFile[] {
+  const archiveFile = (
+    file: FileMetadata,
+    name: string,
+    role: FileRole
+  ): ArchiveFile => ({
+    filename: file.filename,
+    name,
+    role,
+    contentType: file.contentType,
+    size: file.contentLength,
+    description: role === "supplementary" ? file.description : undefined,
   });
 
-  archive.on("error", (err: Error) => {
-    throw err;
+  const files = [
+    archiveFile(
+      depositPopulated.publicationFile,
+      deposit.manuscript.filename,
+      "manuscript"
+    ),
+  ];
+  for (const file of depositPopulated.files ?? []) {
+    files.push(archiveFile(file, file.filename, "supplementary"));
+  }
+  if (depositPopulated.pdfFile) {
+    files.push(
+      archiveFile(
+        depositPopulated.pdfFile,
+        depositPopulated.pdfFile.filename,
+        "pdf"
+      )
+    );
+  }
+  return files;
+}
+
+// A review of a deposit inside the zip: its review.json, and its files stored next to it
+interface ArchiveReview {
+  id: string;
+  metadata: { name: string; content: string };
+  files: ArchiveFile[];
+}
+
+// Function to describe the reviews of a deposit with the names of their files inside the zip
+function reviewArchiveEntries(reviews: ExportedReview[]): ArchiveReview[] {
+  return reviews.map((review) => ({
+    id: review.id,
+    metadata: {
+      name: `${REVIEWS_FOLDER}/${review.id}/review.json`,
+      content: JSON.stringify(review, null, 2),
+    },
+    files: review.files.map((file) => ({
+      filename: file.filename,
+      name: file.path,
+      role: "review",
+      contentType: file.contentType,
+      size: file.size,
+    })),
+  }));
+}
+
+// Function to append a file of the deposit to an archive while it is downloaded, returning its manifest entry.
+// The download fails with an IntegrityError if its size differs from the expected one reported by the API.
+async function appendDepositFile(
+  archive: Archiver,
+  connection: ApiConnection,
+  depositId: string,
+  file: ArchiveFile,
+  open: () => Promise<Readable> = () =>
+    getDepositFileStream(connection, depositId, file.filename)
+): Promise<ManifestFile> {
+  const fileStream = await open();
+  const hash = crypto.createHash("sha256");
+  let size = 0;
+  const measure = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      hash.update(chunk);
+      size += chunk.length;
+      callback(null, chunk);
+    },
   });
+  const counter = countingStream((bytes) =>
+    reportProgress(connection, {
+      type: "bytesDownloaded",
+      depositId,
+      file: file.filename,
+      bytes,
+      total: file.size,
+    })
+  );
+  archive.append(counter, { name: file.name });
+
+  // Resolves once the archive has read the whole file
+  try {
+    await pipeline(fileStream, measure, counter);
+  } catch (error) {
+    throw toOrviumError(error, "downloadFile", depositId);
+  }
 
+  if (size !== file.size) {
+    throw new IntegrityError(
+      `${file.filename} was downloaded with ${size} bytes, expected ${file.size}`,
+      {
+        step: "downloadFile",
+        depositId,
+        details: { filename: file.filename, size, expectedSize: file.size },
+      }
+    );
+  }
+  return { name: file.name, size, sha256: hash.digest("hex") };
+}
+
+/**
+ * Exports a deposit as a zip archive written to a stream, such as an HTTP response or an upload to another
+ * storage. `meta.json`, the metadata formats and the files of the deposit are streamed into the archive as they
+ * are downloaded, followed by its peer reviews when `options.reviews` is set, and `manifest.json` is added last;
+ * nothing is written to disk. The stream is ended once the archive is complete, or destroyed with the error if
+ * the export fails.
+ *
+ * @param {string} depositId - The deposit to export.
+ * @param {Writable} output - The stream the archive is written to.
+ * @param {ApiConnection} [connection] - Orvium instance to export from (defaults to the one configured in the environment).
+ * @param {ExportOptions} [options] - Metadata formats written alongside `meta.json`, and whether reviews are included.
+ * @returns {Promise<number>} A promise that resolves with the size of the archive in bytes once it is written.
+ * @throws {OrviumError} Throws a typed error if the deposit or one of its files cannot be downloaded, e.g. an
+ *   `IntegrityError` if a file is truncated.
+ */
+export async function exportDepositToStream(
+  depositId: string,
+  output: Writable,
+  connection: ApiConnection = connectionFromEnv(),
+  options: ExportOptions = {}
+): Promise<number> {
+  const archive = archiver("zip", { zlib: { level: 9 } });
+  // Resolves once the archive is completely written to the output
+  const written = finished(output);
+  const failed = new Promise<never>((_resolve, reject) => {
+    archive.on("error", reject);
+    written.catch(reject);
+  });
+  failed.catch(() => undefined); // Handled through Promise.race below
   archive.pipe(output);
-  archive.file(metadataPath, { name: "meta.json" });
-  archive.file(manuscriptPath, { name: deposit.manuscript.filename });
 
-  await archive.finalize();
+  const writeArchive = async () => {
+    const depositPopulated = await getDepositById(connection, depositId);
+    const deposit = toDeposit(depositPopulated);
+    const files = depositArchiveFiles(depositPopulated, deposit);
+    const reviews = options.reviews
+      ? reviewArchiveEntries(
+          (await listDepositReviews(connection, depositId)).map(toExportedReview)
+        )
+      : [];
+    const metadata = JSON.stringify(deposit, null, 2);
+    const metadataFile: PackagedFile = {
+      name: "meta.json",
+      role: "metadata",
+      contentType: "application/json",
+      size: Buffer.byteLength(metadata),
+    };
+    const reviewFiles: PackagedFile[] = reviews.flatMap((review) => [
+      {
+        name: review.metadata.name,
+        role: "review",
+        contentType: "application/json",
+        size: Buffer.byteLength(review.metadata.content),
+      },
+      ...review.files,
+    ]);
+    const formatFiles = renderExportFormats(
+      depositPopulated,
+      options.formats ?? [],
+      [metadataFile, ...files, ...reviewFiles]
+    );
 
-  // Eliminar archivos temporales si es necesario
-  fs.unlinkSync(metadataPath);
-  fs.unlinkSync(manuscriptPath);
+    // Every file of the zip is listed in manifest.json with its size and SHA-256
+    archive.append(metadata, { name: "meta.json" });
+    const manifestFiles: ManifestFile[] = [describeContent("meta.json", metadata)];
+    for (const formatFile of formatFiles) {
+      archive.append(formatFile.content, { name: formatFile.name });
+      manifestFiles.push(describeContent(formatFile.name, formatFile.content));
+    }
+    for (const file of files) {
+      manifestFiles.push(await appendDepositFile(archive, connection, depositId, file));
+    }
+    for (const review of reviews) {
+      archive.append(review.metadata.content, { name: review.metadata.name });
+      manifestFiles.push(describeContent(review.metadata.name, review.metadata.content));
+      for (const file of review.files) {
+        manifestFiles.push(
+          await appendDepositFile(archive, connection, depositId, file, () =>
+            getReviewFileStream(connection, depositId, review.id, file.filename)
+          )
+        );
+      }
+    }
+    const manifest = createArchiveManifest(manifestFiles);
+    archive.append(JSON.stringify(manifest, null, 2), { name: MANIFEST_FILENAME });
+
+    await archive.finalize();
+    await written;
+  };
+
+  try {
+    await Promise.race([writeArchive(), failed]);
+  } catch (error) {
+    archive.abort();
+    output.destroy(error as Error);
+    throw error;
+  }
+  return archive.pointer();
+}
+
+/**
+ * Exports a deposit as `deposit_<id>.zip` in a directory (see `exportDepositToStream`). The archive is written
+ * under a temporary `.partial` name and renamed once complete, so an existing archive is only replaced by a
+ * complete one, and a failed export removes what it wrote.
+ *
+ * @param {string} depositId - The deposit to export.
+ * @param {string} downloadPath - The directory where the archive is written.
+ * @param {ApiConnection} [connection] - Orvium instance to export from (defaults to the one configured in the environment).
+ * @param {ExportOptions} [options] - Metadata formats written alongside `meta.json`, and whether reviews are included.
+ * @returns {Promise<void>} A promise that resolves once the archive is written.
+ * @throws {OrviumError} Throws a typed error if the deposit or one of its files cannot be downloaded.
+ */
+export async function exportDeposit(
+  depositId: string,
+  downloadPath: string,
+  connection: ApiConnection = connectionFromEnv(),
+  options: ExportOptions = {}
+): Promise<void> {
+  const zipFilePath = path.join(downloadPath, `deposit_${depositId}.zip`);
+  const partialPath = `${zipFilePath}.partial`;
+  const output = fs.createWriteStream(partialPath);
+
+  // Resolves once the file is closed, which happens after the archive is written or the stream destroyed
+  const closed = new Promise<void>((resolve) => output.on("close", resolve));
+  let bytes: number;
+  try {
+    bytes = await exportDepositToStream(depositId, output, connection, options);
+  } catch (error) {
+    await closed;
+    fs.rmSync(partialPath, { force: true });
+    throw error;
+  }
+  await closed;
+  fs.renameSync(partialPath, zipFilePath);
+
+  reportProgress(connection, {
+    type: "archiveFinalized",
+    path: zipFilePath,
+    bytes,
+  });
+  loggerOf(connection).info(`ZIP file created successfully: ${zipFilePath}`);
 }
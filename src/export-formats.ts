@@ -0,0 +1,356 @@
+/**
+ * Standard metadata formats written alongside `meta.json` in exported deposits.
+ *
+ * - JATS XML front matter (`jats.xml`), for repositories and journal systems.
+ * - BibTeX (`citation.bib`) and CSL-JSON (`citation.json`), for citation managers.
+ * - RO-Crate (`ro-crate-metadata.json`), describing every packaged file for preservation systems.
+ *
+ * The JATS and BibTeX files reference the manuscript and list ORCID iDs in the way the metadata readers
+ * understand, so an export without `meta.json` can still be imported again.
+ */
+import { Affiliation, Author, DepositPopulated } from "./deposit-interfaces";
+import { FileRole } from "./file-types";
+
+/**
+ * A metadata format that can be written into an exported deposit.
+ */
+export type ExportFormat = "jats" | "bibtex" | "csl-json" | "ro-crate";
+
+/**
+ * A file packaged in an exported deposit, as described by the metadata formats.
+ *
+ * @property {string} name - The name of the file inside the archive.
+ * @property {FileRole | "metadata" | "review"} role - The role of the file within the deposit, `metadata` for the metadata
+ *   files, or `review` for the files of the peer reviews.
+ * @property {string} contentType - The MIME type of the file.
+ * @property {number} size - The size of the file in bytes.
+ * @property {string} [description] - A description of the file contents.
+ */
+export interface PackagedFile {
+  name: string;
+  role: FileRole | "metadata" | "review";
+  contentType: string;
+  size: number;
+  description?: string;
+}
+
+interface FormatRenderer {
+  filename: string;
+  contentType: string;
+  render(deposit: DepositPopulated, files: PackagedFile[]): string;
+}
+
+// --- Helpers -----------------------------------------------------------------
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function escapeLatex(value: string): string {
+  return value
+    .replace(/\\/g, "\\textbackslash ")
+    .replace(/([&%$#_{}])/g, "\\$1")
+    .replace(/~/g, "\\textasciitilde ")
+    .replace(/\^/g, "\\textasciicircum ");
+}
+
+function orcidUrl(author: Author): string | undefined {
+  return author.orcid ? `https://orcid.org/${author.orcid}` : undefined;
+}
+
+/**
+ * The first and middle names of an author, which citation formats keep together as given names.
+ */
+function givenNames(author: Author): string {
+  return author.middleName ? `${author.firstName} ${author.middleName}` : author.firstName;
+}
+
+/**
+ * The date a deposit was published (or created, if it is not published yet), as year, month and day.
+ */
+function depositDate(deposit: DepositPopulated): [number, number, number] | undefined {
+  const value = deposit.publicationDate ?? deposit.createdOn;
+  const date = value ? new Date(value) : undefined;
+  if (!date || Number.isNaN(date.getTime())) {
+    return undefined;
+  }
+  return [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()];
+}
+
+function paragraphs(text: string): string[] {
+  return text
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter((paragraph) => paragraph !== "");
+}
+
+function manuscriptOf(files: PackagedFile[]): PackagedFile | undefined {
+  return files.find((file) => file.role === "manuscript");
+}
+
+// --- JATS --------------------------------------------------------------------
+
+function renderJats(deposit: DepositPopulated, files: PackagedFile[]): string {
+  const date = depositDate(deposit);
+  const manuscript = manuscriptOf(files);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE article PUBLIC "-//NLM//DTD JATS (Z39.96) Journal Archiving and Interchange DTD v1.3 20210610//EN" "JATS-archivearticle1-3.dtd">',
+    '<article xmlns:xlink="http://www.w3.org/1999/xlink" dtd-version="1.3" article-type="research-article">',
+    "  <front>",
+    "    <journal-meta>",
+    "      <journal-title-group>",
+    `        <journal-title>${escapeXml(deposit.communityPopulated.name)}</journal-title>`,
+    "      </journal-title-group>",
+    "    </journal-meta>",
+    "    <article-meta>",
+    `      <article-id pub-id-type="publisher-id">${escapeXml(deposit._id)}</article-id>`,
+  ];
+  if (deposit.doi) {
+    lines.push(`      <article-id pub-id-type="doi">${escapeXml(deposit.doi)}</article-id>`);
+  }
+  if (deposit.disciplines.length > 0) {
+    lines.push(
+      "      <article-categories>",
+      '        <subj-group subj-group-type="discipline">',
+      ...deposit.disciplines.map((discipline) => `          <subject>${escapeXml(discipline)}</subject>`),
+      "        </subj-group>",
+      "      </article-categories>"
+    );
+  }
+  lines.push(
+    "      <title-group>",
+    `        <article-title>${escapeXml(deposit.title)}</article-title>`,
+    "      </title-group>",
+    "      <contrib-group>"
+  );
+  for (const author of deposit.authors) {
+    lines.push(`        <contrib contrib-type="author"${author.corresponding ? ' corresp="yes"' : ""}>`);
+    const orcid = orcidUrl(author);
+    if (orcid) {
+      lines.push(`          <contrib-id contrib-id-type="orcid">${escapeXml(orcid)}</contrib-id>`);
+    }
+    lines.push(
+      "          <name>",
+      `            <surname>${escapeXml(author.lastName)}</surname>`,
+      `            <given-names>${escapeXml(givenNames(author))}</given-names>`,
+      "          </name>"
+    );
+    for (const role of author.credit ?? []) {
+      lines.push(`          <role vocab="credit" vocab-term="${escapeXml(role)}">${escapeXml(role)}</role>`);
+    }
+    if (author.email) {
+      lines.push(`          <email>${escapeXml(author.email)}</email>`);
+    }
+    for (const affiliation of author.affiliations ?? []) {
+      lines.push("          <aff>", "            <institution-wrap>");
+      if (affiliation.ror) {
+        lines.push(`              <institution-id institution-id-type="ror">${escapeXml(affiliation.ror)}</institution-id>`);
+      }
+      lines.push(
+        `              <institution>${escapeXml(affiliation.name)}</institution>`,
+        "            </institution-wrap>",
+        "          </aff>"
+      );
+    }
+    lines.push("        </contrib>");
+  }
+  lines.push("      </contrib-group>");
+  if (date) {
+    const [year, month, day] = date;
+    lines.push(
+      '      <pub-date publication-format="electronic" date-type="pub">',
+      `        <day>${String(day).padStart(2, "0")}</day>`,
+      `        <month>${String(month).padStart(2, "0")}</month>`,
+      `        <year>${year}</year>`,
+      "      </pub-date>"
+    );
+  }
+  if (manuscript) {
+    lines.push(
+      `      <self-uri xlink:href="${escapeXml(manuscript.name)}" content-type="${escapeXml(manuscript.contentType)}"/>`
+    );
+  }
+  lines.push(
+    "      <abstract>",
+    ...paragraphs(deposit.abstract).map((paragraph) => `        <p>${escapeXml(paragraph)}</p>`),
+    "      </abstract>"
+  );
+  if (deposit.keywords.length > 0) {
+    lines.push(
+      '      <kwd-group kwd-group-type="author">',
+      ...deposit.keywords.map((keyword) => `        <kwd>${escapeXml(keyword)}</kwd>`),
+      "      </kwd-group>"
+    );
+  }
+  lines.push("    </article-meta>", "  </front>", "</article>", "");
+  return lines.join("\n");
+}
+
+// --- BibTeX ------------------------------------------------------------------
+
+function renderBibtex(deposit: DepositPopulated, files: PackagedFile[]): string {
+  const date = depositDate(deposit);
+  const manuscript = manuscriptOf(files);
+  const name = (author: Author) => `${author.lastName}, ${givenNames(author)}`;
+  const orcids = deposit.authors
+    .filter((author) => author.orcid)
+    .map((author) => `${name(author)}/${author.orcid}`);
+
+  const fields: [string, string | undefined][] = [
+    ["title", deposit.title],
+    ["author", deposit.authors.map(name).join(" and ")],
+    ["abstract", deposit.abstract],
+    ["keywords", deposit.keywords.join(", ")],
+    ["howpublished", deposit.communityPopulated.name],
+    ["year", date ? String(date[0]) : undefined],
+    ["month", date ? String(date[1]) : undefined],
+    ["doi", deposit.doi],
+    ["orcid-numbers", orcids.join("; ")], // Web of Science convention
+    ["file", manuscript ? `Manuscript:${manuscript.name}:${manuscript.contentType}` : undefined],
+  ];
+  const body = fields
+    .filter(([, value]) => value)
+    .map(([field, value]) =>
+      field === "file" || field === "doi"
+        ? `  ${field} = {${value}}`
+        : `  ${field} = {${escapeLatex(value as string)}}`
+    );
+  return `@misc{orvium_${deposit._id},\n${body.join(",\n")}\n}\n`;
+}
+
+// --- CSL-JSON ----------------------------------------------------------------
+
+function renderCslJson(deposit: DepositPopulated): string {
+  const date = depositDate(deposit);
+  const item = {
+    id: deposit._id,
+    type: "article", // CSL type for preprints and other works not published in a journal
+    title: deposit.title,
+    abstract: deposit.abstract,
+    author: deposit.authors.map((author) => ({
+      family: author.lastName,
+      given: givenNames(author),
+      ...(author.orcid ? { ORCID: orcidUrl(author) } : {}),
+    })),
+    keyword: deposit.keywords.join(", "),
+    "container-title": deposit.communityPopulated.name,
+    ...(deposit.doi ? { DOI: deposit.doi } : {}),
+    ...(date ? { issued: { "date-parts": [date] } } : {}),
+  };
+  return JSON.stringify([item], null, 2);
+}
+
+// --- RO-Crate ----------------------------------------------------------------
+
+const RO_CRATE_METADATA = "ro-crate-metadata.json";
+
+function renderRoCrate(deposit: DepositPopulated, files: PackagedFile[]): string {
+  const date = deposit.publicationDate ?? deposit.createdOn ?? new Date().toISOString();
+  const organizations = new Map<string, { "@id": string; "@type": "Organization"; name: string }>();
+  const organizationOf = (affiliation: Affiliation) => {
+    const key = affiliation.ror ?? affiliation.name;
+    if (!organizations.has(key)) {
+      const id = affiliation.ror ?? `#organization-${organizations.size + 1}`;
+      organizations.set(key, { "@id": id, "@type": "Organization", name: affiliation.name });
+    }
+    return { "@id": organizations.get(key)!["@id"] };
+  };
+  const people = deposit.authors.map((author, index) => ({
+    "@id": orcidUrl(author) ?? `#author-${index + 1}`,
+    "@type": "Person",
+    name: `${givenNames(author)} ${author.lastName}`,
+    givenName: givenNames(author),
+    familyName: author.lastName,
+    ...(author.email ? { email: author.email } : {}),
+    ...(author.affiliations?.length ? { affiliation: author.affiliations.map(organizationOf) } : {}),
+  }));
+  const packaged = files.filter((file) => file.name !== RO_CRATE_METADATA);
+
+  const graph = [
+    {
+      "@id": RO_CRATE_METADATA,
+      "@type": "CreativeWork",
+      conformsTo: { "@id": "https://w3id.org/ro/crate/1.1" },
+      about: { "@id": "./" },
+    },
+    {
+      "@id": "./",
+      "@type": "Dataset",
+      identifier: deposit.doi ? `https://doi.org/${deposit.doi}` : deposit._id,
+      name: deposit.title,
+      description: deposit.abstract,
+      datePublished: date,
+      keywords: deposit.keywords,
+      about: deposit.disciplines,
+      publisher: deposit.communityPopulated.name,
+      author: people.map((person) => ({ "@id": person["@id"] })),
+      ...(manuscriptOf(packaged) ? { mainEntity: { "@id": manuscriptOf(packaged)?.name } } : {}),
+      hasPart: packaged.map((file) => ({ "@id": file.name })),
+    },
+    ...packaged.map((file) => ({
+      "@id": file.name,
+      "@type": "File",
+      name: file.name,
+      encodingFormat: file.contentType,
+      contentSize: String(file.size),
+      ...(file.description ? { description: file.description } : {}),
+    })),
+    ...people,
+    ...organizations.values(),
+  ];
+  return JSON.stringify({ "@context": "https://w3id.org/ro/crate/1.1/context", "@graph": graph }, null, 2);
+}
+
+// --- Selection ---------------------------------------------------------------
+
+const RENDERERS: Record<ExportFormat, FormatRenderer> = {
+  jats: { filename: "jats.xml", contentType: "application/xml", render: renderJats },
+  bibtex: { filename: "citation.bib", contentType: "application/x-bibtex", render: renderBibtex },
+  "csl-json": { filename: "citation.json", contentType: "application/vnd.citationstyles.csl+json", render: renderCslJson },
+  "ro-crate": { filename: RO_CRATE_METADATA, contentType: "application/ld+json", render: renderRoCrate },
+};
+
+/**
+ * Every export format, in the order their files are written.
+ */
+export const EXPORT_FORMATS = Object.keys(RENDERERS) as ExportFormat[];
+
+/**
+ * Checks that a string names an export format.
+ *
+ * @param {string} value - The value to check, e.g. a command line argument.
+ * @returns {boolean} True if the value is one of `EXPORT_FORMATS`.
+ */
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as string[]).includes(value);
+}
+
+/**
+ * Renders a deposit in the selected formats. RO-Crate is rendered last so that it can describe
+ * the files of the other formats too.
+ *
+ * @param {DepositPopulated} deposit - The deposit retrieved from Orvium.
+ * @param {ExportFormat[]} formats - The formats to render.
+ * @param {PackagedFile[]} files - The other files of the archive (`meta.json`, the deposit files and the reviews).
+ * @returns {{ name: string, content: string }[]} The name and content of the file of every format.
+ */
+export function renderExportFormats(
+  deposit: DepositPopulated,
+  formats: ExportFormat[],
+  files: PackagedFile[]
+): { name: string; content: string }[] {
+  const packaged = [...files];
+  const rendered: { name: string; content: string }[] = [];
+  for (const format of EXPORT_FORMATS.filter((format) => formats.includes(format))) {
+    const { filename, contentType, render } = RENDERERS[format];
+    const content = render(deposit, packaged);
+    packaged.push({ name: filename, role: "metadata", contentType, size: Buffer.byteLength(content) });
+    rendered.push({ name: filename, content });
+  }
+  return rendered;
+}
@@ -0,0 +1,159 @@
+/**
+ * Content type detection and format checks for the files uploaded to Orvium.
+ *
+ * The type of a file is detected from its first bytes (magic numbers), looking inside zip containers to
+ * tell Office Open XML, OpenDocument and LaTeX archives apart. When the content is not recognised, the
+ * file extension is used instead. Each kind of upload (main manuscript, PDF rendering or supplementary
+ * file) only accepts the formats the platform supports.
+ */
+import * as fs from "fs";
+import * as path from "path";
+import AdmZip from "adm-zip";
+
+/**
+ * Role of an uploaded file within its deposit, which determines the formats it may have.
+ */
+export type FileRole = "manuscript" | "pdf" | "supplementary";
+
+const DOCX = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+const XLSX = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+const PPTX = "application/vnd.openxmlformats-officedocument.presentationml.presentation";
+const ODT = "application/vnd.oasis.opendocument.text";
+const OCTET_STREAM = "application/octet-stream";
+
+const EXTENSION_TYPES: Record<string, string> = {
+  ".pdf": "application/pdf",
+  ".doc": "application/msword",
+  ".docx": DOCX,
+  ".odt": ODT,
+  ".rtf": "application/rtf",
+  ".tex": "application/x-tex",
+  ".zip": "application/zip",
+  ".epub": "application/epub+zip",
+  ".xls": "application/vnd.ms-excel",
+  ".xlsx": XLSX,
+  ".ods": "application/vnd.oasis.opendocument.spreadsheet",
+  ".ppt": "application/vnd.ms-powerpoint",
+  ".pptx": PPTX,
+  ".odp": "application/vnd.oasis.opendocument.presentation",
+  ".csv": "text/csv",
+  ".tsv": "text/tab-separated-values",
+  ".txt": "text/plain",
+  ".md": "text/markdown",
+  ".json": "application/json",
+  ".xml": "application/xml",
+  ".bib": "application/x-bibtex",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".tif": "image/tiff",
+  ".tiff": "image/tiff",
+  ".svg": "image/svg+xml",
+  ".mp4": "video/mp4",
+  ".mp3": "audio/mpeg",
+};
+
+const ACCEPTED_TYPES: Record<FileRole, string[]> = {
+  manuscript: [
+    "application/pdf",
+    "application/msword",
+    DOCX,
+    ODT,
+    "application/rtf",
+    "application/x-tex",
+    "application/zip",
+  ],
+  pdf: ["application/pdf"],
+  supplementary: Array.from(new Set(Object.values(EXTENSION_TYPES))),
+};
+
+// Magic numbers of the formats that can be recognised from their first bytes
+const SIGNATURES: { bytes: number[]; type: string }[] = [
+  { bytes: [0x25, 0x50, 0x44, 0x46, 0x2d], type: "application/pdf" }, // %PDF-
+  { bytes: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1], type: "application/msword" }, // OLE2 (.doc)
+  { bytes: [0x7b, 0x5c, 0x72, 0x74, 0x66], type: "application/rtf" }, // {\rtf
+  { bytes: [0x89, 0x50, 0x4e, 0x47], type: "image/png" },
+  { bytes: [0xff, 0xd8, 0xff], type: "image/jpeg" },
+  { bytes: [0x47, 0x49, 0x46, 0x38], type: "image/gif" }, // GIF8
+  { bytes: [0x49, 0x49, 0x2a, 0x00], type: "image/tiff" },
+  { bytes: [0x4d, 0x4d, 0x00, 0x2a], type: "image/tiff" },
+];
+
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04]; // PK\x03\x04
+
+function startsWith(header: Buffer, bytes: number[]): boolean {
+  return bytes.every((byte, index) => header[index] === byte);
+}
+
+function readHeader(filePath: string, length = 16): Buffer {
+  const fd = fs.openSync(filePath, "r");
+  try {
+    const header = Buffer.alloc(length);
+    const bytesRead = fs.readSync(fd, header, 0, length, 0);
+    return header.subarray(0, bytesRead);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Tells the zip based formats apart by looking at the entries of the archive.
+ */
+function detectZipContentType(filePath: string): string {
+  const entries = new AdmZip(filePath).getEntries();
+  const mimetype = entries.find((entry) => entry.entryName === "mimetype");
+  if (mimetype) {
+    return mimetype.getData().toString("utf8").trim(); // OpenDocument and EPUB
+  }
+  const names = entries.map((entry) => entry.entryName);
+  if (names.includes("[Content_Types].xml")) {
+    if (names.some((name) => name.startsWith("word/"))) return DOCX;
+    if (names.some((name) => name.startsWith("xl/"))) return XLSX;
+    if (names.some((name) => name.startsWith("ppt/"))) return PPTX;
+  }
+  return "application/zip"; // Plain archive, e.g. LaTeX sources
+}
+
+/**
+ * Detects the content type of a file from its content, falling back to its extension.
+ *
+ * @param {string} filePath - Path of the file.
+ * @returns {string} The detected MIME type, or `application/octet-stream` if it cannot be determined.
+ */
+export function detectContentType(filePath: string): string {
+  const header = readHeader(filePath);
+  if (startsWith(header, ZIP_SIGNATURE)) {
+    return detectZipContentType(filePath);
+  }
+  const signature = SIGNATURES.find(({ bytes }) => startsWith(header, bytes));
+  if (signature) {
+    return signature.type;
+  }
+  return EXTENSION_TYPES[path.extname(filePath).toLowerCase()] ?? OCTET_STREAM;
+}
+
+/**
+ * Returns the content type a file will be uploaded with: the one given in `meta.json` if any, otherwise
+ * the detected one. The type must be one of the formats accepted for the role of the file.
+ *
+ * @param {string} filePath - Path of the file.
+ * @param {FileRole} role - Role of the file within the deposit.
+ * @param {string} [contentType] - Content type set in `meta.json`, which overrides the detection.
+ * @returns {string} The content type of the file.
+ * @throws {Error} Throws an error if the format is not accepted by the platform for this role.
+ */
+export function resolveContentType(
+  filePath: string,
+  role: FileRole,
+  contentType?: string
+): string {
+  const type = contentType ?? detectContentType(filePath);
+  if (!ACCEPTED_TYPES[role].includes(type)) {
+    throw new Error(
+      `${path.basename(filePath)} has unsupported format ${type} for a ${role} file. ` +
+        `Accepted formats: ${ACCEPTED_TYPES[role].join(", ")}`
+    );
+  }
+  return type;
+}
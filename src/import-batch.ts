@@ -0,0 +1,314 @@
+/**
+ * Batch importer for whole trees of deposit folders.
+ *
+ * This module builds on the single deposit importer to handle large imports:
+ *
+ * - Scan a parent directory for deposit folders (any folder containing a `meta.json` file or another supported metadata file).
+ * - Import them into an Orvium community with a configurable concurrency limit.
+ * - Record the outcome of every folder (deposit ID or error) in a run manifest.
+ * - Skip folders that already succeeded when the same manifest is used again, so only failures are retried.
+ * - Recognise deposits that already exist in the community by their DOI or source identifier, listing the
+ *   community once for the whole batch. Folders of the batch with the same identifier are imported one after
+ *   the other, so the first one creates the deposit and the others find it.
+ * - Record the step a failed folder stopped at; running the batch again resumes its deposit from that step,
+ *   unless the draft was rolled back.
+ * - Preview a batch (dry run) without calling the platform or writing the manifest.
+ */
+import * as fs from "fs";
+import * as path from "path";
+import {
+  ImportPlan,
+  importOrUpdateDeposit,
+  planDepositImport,
+} from "./import-deposit";
+import { ImportManifest } from "./deposit-interfaces";
+import { findMetadataFile, readDepositMetadata } from "./metadata-readers";
+import { ApiConnection, connectionFromEnv } from "./api-connection";
+import { DepositIdentity, ExistingDepositPolicy, normalizeDoi } from "./existing-deposits";
+import { ImportFailurePolicy } from "./import-checkpoint";
+import { listCommunityDeposits } from "./list-deposits";
+import { loggerOf } from "./logger";
+
+const DEFAULT_MANIFEST_FILENAME = "import-manifest.json";
+const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Options accepted by `importDeposits`.
+ *
+ * @property {number} [concurrency] - Maximum number of deposits imported at the same time (defaults to 4).
+ * @property {string} [manifestPath] - Path of the run manifest (defaults to `import-manifest.json` inside the root directory).
+ * @property {ApiConnection} [connection] - Orvium instance to import into (defaults to the one configured in the environment).
+ * @property {ExistingDepositPolicy} [onExisting] - What to do with deposits that already exist in the community (defaults to `skip`).
+ * @property {ImportFailurePolicy} [onFailure] - What to do with the deposit of a folder whose import fails after it was created (defaults to `resume`).
+ */
+export interface BatchImportOptions {
+  concurrency?: number;
+  manifestPath?: string;
+  connection?: ApiConnection;
+  onExisting?: ExistingDepositPolicy;
+  onFailure?: ImportFailurePolicy;
+}
+
+/**
+ * The dry run result of one deposit folder of a batch: either its import plan or the reason it cannot be imported.
+ *
+ * @property {string} folder - The deposit folder, relative to the root directory.
+ * @property {ImportPlan} [plan] - The requests the import of the folder would make.
+ * @property {string} [error] - Why the folder cannot be imported (e.g. validation problems).
+ */
+export interface BatchImportPlan {
+  folder: string;
+  plan?: ImportPlan;
+  error?: string;
+}
+
+/**
+ * Recursively finds the deposit folders below a root directory. A folder is considered a deposit
+ * when it contains a `meta.json` file or another metadata file understood by the metadata readers
+ * (JATS XML, Crossref, DataCite, BibTeX or RIS); its subfolders are not scanned any further.
+ * Hidden folders (starting with a dot) are ignored.
+ *
+ * @param {string} rootPath - Directory to scan.
+ * @returns {string[]} The deposit folders found, relative to the root directory and sorted alphabetically.
+ */
+export function findDepositFolders(rootPath: string): string[] {
+  const folders: string[] = [];
+
+  const scan = (relativePath: string) => {
+    const entries = fs.readdirSync(path.join(rootPath, relativePath), {
+      withFileTypes: true,
+    });
+    for (const entry of entries) {
+      if (!entry.isDirectory() || entry.name.startsWith(".")) {
+        continue;
+      }
+      const folder = path.join(relativePath, entry.name);
+      if (findMetadataFile(path.join(rootPath, folder))) {
+        folders.push(folder);
+      } else {
+        scan(folder);
+      }
+    }
+  };
+
+  scan("");
+  return folders.sort();
+}
+
+/**
+ * Loads the run manifest from disk, or creates an empty one if it does not exist yet.
+ *
+ * @param {string} manifestPath - Path of the manifest file.
+ * @param {string} community - Community the deposits are imported into.
+ * @returns {ImportManifest} The manifest of the previous run or a new empty manifest.
+ * @throws {Error} Throws an error if an existing manifest was created for a different community.
+ */
+function loadManifest(manifestPath: string, community: string): ImportManifest {
+  if (!fs.existsSync(manifestPath)) {
+    const now = new Date().toISOString();
+    return { community, createdAt: now, updatedAt: now, deposits: {} };
+  }
+
+  const manifest: ImportManifest = JSON.parse(
+    fs.readFileSync(manifestPath, "utf8")
+  );
+  if (manifest.community !== community) {
+    throw new Error(
+      `Manifest ${manifestPath} belongs to community "${manifest.community}", not "${community}"`
+    );
+  }
+  return manifest;
+}
+
+// The DOI and source identifier of the deposit of a folder, read from its metadata; a folder whose metadata
+// cannot be read has none, and fails with the reason when it is imported
+function folderIdentity(folderPath: string): Omit<DepositIdentity, "_id"> {
+  try {
+    const { metadata } = readDepositMetadata(folderPath);
+    return { doi: metadata.doi, sourceId: metadata.sourceId };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Groups the folders of a batch that share a DOI (compared like `normalizeDoi`) or a source identifier, so that
+ * the folders of a group are imported one after the other and recognise the deposit created by the first one.
+ * A folder sharing one identifier with each of two groups joins them.
+ *
+ * @param {string[]} folders - The folders, in the order they are imported.
+ * @param {Map<string, object>} identities - The DOI and source identifier of every folder, if any.
+ * @returns {string[][]} The groups, each in the order of `folders`; a folder without identifiers is a group alone.
+ */
+export function groupByIdentity(folders: string[], identities: Map<string, Omit<DepositIdentity, "_id">>): string[][] {
+  const groups: string[][] = [];
+  const groupOfKey = new Map<string, string[]>();
+  for (const folder of folders) {
+    const { doi, sourceId } = identities.get(folder) ?? {};
+    const keys = [
+      ...(normalizeDoi(doi) ? [`doi:${normalizeDoi(doi)}`] : []),
+      ...(sourceId !== undefined ? [`sourceId:${sourceId}`] : []),
+    ];
+    const found = [...new Set(keys.map((key) => groupOfKey.get(key)).filter((group) => group !== undefined))];
+    let group = found[0];
+    if (!group) {
+      group = [];
+      groups.push(group);
+    }
+    // A folder sharing one identifier with each of two groups joins them into one
+    for (const other of found.slice(1)) {
+      group.push(...other);
+      groups.splice(groups.indexOf(other), 1);
+      for (const [key, value] of groupOfKey) {
+        if (value === other) {
+          groupOfKey.set(key, group);
+        }
+      }
+    }
+    if (found.length > 1) {
+      group.sort((first, second) => folders.indexOf(first) - folders.indexOf(second));
+    }
+    group.push(folder);
+    for (const key of keys) {
+      groupOfKey.set(key, group);
+    }
+  }
+  return groups;
+}
+
+function saveManifest(manifestPath: string, manifest: ImportManifest): void {
+  manifest.updatedAt = new Date().toISOString();
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+}
+
+/**
+ * Imports every deposit folder found below a root directory into an Orvium community.
+ * Folders are imported in parallel up to the concurrency limit, and the manifest is written after
+ * each folder finishes so an interrupted run can be resumed. Folders already marked as succeeded in
+ * the manifest are skipped. Folders whose deposit already exists in the community (same DOI or `sourceId`)
+ * are skipped, updated or replaced according to `options.onExisting`, including deposits created earlier in the
+ * same batch: folders with the same identifier are imported one after the other. Failed folders record the step they
+ * stopped at, and their created deposit is kept for the next run or deleted according to `options.onFailure`.
+ *
+ * @param {string} rootPath - Parent directory containing the deposit folders.
+ * @param {string} community - Orvium community where the deposits will be uploaded.
+ * @param {BatchImportOptions} [options] - Concurrency, manifest location, existing deposit and failure policies.
+ * @returns {Promise<ImportManifest>} A promise that resolves with the updated manifest once every folder has been processed.
+ */
+export async function importDeposits(
+  rootPath: string,
+  community: string,
+  options: BatchImportOptions = {}
+): Promise<ImportManifest> {
+  const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error("Concurrency must be a positive integer");
+  }
+  const connection = options.connection ?? connectionFromEnv();
+  const manifestPath =
+    options.manifestPath ?? path.join(rootPath, DEFAULT_MANIFEST_FILENAME);
+  const manifest = loadManifest(manifestPath, community);
+
+  const pending = findDepositFolders(rootPath).filter(
+    (folder) => manifest.deposits[folder]?.status !== "succeeded"
+  );
+  loggerOf(connection).info(
+    `Found ${pending.length} deposit folder(s) to import (${
+      Object.keys(manifest.deposits).length
+    } already in manifest)`
+  );
+
+  // List the community once, instead of once per folder, to recognise deposits that already exist. The
+  // deposits created by the batch are added to the list as they are created.
+  const existingDeposits: DepositIdentity[] =
+    pending.length > 0 ? await listCommunityDeposits(connection, community) : [];
+  const identities = new Map(
+    pending.map((folder) => [folder, folderIdentity(path.join(rootPath, folder))])
+  );
+  const groups = groupByIdentity(pending, identities);
+  const created = (folder: string, depositId: string) =>
+    existingDeposits.push({ _id: depositId, ...identities.get(folder) });
+
+  const importFolder = async (folder: string) => {
+    try {
+      const { depositId, action } = await importOrUpdateDeposit(
+        path.join(rootPath, folder),
+        community,
+        connection,
+        { onExisting: options.onExisting, onFailure: options.onFailure, existingDeposits }
+      );
+      if (action === "created") {
+        created(folder, depositId);
+      }
+      manifest.deposits[folder] = {
+        status: "succeeded",
+        depositId,
+        action,
+        updatedAt: new Date().toISOString(),
+      };
+    } catch (error: any) {
+      loggerOf(connection).error(`Error importing ${folder}: ${error?.message ?? error}`);
+      // The draft of a failed import is kept for the next run, unless it was rolled back
+      if (error?.depositId && options.onFailure !== "rollback") {
+        created(folder, error.depositId);
+      }
+      manifest.deposits[folder] = {
+        status: "failed",
+        depositId: error?.depositId,
+        error: error?.message ?? String(error),
+        step: error?.step,
+        updatedAt: new Date().toISOString(),
+      };
+    }
+    saveManifest(manifestPath, manifest);
+  };
+
+  let next = 0;
+  const worker = async () => {
+    while (next < groups.length) {
+      for (const folder of groups[next++]) {
+        await importFolder(folder);
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, groups.length) }, worker)
+  );
+  saveManifest(manifestPath, manifest);
+
+  return manifest;
+}
+
+/**
+ * Computes the import plan of every deposit folder that `importDeposits` would import with the same
+ * arguments, without calling the platform. The manifest is read to skip folders that already succeeded,
+ * but it is not written.
+ *
+ * @param {string} rootPath - Parent directory containing the deposit folders.
+ * @param {string} community - Orvium community where the deposits would be uploaded.
+ * @param {BatchImportOptions} [options] - Manifest location; the other options are ignored.
+ * @returns {BatchImportPlan[]} The plan or the error of every pending folder, sorted by folder.
+ */
+export function planDepositImports(
+  rootPath: string,
+  community: string,
+  options: BatchImportOptions = {}
+): BatchImportPlan[] {
+  const manifestPath =
+    options.manifestPath ?? path.join(rootPath, DEFAULT_MANIFEST_FILENAME);
+  const manifest = loadManifest(manifestPath, community);
+
+  return findDepositFolders(rootPath)
+    .filter((folder) => manifest.deposits[folder]?.status !== "succeeded")
+    .map((folder) => {
+      try {
+        return {
+          folder,
+          plan: planDepositImport(path.join(rootPath, folder), community),
+        };
+      } catch (error: any) {
+        return { folder, error: error?.message ?? String(error) };
+      }
+    });
+}
@@ -0,0 +1,100 @@
+/**
+ * Checkpoints of interrupted deposit imports.
+ *
+ * - Once a deposit has been created, the step the import reached is saved next to the deposit folder (or zip)
+ *   as `<folder>.import-checkpoint.json`, together with the deposit id and the upload details of its files.
+ * - When an import fails, importing the same folder again resumes from the failed step on the same deposit,
+ *   instead of leaving an orphaned draft and creating a new one.
+ * - The checkpoint records the instance and community of the deposit, so it is never resumed on another one.
+ * - The checkpoint is removed when the import completes, or when the draft is rolled back.
+ */
+import * as fs from "fs";
+import { ImportCheckpoint } from "./deposit-interfaces";
+
+const CHECKPOINT_SUFFIX = ".import-checkpoint.json";
+
+/**
+ * What to do with a deposit whose import fails after it has been created:
+ *
+ * - `resume`: keep the draft and its checkpoint, so importing the folder again resumes from the failed step.
+ * - `rollback`: delete the draft, so importing the folder again starts from scratch.
+ */
+export type ImportFailurePolicy = "resume" | "rollback";
+
+/**
+ * Every import failure policy, starting with the default one.
+ */
+export const IMPORT_FAILURE_POLICIES: ImportFailurePolicy[] = ["resume", "rollback"];
+
+/**
+ * Checks that a string names an import failure policy.
+ *
+ * @param {string} value - The value to check, e.g. a command line argument.
+ * @returns {boolean} True if the value is one of `IMPORT_FAILURE_POLICIES`.
+ */
+export function isImportFailurePolicy(value: string): value is ImportFailurePolicy {
+  return (IMPORT_FAILURE_POLICIES as string[]).includes(value);
+}
+
+/**
+ * Returns where the checkpoint of a deposit folder or archive is saved: next to it, so that it survives the
+ * temporary extraction of archives and does not become part of the deposit files.
+ *
+ * @param {string} source - The deposit folder or archive.
+ * @returns {string} The path of the checkpoint file.
+ */
+export function defaultCheckpointPath(source: string): string {
+  return `${source.replace(/[\\/]+$/, "")}${CHECKPOINT_SUFFIX}`;
+}
+
+// Compares API URLs without their trailing slashes
+function sameApiUrl(first: string | undefined, second: string): boolean {
+  return first !== undefined && first.replace(/\/+$/, "") === second.replace(/\/+$/, "");
+}
+
+/**
+ * Loads the checkpoint of an interrupted import. When the instance and community of the import are given, the
+ * checkpoint must belong to them: its deposit id means nothing to another instance or community.
+ *
+ * @param {string} checkpointPath - Path of the checkpoint file.
+ * @param {{ apiUrl: string, community: string }} [target] - The instance and community the folder is imported into.
+ * @returns {ImportCheckpoint | undefined} The checkpoint, or undefined if there is none.
+ * @throws {Error} Throws an error if the checkpoint was saved by an import into another instance or community.
+ */
+export function loadImportCheckpoint(
+  checkpointPath: string,
+  target?: { apiUrl: string; community: string }
+): ImportCheckpoint | undefined {
+  if (!fs.existsSync(checkpointPath)) {
+    return undefined;
+  }
+  const checkpoint: ImportCheckpoint = JSON.parse(fs.readFileSync(checkpointPath, "utf8"));
+  if (target && (!sameApiUrl(checkpoint.apiUrl, target.apiUrl) || checkpoint.community !== target.community)) {
+    throw new Error(
+      `Checkpoint ${checkpointPath} belongs to an import into "${checkpoint.community ?? "unknown"}" at ` +
+        `${checkpoint.apiUrl ?? "an unknown instance"}, not "${target.community}" at ${target.apiUrl}. ` +
+        `Import it there again to resume deposit ${checkpoint.depositId}, or remove the checkpoint to start over`
+    );
+  }
+  return checkpoint;
+}
+
+/**
+ * Saves the checkpoint of an import in progress.
+ *
+ * @param {string} checkpointPath - Path of the checkpoint file.
+ * @param {ImportCheckpoint} checkpoint - The progress of the import.
+ */
+export function saveImportCheckpoint(checkpointPath: string, checkpoint: ImportCheckpoint): void {
+  checkpoint.updatedAt = new Date().toISOString();
+  fs.writeFileSync(checkpointPath, JSON.stringify(checkpoint, null, 2));
+}
+
+/**
+ * Removes the checkpoint of an import that completed or was rolled back.
+ *
+ * @param {string} checkpointPath - Path of the checkpoint file.
+ */
+export function removeImportCheckpoint(checkpointPath: string): void {
+  fs.rmSync(checkpointPath, { force: true });
+}
@@ -4,40 +4,135 @@
  * CLI for importing deposits (metadata + manuscripts) into the Orvium platform.
  *
  * Usage:
- *   $ import-deposit <directory> <community>
- *   # or, if published:
- *   $ npx import-deposit <directory> <community>
+ *   $ orvium-tools import [--on-existing skip|update|replace] [--on-failure resume|rollback] <directory|archive.zip> [community]
+ *   $ orvium-tools import --batch [--concurrency <n>] [--manifest <file>] <directory> <community>
+ *   $ orvium-tools import --dry-run [--batch] <directory|archive.zip> [community]
+ *   # or through the alias:
+ *   $ orvium-tools-import <directory> <community>
  *
  * Arguments:
  *   <directory>  Path to the folder containing JSON metadata and manuscript files
+ *                (with --batch, the parent folder containing one subfolder per deposit)
+ *   <archive.zip> A deposit_<id>.zip produced by orvium-tools-export
  *   <community>  Community identifier to associate the deposit with
+ *                (optional for a single deposit: defaults to the community in meta.json)
+ *
+ * Options:
+ *   --batch             Import every subfolder containing a meta.json or another supported metadata file
+ *   --concurrency <n>   Number of deposits imported in parallel in batch mode (default 4)
+ *   --manifest <file>   Run manifest used to resume a batch (default <directory>/import-manifest.json)
+ *   --dry-run           Print the requests the import would make, without calling the API
+ *   --on-existing <policy>  What to do when a deposit with the same DOI or sourceId already exists:
+ *                       skip (default), update its metadata, or replace its metadata and files
+ *   --on-failure <policy>   What to do with the created deposit when a later step fails: resume (default) keeps it,
+ *                       and importing again continues from the failed step; rollback deletes it
+ *   (and the global options of cli.ts; --json prints the plan, the deposit id or the manifest as JSON)
  *
  * Behavior:
- *   - Loads environment variables via `dotenv` for API auth/config.
- *   - Validates required CLI arguments.
- *   - Calls `importDeposit(directory, community)` to perform the import/upload.
+ *   - Calls `importOrUpdateDeposit(directory, community, connection, { onExisting, onFailure })` to perform the import/upload,
+ *     or `importDeposits(directory, community, options)` in batch mode.
+ *   - With --dry-run, calls `planDepositImport` (or `planDepositImports` in batch mode) instead,
+ *     and exits with 1 if any deposit cannot be imported.
  *   - Prints the result or any errors.
- *
- * Notes:
- *   - Set ORVIUM_TOKEN / ORVIUM_API in your environment or .env if your core function uses them.
  */
 
-import { importDeposit } from "./import-deposit";
+import { CliCommand, EXIT_CODES, UsageError, runStandalone } from "./cli";
+import { formatImportPlan, importOrUpdateDeposit, planDepositImport } from "./import-deposit";
+import { EXISTING_DEPOSIT_POLICIES, isExistingDepositPolicy } from "./existing-deposits";
+import { IMPORT_FAILURE_POLICIES, isImportFailurePolicy } from "./import-checkpoint";
+import { importDeposits, planDepositImports } from "./import-batch";
 
-// --- Parse & validate args ---------------------------------------------------
+export const importCommand: CliCommand = {
+  name: "import",
+  summary: "Import a deposit folder or exported zip into a community, or every deposit folder below a directory",
+  usage: [
+    "[--on-existing <policy>] [--on-failure <policy>] [--dry-run] <directory|archive.zip> [community]",
+    "--batch [--concurrency <n>] [--manifest <file>] [--on-existing <policy>] [--on-failure <policy>]",
+    "  [--dry-run] <directory> <community>",
+  ],
+  arguments: [
+    ["<directory>", "Folder with meta.json (or another supported metadata file) and the files it references"],
+    ["<archive.zip>", "A deposit_<id>.zip produced by the export command"],
+    ["[community]", "Community of the deposits (defaults to the community in the metadata; required with --batch)"],
+  ],
+  options: {
+    batch: { type: "boolean", description: "Import every subfolder containing a supported metadata file" },
+    concurrency: { type: "string", value: "<n>", description: "Number of deposits imported in parallel with --batch (default 4)" },
+    manifest: { type: "string", value: "<file>", description: "Run manifest used to resume a batch (default <directory>/import-manifest.json)" },
+    "dry-run": { type: "boolean", description: "Print the requests the import would make, without calling the API" },
+    "on-existing": {
+      type: "string",
+      value: "<policy>",
+      description: "When a deposit with the same DOI or sourceId exists: skip (default), update its metadata, or replace its metadata and files",
+    },
+    "on-failure": {
+      type: "string",
+      value: "<policy>",
+      description: "When a step fails after the deposit was created: resume (default) keeps it for the next run, rollback deletes it",
+    },
+  },
 
-const [directoryPath, community] = process.argv.slice(2);
+  async run({ values, positionals }, context) {
+    const [directoryPath, community] = positionals;
+    const batch = values.batch === true;
+    const manifestPath = values.manifest as string | undefined;
+    const concurrency =
+      values.concurrency !== undefined ? Number(values.concurrency) : undefined;
 
-const USAGE = "Usage: orvium-tools-import <directory> <community>";
+    if (!directoryPath || (batch && !community)) {
+      throw new UsageError(batch ? "Missing <directory> or <community>" : "Missing <directory>");
+    }
+    if (concurrency !== undefined && (!Number.isInteger(concurrency) || concurrency < 1)) {
+      throw new UsageError("Invalid --concurrency. Expected a positive integer");
+    }
+    const onExisting = (values["on-existing"] as string | undefined) ?? "skip";
+    if (!isExistingDepositPolicy(onExisting)) {
+      throw new UsageError(`Invalid --on-existing. Expected one of: ${EXISTING_DEPOSIT_POLICIES.join(", ")}`);
+    }
+    const onFailure = (values["on-failure"] as string | undefined) ?? "resume";
+    if (!isImportFailurePolicy(onFailure)) {
+      throw new UsageError(`Invalid --on-failure. Expected one of: ${IMPORT_FAILURE_POLICIES.join(", ")}`);
+    }
 
-if (!directoryPath || !community) {
-  console.error(USAGE);
-  process.exit(2); // 2 = incorrect usage
-}
+    if (values["dry-run"]) {
+      const plans = batch
+        ? planDepositImports(directoryPath, community, { manifestPath })
+        : [{ folder: directoryPath, plan: planDepositImport(directoryPath, community), error: undefined }];
+      context.output(
+        batch ? plans : plans[0].plan,
+        plans
+          .map(({ folder, plan, error }) => (plan ? formatImportPlan(plan) : `Cannot import ${folder}: ${error}`))
+          .join("\n")
+      );
+      return plans.some((entry) => entry.error !== undefined) ? EXIT_CODES.failure : EXIT_CODES.success;
+    }
 
-// --- Execute -----------------------------------------------------------------
+    if (batch) {
+      const manifest = await importDeposits(directoryPath, community, {
+        concurrency,
+        manifestPath,
+        connection: context.connection(),
+        onExisting,
+        onFailure,
+      });
+      const results = Object.values(manifest.deposits);
+      const failed = results.filter((entry) => entry.status === "failed");
+      context.output(
+        manifest,
+        `Batch import finished: ${results.length - failed.length} succeeded, ${failed.length} failed`
+      );
+      return failed.length > 0 ? EXIT_CODES.failure : EXIT_CODES.success;
+    }
 
-importDeposit(directoryPath, community).catch((err) => {
-  console.error("Error during deposit import:", err?.message ?? err);
-  process.exit(1); // 1 = runtime error
-});
+    const { depositId, action } = await importOrUpdateDeposit(directoryPath, community, context.connection(), {
+      onExisting,
+      onFailure,
+    });
+    context.output({ source: directoryPath, depositId, action }, `Deposit id: ${depositId} (${action})`);
+    return EXIT_CODES.success;
+  },
+};
+
+if (require.main === module) {
+  runStandalone(importCommand, "orvium-tools-import");
+}
@@ -4,131 +4,328 @@
  * This module handles the full process of importing deposit data (including author information, 
  * metadata, keywords, community, and manuscript files) to the Orvium platform:
  *
- * - Load metadata from a local JSON file.
- * - Transform author data into the appropriate format for the Orvium platform.
+ * - Load metadata from a local JSON file, either from a directory or from a zip archive produced by `exportDeposit`.
+ *   JATS XML, Crossref, DataCite, BibTeX and RIS metadata files are mapped through the metadata readers.
+ * - Verify the checksums of exported deposits and validate the metadata against the published JSON Schema,
+ *   before any call to the platform.
+ * - Transform author data into the appropriate format for the Orvium platform, checking their ORCID iDs.
  * - Create a deposit entry by sending the metadata and author information to the platform.
  * - Generate a signed URL for securely uploading the manuscript to a cloud storage service (e.g., AWS S3).
- * - Upload the manuscript file using the pre-signed URL.
+ * - Upload the manuscript file using the pre-signed URL, in parts for large files when the platform supports it.
  * - Confirm the successful upload by sending metadata to the platform.
+ * - Upload the supplementary files and the optional PDF rendering listed in the metadata the same way.
+ * - Recognise a deposit that was already imported by its DOI or source identifier, and skip it, update its
+ *   metadata or replace its files instead of creating a duplicate.
+ * - Save the step each import reached, so a failed import resumes on the same deposit or deletes its draft.
+ * - Preview an import (dry run): compute every request above without calling the platform.
  *
- * The module uses `dotenv` for environment variables, `axios` for HTTP requests, and `fs` and `path` 
+ * The module uses `dotenv` for environment variables (through `api-connection`), `axios` for HTTP requests (through `transport`), and `fs` and `path` 
  * for file operations. It is designed to be used in automation processes or integrated into other
  * applications for deposit and manuscript management.
  *
  */ 
-import dotenv from 'dotenv';
-import axios, { AxiosResponse } from 'axios';
 import fs from 'fs';
+import os from 'os';
 import path from 'path';
-import {  Author, InputAuthor, Deposit, ManuscriptMetadata, UploadSignedUrlResponse }from './deposit-interfaces';
+import { Readable, pipeline } from 'stream';
+import AdmZip from 'adm-zip';
+import {  Author, InputAuthor, Deposit, DepositFile, DepositMetadata, ImportAction, ImportCheckpoint, ManuscriptMetadata, UploadSignedUrlResponse }from './deposit-interfaces';
+import { ApiConnection, connectionFromEnv } from './api-connection';
+import { ApiStep, IntegrityError, OrviumError, StorageUploadError, ValidationError } from './errors';
+import { request } from './transport';
+import { Logger, consoleLogger, countingStream, loggerOf, reportProgress } from './logger';
+import { isExpiredSignedUrl, uploadFileInParts, usesMultipartUpload } from './multipart-upload';
+import { FileRole, resolveContentType } from './file-types';
+import { validateDepositDirectory } from './validate-deposit';
+import { readDepositMetadata } from './metadata-readers';
+import { hasArchiveManifest, verifyArchiveManifest } from './archive-manifest';
+import { DepositIdentity, ExistingDepositPolicy, findExistingDeposit } from './existing-deposits';
+import { getDepositById } from './export-deposit';
+import { isValidOrcid, nickNameOf, normalizeOrcid, normalizeRor } from './authors';
+import {
+    ImportFailurePolicy,
+    defaultCheckpointPath,
+    loadImportCheckpoint,
+    removeImportCheckpoint,
+    saveImportCheckpoint
+} from './import-checkpoint';
+
 
 /**
- * Load and prepare environment variables
+ * Flags sent when requesting a signed URL, telling the platform how the uploaded file must be treated.
+ *
+ * @property {boolean} isMainFile - True for the main manuscript, false for supplementary files.
+ * @property {boolean} replacePDF - True when the file is a PDF that replaces the PDF rendering of the manuscript.
+ * @property {boolean} [multipart] - True to ask for an upload in parts, for files of at least `multipartThreshold` bytes.
  */
+export interface FileUploadFlags {
+    isMainFile: boolean;
+    replacePDF: boolean;
+    multipart?: boolean;
+}
 
-dotenv.config();
+/**
+ * The flags of the upload of each role of file, the same whether the file comes from a deposit folder or from
+ * another instance: the PDF rendering belongs to the main file, which it replaces the PDF of.
+ */
+export const UPLOAD_FLAGS: Readonly<Record<FileRole, FileUploadFlags>> = {
+    manuscript: { isMainFile: true, replacePDF: false },
+    supplementary: { isMainFile: false, replacePDF: false },
+    pdf: { isMainFile: true, replacePDF: true },
+};
 
-//Obtain the api key from the env variable
-const API_KEY: string | undefined = process.env.API_KEY;  
-const API_KEY_USER: string | undefined = process.env.API_KEY_USER;
+// Query string of the signed URL request; `multipart` is only sent when asked for
+function uploadUrlParams(flags: FileUploadFlags): Record<string, unknown> {
+    const params: Record<string, unknown> = { isMainFile: flags.isMainFile, replacePDF: flags.replacePDF };
+    if (flags.multipart) {
+        params.multipart = true;
+    }
+    return params;
+}
 
-// Define the base URL and the required endpoint from the environment variables
-const API_URL: string | undefined = process.env.API_URL;
-const DEPOSIT_IMPORT_ENDPOINT: string = `${API_URL}/deposits/importBasicDeposit`;
-const UPLOAD_ENDPOINT = `${API_URL}/deposits/:id/files`;
+/**
+ * A file of a deposit folder ready to be uploaded.
+ *
+ * @property {string} filePath - The path of the local file.
+ * @property {ManuscriptMetadata} fileMetadata - The metadata sent when requesting the signed URL.
+ * @property {FileUploadFlags} flags - Whether the file is the main manuscript and whether it replaces the deposit PDF.
+ * @property {DepositFile} file - The entry of `meta.json` describing the file.
+ * @property {FileRole} role - Whether the file is the main manuscript, a supplementary file or the PDF rendering.
+ */
+export interface PlannedUpload {
+    filePath: string;
+    fileMetadata: ManuscriptMetadata;
+    flags: FileUploadFlags;
+    file: DepositFile;
+    role: FileRole;
+}
 
-// Check if the necessary environment variable are provided, otherwise exit
-if (!API_KEY || !API_KEY_USER || !API_URL) {
-  console.error('Missing required environment variables: API_KEY, API_USER and API_URL are not set.');
-  process.exit(1);  // Exit the process with a status code of 1 for an error
+/**
+ * An API request that an import would make, as shown by a dry run. Paths are relative to the API URL of the
+ * instance, and `{depositId}` stands for the identifier the platform assigns when the deposit is created.
+ *
+ * @property {string} method - The HTTP method.
+ * @property {string} path - The endpoint path, e.g. `/deposits/importBasicDeposit`.
+ * @property {Record<string, unknown>} [params] - The query string parameters.
+ * @property {unknown} body - The JSON body.
+ */
+export interface PlannedRequest {
+    method: string;
+    path: string;
+    params?: Record<string, unknown>;
+    body: unknown;
+}
+
+/**
+ * A file upload that an import would perform: the request for a signed URL, followed by the upload of the
+ * file to that URL and the confirmation of the upload.
+ *
+ * @property {string} filename - The name of the file in the deposit folder.
+ * @property {FileRole} role - Whether the file is the main manuscript, a supplementary file or the PDF rendering.
+ * @property {PlannedRequest} generateUploadUrl - The request for the signed URL, with the computed file metadata.
+ * @property {string} [description] - The description stored in the file metadata when the upload is confirmed.
+ * @property {string[]} [tags] - The tags stored in the file metadata when the upload is confirmed.
+ */
+export interface PlannedFileUpload {
+    filename: string;
+    role: FileRole;
+    generateUploadUrl: PlannedRequest;
+    description?: string;
+    tags?: string[];
 }
 
+/**
+ * Everything the import of a deposit folder would send to the platform, computed without calling the API.
+ *
+ * @property {string} source - The deposit directory or archive the plan was computed from.
+ * @property {PlannedRequest} importBasicDeposit - The request creating the deposit, with the transformed metadata.
+ * @property {PlannedFileUpload[]} uploads - The file uploads, in the order they would be performed.
+ */
+export interface ImportPlan {
+    source: string;
+    importBasicDeposit: PlannedRequest;
+    uploads: PlannedFileUpload[];
+}
+
+/**
+ * Options accepted by `importDeposit` and `importOrUpdateDeposit`.
+ *
+ * @property {boolean} [dryRun] - Print what would be sent to the platform instead of importing the deposit.
+ * @property {ExistingDepositPolicy} [onExisting] - What to do when a deposit with the same DOI or source identifier already exists (defaults to `skip`).
+ * @property {DepositIdentity[]} [existingDeposits] - The deposits of the community, if already listed, instead of listing them for every import.
+ * @property {ImportFailurePolicy} [onFailure] - What to do with the created deposit when a later step fails (defaults to `resume`).
+ * @property {string} [checkpointPath] - Where the progress of the import is saved (defaults to `<folder>.import-checkpoint.json`).
+ * @property {Logger} [logger] - Receives the messages and progress events of `importDeposit`, which has no connection argument; the other functions use the logger of their connection.
+ */
+export interface ImportDepositOptions {
+    dryRun?: boolean;
+    onExisting?: ExistingDepositPolicy;
+    existingDeposits?: DepositIdentity[];
+    onFailure?: ImportFailurePolicy;
+    checkpointPath?: string;
+    logger?: Logger;
+}
 
 /**
- * Loads a JSON file from the specified file path and returns its content as an object.
- * This function synchronously reads the file located at the given path and parses the JSON content.
+ * Outcome of importing a deposit folder.
  *
- * @param {string} directoryPath - The relative or absolute path to the dir with the meta JSON file to be loaded.
- * @returns {Object} Returns the parsed JSON object from the file.
- * @throws {Error} Throws an error if the file cannot be read or if the JSON cannot be parsed.
+ * @property {string} depositId - The identifier of the deposit in Orvium, created or already existing.
+ * @property {ImportAction} action - Whether the deposit was created, or the existing one skipped, updated or replaced.
  */
-function loadJsonFile(directoryPath: string) {
- 
- // Append 'meta.json' to the provided directory path
- const metaPath: string = path.join(directoryPath, 'meta.json'); 
- 
- try {
-      // Reading the meta data json file  
-      const absolutePath = path.resolve(metaPath); 
-      const metaData = fs.readFileSync(absolutePath, 'utf8');
-      return JSON.parse(metaData);
-  } catch (error) {
-      console.error('Error reading JSON file:', error);
-      throw error;
-  }
+export interface ImportResult {
+    depositId: string;
+    action: ImportAction;
 }
 
 /**
  * Prepares the file payload including metadata such as name, type, size, and last modification time.
- * This function is specifically structured to fetch file metadata synchronously.
+ * This function is specifically structured to fetch file metadata synchronously. The MIME type is
+ * detected from the file content (or taken from `meta.json`) and checked against the formats
+ * accepted for the role of the file.
  *
  * @param {string} manuscriptPath - The full path to the file.
+ * @param {FileRole} [role] - Role of the file within the deposit (defaults to the main manuscript).
+ * @param {string} [contentType] - MIME type set in `meta.json`, overriding the detected one.
  * @returns {object} The file payload object necessary for uploads.
+ * @throws {Error} Throws an error if the file format is not accepted by the platform.
  */
-function createManuscriptMetadata(manuscriptPath: string): ManuscriptMetadata {
+export function createManuscriptMetadata(manuscriptPath: string, role: FileRole = 'manuscript', contentType?: string): ManuscriptMetadata {
   
     const fileStats = fs.statSync(manuscriptPath);  // Get file statistics synchronously
 
     return {
             file: {
                 name: path.basename(manuscriptPath),  // Extract the filename from the path
-                type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',  // MIME type (adjust as necessary)
+                type: resolveContentType(manuscriptPath, role, contentType),  // MIME type detected from the content
                 size: fileStats.size,  // File size in bytes
                 lastModified: fileStats.mtimeMs  // Last modified time in milliseconds
             }
     };
 }
 
+/**
+ * Checks whether the given path points to a zip archive (such as the `deposit_<id>.zip` produced by `exportDeposit`)
+ * instead of an unpacked deposit directory.
+ *
+ * @param {string} depositPath - Path to a deposit directory or archive.
+ * @returns {boolean} True if the path is a file with the `.zip` extension.
+ */
+export function isDepositArchive(depositPath: string): boolean {
+    return path.extname(depositPath).toLowerCase() === '.zip' && fs.statSync(depositPath).isFile();
+}
+
+/**
+ * Extracts a deposit zip archive into a new temporary directory so it can be imported like an unpacked deposit.
+ * The caller is responsible for removing the directory once the import has finished.
+ *
+ * @param {string} archivePath - Path to the zip archive containing `meta.json` and the manuscript file.
+ * @returns {string} The path of the temporary directory with the extracted files.
+ */
+export function extractDepositArchive(archivePath: string): string {
+    const extractPath = fs.mkdtempSync(path.join(os.tmpdir(), 'orvium-import-'));
+    new AdmZip(archivePath).extractAllTo(extractPath, true);
+    return extractPath;
+}
+
 /**
  * Transforms an author object from the input format to the desired format to be imported.
+ * Both the snake_case `InputAuthor` shape of external sources and the camelCase `Author` shape
+ * written by `exportDeposit` are accepted, so exported deposits can be imported again.
+ * The ORCID iD is normalised and its check digit verified, ROR ids are normalised to their URL,
+ * and the nickname is derived from the name of the author when none is given.
  * 
- * @param {InputAuthor} inputAuthor - The author object in the input format containing the required properties.
- * @returns {Author} Returns a new author object with properties formatted as firstName, lastName, and orcid.
+ * @param {InputAuthor | Author} inputAuthor - The author object in either input format.
+ * @returns {Author} Returns a new author object in the camelCase format of the platform.
+ * @throws {ValidationError} Throws a validation error if the ORCID iD is malformed or its check digit is wrong.
  * 
  */
-function transformAuthor(inputAuthor: InputAuthor): Author {
+export function transformAuthor(inputAuthor: InputAuthor | Author): Author {
+    const author: Author = 'first_name' in inputAuthor
+        ? {
+            firstName: inputAuthor.first_name,
+            middleName: inputAuthor.middle_name,
+            lastName: inputAuthor.last_name,
+            email: inputAuthor.email,
+            orcid: inputAuthor.orcid,
+            affiliations: inputAuthor.affiliations,
+            corresponding: inputAuthor.corresponding,
+            credit: inputAuthor.credit,
+            sourceId: inputAuthor.author_id != null ? String(inputAuthor.author_id) : undefined,
+            sourceUserId: inputAuthor.user_id != null ? String(inputAuthor.user_id) : undefined,
+        }
+        : {
+            firstName: inputAuthor.firstName,
+            middleName: inputAuthor.middleName,
+            lastName: inputAuthor.lastName,
+            nickName: inputAuthor.nickName,
+            email: inputAuthor.email,
+            orcid: inputAuthor.orcid,
+            affiliations: inputAuthor.affiliations,
+            corresponding: inputAuthor.corresponding,
+            credit: inputAuthor.credit,
+            sourceId: inputAuthor.sourceId,
+            sourceUserId: inputAuthor.sourceUserId,
+        };
+
+    // Exported deposits write empty strings for missing values
     return {
-        firstName: inputAuthor.first_name,
-        lastName: inputAuthor.last_name,
-        orcid: inputAuthor.orcid,
+        ...author,
+        middleName: author.middleName || undefined,
+        nickName: author.nickName || nickNameOf(author.firstName, author.middleName, author.lastName),
+        email: author.email || undefined,
+        orcid: author.orcid ? checkedOrcid(author) : undefined,
+        affiliations: author.affiliations?.map(({ name, ror }) => ({ name, ror: ror ? normalizeRor(ror) ?? ror : undefined })),
+        sourceId: author.sourceId || undefined,
+        sourceUserId: author.sourceUserId || undefined,
     };
 }
 
+/**
+ * Returns the ORCID iD of an author as `0000-0002-1825-0097`, after checking its check digit.
+ */
+function checkedOrcid(author: Author): string {
+    const orcid = normalizeOrcid(author.orcid ?? '');
+    if (!orcid || !isValidOrcid(orcid)) {
+        throw new ValidationError(`Invalid ORCID iD ${author.orcid} for author ${author.firstName} ${author.lastName}`, {
+            step: 'validateMetadata',
+            details: { orcid: author.orcid },
+        });
+    }
+    return orcid;
+}
+
+/**
+ * Returns the body of the `importBasicDeposit` request for a deposit: its metadata without the files,
+ * which are uploaded separately once the deposit exists.
+ *
+ * @param {Deposit} deposit - The deposit built from `meta.json`.
+ * @returns {object} The deposit metadata sent to the platform.
+ */
+export function importBasicDepositPayload(deposit: Deposit) {
+    return (({ manuscript, files, pdf, ...rest }) => rest)(deposit);
+}
+
 /**
  * Submits a deposit object to a server via a POST request and returns the unique deposit ID.
  * It expects the server response to include a unique identifier for the newly created deposit, which it then returns.
  *
- * @param {Deposit} deposit - The deposit object to be sent to the server. 
+ * @param {ApiConnection} connection - The Orvium instance where the deposit is created.
+ * @param {Deposit} deposit - The deposit object to be sent to the server.
  * @returns {Promise<string>} A promise that resolves with the deposit's unique identifier as a string.
- * @throws {Error} Throws an error if the deposit ID is not included in the server's response or if there is an issue with the HTTP request.
+ * @throws {OrviumError} Throws a typed error if the deposit ID is not included in the server's response or if there is an issue with the HTTP request.
  */
-async function importSingleDeposit(deposit: Deposit): Promise<string> {
-    try {  
-        const depositWithoutManuscript = (({ manuscript, ...rest }) => rest)(deposit);
-        const response: AxiosResponse<any> = await axios.post(DEPOSIT_IMPORT_ENDPOINT, depositWithoutManuscript, {
-        headers: { 
-            'x-api-key': API_KEY,
-            'x-api-key-user': API_KEY_USER }
-      });
-  
-      if (response.data && response.data._id) {
+export async function importSingleDeposit(connection: ApiConnection, deposit: Deposit): Promise<string> {
+    const depositWithoutManuscript = importBasicDepositPayload(deposit);
+    const response = await request(connection, { step: 'importBasicDeposit' }, {
+        method: 'POST',
+        url: `${connection.apiUrl}/deposits/importBasicDeposit`,
+        data: depositWithoutManuscript
+    });
+
+    if (response.data && response.data._id) {
         return response.data._id; // Return the deposit ID
-      } else {
-        throw new Error('Deposit ID not found in the response');
-      }
-    } catch (error: any) {
-      console.error('Error importing deposit:', error.response?.data || error.message);
-      throw error; // Properly handle the error by throwing
+    } else {
+        throw new OrviumError('Deposit ID not found in the response', { step: 'importBasicDeposit', details: response.data });
     }
 }
 
@@ -136,60 +333,67 @@ async function importSingleDeposit(deposit: Deposit): Promise<string> {
  * Asynchronously generates a signed URL for uploading a manuscript to S3, using manuscript metadata and deposit ID.
  * This function makes a POST request to a specified endpoint to obtain a signed URL, which can then be used to upload the manuscript.
  *
+ * @param {ApiConnection} connection - The Orvium instance that holds the deposit.
  * @param {string} depositId - The unique identifier for the deposit to which the manuscript will be uploaded.
  * @param {ManuscriptMetadata} manuscriptMetadata - The metadata for the manuscript that needs to be uploaded, including file name, type, size, etc.
- * @returns {Promise<string>} A promise that resolves with the signed URL needed for uploading the manuscript.
- * @throws {Error} Throws an error if the signed URL is not obtained from the response or if there is a network or server error.
+ * @param {FileUploadFlags} [flags] - Whether the file is the main manuscript, whether it replaces the deposit PDF and whether it is uploaded in parts (defaults to the main manuscript, in one request).
+ * @returns {Promise<UploadSignedUrlResponse>} A promise that resolves with the signed URL needed for uploading the manuscript, and the signed URLs of its parts for a multipart upload.
+ * @throws {OrviumError} Throws a typed error if the signed URL is not obtained from the response or if there is a network or server error.
  */ 
-async function generateManuscriptUploadUrl(depositId: string, manuscriptMetadata: ManuscriptMetadata): Promise<UploadSignedUrlResponse> {
-    const url = `${UPLOAD_ENDPOINT.replace(':id', depositId)}?isMainFile=true&replacePDF=false`;
-    try {
-        const response = await axios.post(url, manuscriptMetadata, {
-            headers: {
-                'x-api-key': API_KEY,
-                'x-api-key-user': API_KEY_USER // Use API key for authentication
-            }
-        });
+export async function generateManuscriptUploadUrl(connection: ApiConnection, depositId: string, manuscriptMetadata: ManuscriptMetadata, flags: FileUploadFlags = UPLOAD_FLAGS.manuscript): Promise<UploadSignedUrlResponse> {
+    const response = await request<UploadSignedUrlResponse>(connection, { step: 'generateUploadUrl', depositId }, {
+        method: 'POST',
+        url: `${connection.apiUrl}/deposits/${depositId}/files`,
+        params: uploadUrlParams(flags),
+        data: manuscriptMetadata
+    });
 
-        if (response) {
-            return response.data; // Return the signed URL to upload the manuscritp
-          } else {
-            throw new Error('Upload Signed Url not obtained');
-          }
-    } catch (error: any) {
-        console.error('Error getting the signed URL to upload the manuscript:', error.response?.data || error.message);
-        throw error; // Properly handle the error by throwing
-    }  
+    if (response.data?.signedUrl) {
+        return response.data; // Return the signed URL to upload the manuscritp
+    } else {
+        throw new OrviumError('Upload Signed Url not obtained', { step: 'generateUploadUrl', depositId, details: response.data });
+    }
 }
 
 /**
  * Uploads a manuscript to an S3 bucket using a pre-signed URL obtained from a service.
- * This function handles the streaming upload of a manuscript file located in a specified directory
- * to an Amazon S3 bucket using an HTTP PUT request. The necessary headers for the request, such as
- * Content-Type and Content-Length, are set based on the provided manuscript metadata.
+ * This function handles the streaming upload of a manuscript, either read from a local file or from
+ * any other stream (such as a download from another Orvium instance), to an Amazon S3 bucket using an
+ * HTTP PUT request. The necessary headers for the request, such as Content-Type and Content-Length,
+ * are set based on the provided manuscript metadata. Uploads from a local file are retried on transient
+ * errors; uploads from a stream cannot be repeated and are attempted once. The bytes sent so far are reported
+ * to the logger of the connection as `bytesUploaded` progress events.
  *
- * @param {string} manuscriptPath - The manuscript path where the manuscript is stored locally.
+ * @param {ApiConnection} connection - The Orvium instance the signed URL was obtained from.
+ * @param {string | Readable} manuscript - The manuscript path where the manuscript is stored locally, or a stream with its content.
  * @param {UploadSignedUrlResponse} uploadSignedUrlResponse - The response object containing the signed URL and other upload parameters.
  * @param {ManuscriptMetadata} manuscriptMetadata - Metadata about the manuscript, including the file size and other attributes.
+ * @param {string} [depositId] - The deposit the manuscript belongs to, reported in errors.
  * @returns {Promise<AxiosResponse>} A promise that resolves with the response from the S3 service upon successful upload.
- * @throws {Error} An error is thrown if the upload fails, with a message detailing the cause of the failure.
+ * @throws {StorageUploadError} An error is thrown if the upload fails, with a message detailing the cause of the failure.
  */
-async function uploadManuscriptToSignedUrl(manuscriptPath: string, uploadSignedUrlResponse: UploadSignedUrlResponse, manuscriptMetadata: ManuscriptMetadata) {
-    
-    const manuscritpStream = fs.createReadStream(manuscriptPath);
-    
-    try {
-        const response = await axios.put(uploadSignedUrlResponse.signedUrl, manuscritpStream, {
-            headers: {
-                  'Content-Type': 'application/octet-stream', // Set appropriate content type
-                  'Content-Length': manuscriptMetadata.file.size, // AWS S3 needs Content-Length set for PUT operations
-                }
-          });
-        return response;
-    } catch (error: any) {
-        console.error('Error uploading manuscript to signed URL:', error.message);
-        throw error; // Properly handle the error by throwing
-    }  
+export async function uploadManuscriptToSignedUrl(connection: ApiConnection, manuscript: string | Readable, uploadSignedUrlResponse: UploadSignedUrlResponse, manuscriptMetadata: ManuscriptMetadata, depositId?: string) {
+    const context = {
+        step: 'uploadToStorage' as const,
+        depositId,
+        storage: true,
+        retry: typeof manuscript === 'string',
+        errorClass: StorageUploadError
+    };
+    const { name: file, size: total } = manuscriptMetadata.file;
+    return request(connection, context, () => ({
+        method: 'PUT',
+        url: uploadSignedUrlResponse.signedUrl,
+        data: pipeline(
+            typeof manuscript === 'string' ? fs.createReadStream(manuscript) : manuscript,
+            countingStream((bytes) => reportProgress(connection, { type: 'bytesUploaded', depositId, file, bytes, total })),
+            () => undefined // Errors of the source reach the request through the counting stream
+        ),
+        headers: {
+              'Content-Type': manuscriptMetadata.file.type, // Same content type as declared in the file metadata
+              'Content-Length': manuscriptMetadata.file.size, // AWS S3 needs Content-Length set for PUT operations
+            }
+    }));
 }
 
 /**
@@ -198,77 +402,518 @@ async function uploadManuscriptToSignedUrl(manuscriptPath: string, uploadSignedU
  * uploaded to the designated storage based on the provided deposit ID. The function uses part of the upload
  * response (metadata without the signed URL) to make this confirmation.
  *
+ * @param {ApiConnection} connection - The Orvium instance that holds the deposit.
  * @param {string} depositId - The unique identifier for the deposit to which the manuscript has been uploaded.
  * @param {UploadSignedUrlResponse} uploadSignedUrlResponse - The response object from the upload attempt,
  *        containing the signed URL and other manuscript metadata.
  * @returns {Promise<AxiosResponse>} A promise that resolves with the server's response to the confirmation request.
- * @throws {Error} Throws an error if the confirmation fails, with a message detailing the cause of the failure.
+ * @throws {OrviumError} Throws a typed error if the confirmation fails, with a message detailing the cause of the failure.
+ */
+export async function confirmManuscriptImported(connection: ApiConnection, depositId: string, uploadSignedUrlResponse: UploadSignedUrlResponse  ) {
+    const { signedUrl, multipart, ...manuscriptImportedMetadata } = uploadSignedUrlResponse;
+    return request(connection, { step: 'confirmUpload', depositId }, {
+        method: 'PATCH',
+        url: `${connection.apiUrl}/deposits/${depositId}/files/confirm`,
+        data: manuscriptImportedMetadata
+    });
+}
+
+/**
+ * Updates the metadata of an existing deposit (title, abstract, authors, disciplines, keywords and identifiers).
+ * The community and the files of the deposit are left unchanged.
+ *
+ * @param {ApiConnection} connection - The Orvium instance that holds the deposit.
+ * @param {string} depositId - The unique identifier of the deposit to update.
+ * @param {Deposit} deposit - The deposit built from `meta.json`.
+ * @returns {Promise<AxiosResponse>} A promise that resolves with the server's response to the update.
+ * @throws {OrviumError} Throws a typed error if the update fails.
+ */
+export async function updateDepositMetadata(connection: ApiConnection, depositId: string, deposit: Deposit) {
+    const { community, ...metadata } = importBasicDepositPayload(deposit);
+    return request(connection, { step: 'updateDeposit', depositId }, {
+        method: 'PATCH',
+        url: `${connection.apiUrl}/deposits/${depositId}`,
+        data: metadata
+    });
+}
+
+/**
+ * Deletes a supplementary file of a deposit.
+ *
+ * @param {ApiConnection} connection - The Orvium instance that holds the deposit.
+ * @param {string} depositId - The unique identifier of the deposit.
+ * @param {string} filename - The name of the file to delete.
+ * @returns {Promise<AxiosResponse>} A promise that resolves with the server's response to the deletion.
+ * @throws {OrviumError} Throws a typed error if the deletion fails.
+ */
+export async function deleteDepositFile(connection: ApiConnection, depositId: string, filename: string) {
+    return request(connection, { step: 'deleteFile', depositId }, {
+        method: 'DELETE',
+        url: `${connection.apiUrl}/deposits/${depositId}/files/${encodeURIComponent(filename)}`
+    });
+}
+
+/**
+ * Deletes a deposit, e.g. the draft left behind by an import that failed.
+ *
+ * @param {ApiConnection} connection - The Orvium instance that holds the deposit.
+ * @param {string} depositId - The unique identifier of the deposit to delete.
+ * @returns {Promise<AxiosResponse>} A promise that resolves with the server's response to the deletion.
+ * @throws {OrviumError} Throws a typed error if the deletion fails.
  */
-async function confirmManuscriptImported(depositId: string, uploadSignedUrlResponse: UploadSignedUrlResponse  ) {
-    const confirm_url = `${API_URL}/deposits/${depositId}/files/confirm`; 
-    const { signedUrl, ...manuscriptImportedMetadata } = uploadSignedUrlResponse;
+export async function deleteDeposit(connection: ApiConnection, depositId: string) {
+    return request(connection, { step: 'deleteDeposit', depositId }, {
+        method: 'DELETE',
+        url: `${connection.apiUrl}/deposits/${depositId}`
+    });
+}
+
+/**
+ * Computes the uploads of a deposit folder: the main manuscript, the supplementary files and the PDF rendering.
+ * The metadata of every file is computed up front, so a file in an unsupported format is rejected before
+ * anything is created in Orvium.
+ *
+ * @param {string} directoryPath - Directory with the deposit files.
+ * @param {Deposit} deposit - The deposit built from `meta.json`.
+ * @returns {PlannedUpload[]} The uploads, in the order they must be performed.
+ * @throws {Error} Throws an error if a file is missing or its format is not accepted.
+ */
+export function planDepositUploads(directoryPath: string, deposit: Deposit): PlannedUpload[] {
+    const plan = (file: DepositFile, role: FileRole): PlannedUpload => {
+        const filePath = path.join(directoryPath, file.filename);
+        return { filePath, fileMetadata: createManuscriptMetadata(filePath, role, file.contentType), flags: UPLOAD_FLAGS[role], file, role };
+    };
+
+    const uploads = [plan(deposit.manuscript, 'manuscript')];
+    for (const file of deposit.files ?? []) {
+        uploads.push(plan(file, 'supplementary'));
+    }
+    if (deposit.pdf) {
+        uploads.push(plan(deposit.pdf, 'pdf'));
+    }
+    return uploads;
+}
+
+/**
+ * Uploads a local file to a deposit: requests a signed URL, uploads the file to it and confirms the upload.
+ * The description and tags, when given, are stored in the file metadata sent with the confirmation.
+ *
+ * @param {ApiConnection} connection - The Orvium instance that holds the deposit.
+ * @param {string} depositId - The unique identifier of the deposit the file belongs to.
+ * @param {PlannedUpload} upload - The file, its metadata and upload flags, as computed by `planDepositUploads`.
+ * @returns {Promise<UploadSignedUrlResponse>} A promise that resolves with the upload details once the upload is confirmed.
+ * @throws {OrviumError} Throws a typed error if any of the three steps fails.
+ */
+export async function uploadDepositFile(connection: ApiConnection, depositId: string, upload: PlannedUpload): Promise<UploadSignedUrlResponse> {
+    const { filePath, fileMetadata, flags, file } = upload;
+    const multipart = usesMultipartUpload(connection, fileMetadata);
+    const uploadSignedUrlResponse = await generateManuscriptUploadUrl(connection, depositId, fileMetadata, { ...flags, multipart });
+
+    if (uploadSignedUrlResponse.multipart) {
+        await uploadFileInParts(connection, filePath, uploadSignedUrlResponse.multipart, fileMetadata, depositId);
+    } else {
+        await uploadManuscriptToSignedUrl(connection, filePath, uploadSignedUrlResponse, fileMetadata, depositId);
+    }
+
+    await confirmManuscriptImported(connection, depositId, withFileDescription(uploadSignedUrlResponse, file));
+
+    return uploadSignedUrlResponse;
+}
+
+/**
+ * Stores the description and tags of a `meta.json` file entry, when given, in the file metadata of a signed URL response.
+ */
+function withFileDescription(uploadSignedUrlResponse: UploadSignedUrlResponse, file: DepositFile): UploadSignedUrlResponse {
+    if (file.description !== undefined || file.tags !== undefined) {
+        uploadSignedUrlResponse.fileMetadata = {
+            ...uploadSignedUrlResponse.fileMetadata,
+            description: file.description ?? uploadSignedUrlResponse.fileMetadata?.description,
+            tags: file.tags ?? uploadSignedUrlResponse.fileMetadata?.tags,
+        };
+    }
+    return uploadSignedUrlResponse;
+}
+
+/**
+ * Uploads the files of a created deposit, saving the checkpoint after every step. Files whose upload was already
+ * confirmed are skipped, and a file already uploaded to storage is only confirmed, with its saved upload details.
+ * A large file uploaded in parts saves every part stored, so a resumed import only sends the remaining parts, unless
+ * the signed URLs of the parts expired in the meantime: the file is then uploaded again from its first part.
+ * The checkpoint is removed once every file is confirmed.
+ *
+ * When a step fails, the checkpoint records it and keeps the deposit for a later resumption; with the `rollback`
+ * policy the deposit is deleted instead. Either way the error of the failed step is rethrown.
+ */
+async function uploadDepositFiles(connection: ApiConnection, uploads: PlannedUpload[], checkpoint: ImportCheckpoint, checkpointPath: string, onFailure: ImportFailurePolicy = 'resume'): Promise<void> {
+    const { depositId } = checkpoint;
+    const reach = (step: ApiStep) => {
+        checkpoint.step = step;
+        saveImportCheckpoint(checkpointPath, checkpoint);
+    };
+
+    // Uploads a file to storage; a large file whose upload in parts was started goes on with the parts not stored yet
+    const store = async (upload: PlannedUpload, started?: ImportCheckpoint['multipart']): Promise<UploadSignedUrlResponse> => {
+        const { filePath, fileMetadata, flags, file } = upload;
+        let uploadSignedUrlResponse = started?.upload;
+        if (!uploadSignedUrlResponse) {
+            reach('generateUploadUrl');
+            const multipart = usesMultipartUpload(connection, fileMetadata);
+            uploadSignedUrlResponse = await generateManuscriptUploadUrl(connection, depositId, fileMetadata, { ...flags, multipart });
+        }
+        reach('uploadToStorage');
+        if (uploadSignedUrlResponse.multipart) {
+            const parts = started?.parts ?? [];
+            checkpoint.multipart = { filename: file.filename, upload: uploadSignedUrlResponse, parts };
+            await uploadFileInParts(connection, filePath, uploadSignedUrlResponse.multipart, fileMetadata, depositId, {
+                uploaded: parts,
+                onPart: (part) => {
+                    parts.push(part);
+                    saveImportCheckpoint(checkpointPath, checkpoint);
+                },
+            });
+            checkpoint.multipart = undefined;
+        } else {
+            await uploadManuscriptToSignedUrl(connection, filePath, uploadSignedUrlResponse, fileMetadata, depositId);
+        }
+        return uploadSignedUrlResponse;
+    };
+
     try {
-        const confirmResponse = await axios.patch(confirm_url, manuscriptImportedMetadata, {
-            headers: {
-                'x-api-key': API_KEY, // Use API key for authentication
-                'x-api-key-user': API_KEY_USER
+        for (const upload of uploads) {
+            const { file } = upload;
+            if (checkpoint.completed.includes(file.filename)) {
+                continue;
             }
-        });
-        return confirmResponse;
+            if (checkpoint.stored?.filename !== file.filename) {
+                const started = checkpoint.multipart?.filename === file.filename ? checkpoint.multipart : undefined;
+                let uploadSignedUrlResponse: UploadSignedUrlResponse;
+                try {
+                    uploadSignedUrlResponse = await store(upload, started);
+                } catch (error) {
+                    if (!started || !isExpiredSignedUrl(error)) {
+                        throw error;
+                    }
+                    // The signed URLs saved by an earlier run expired, and the parts stored with them are lost
+                    loggerOf(connection).warn(`The signed URLs of ${file.filename} expired, uploading it again`);
+                    checkpoint.multipart = undefined;
+                    uploadSignedUrlResponse = await store(upload);
+                }
+                checkpoint.stored = { filename: file.filename, upload: withFileDescription(uploadSignedUrlResponse, file) };
+            }
+            reach('confirmUpload');
+            await confirmManuscriptImported(connection, depositId, checkpoint.stored.upload);
+            checkpoint.completed.push(file.filename);
+            checkpoint.stored = undefined;
+        }
+    } catch (error: any) {
+        checkpoint.error = error?.message ?? String(error);
+        if (isExpiredSignedUrl(error)) {
+            // A resumed import could not use the signed URLs either: it requests new ones
+            checkpoint.multipart = undefined;
+        }
+        saveImportCheckpoint(checkpointPath, checkpoint);
+        if (onFailure === 'rollback') {
+            await rollbackDeposit(connection, depositId, checkpointPath);
+        } else {
+            loggerOf(connection).error(`Import of ${checkpoint.source} stopped at ${checkpoint.step}, deposit ${depositId} kept: import it again to resume`);
+        }
+        throw error;
+    }
+    removeImportCheckpoint(checkpointPath);
+}
+
+/**
+ * Deletes the draft of a failed import and its checkpoint. If the deletion fails too, the checkpoint is kept,
+ * so that the import can still be resumed.
+ */
+async function rollbackDeposit(connection: ApiConnection, depositId: string, checkpointPath: string): Promise<void> {
+    try {
+        await deleteDeposit(connection, depositId);
+        removeImportCheckpoint(checkpointPath);
+        loggerOf(connection).info(`Deposit ${depositId} deleted after the failed import`);
     } catch (error: any) {
-        console.error('Error confirming the manuscript upload:', error.message);
-        throw error; // Properly handle the error by throwing
-    }  
+        loggerOf(connection).error(`Deposit ${depositId} could not be deleted, its checkpoint is kept at ${checkpointPath}: ${error?.message ?? error}`);
+    }
 }
 
+/**
+ * Validates an unpacked deposit folder and builds the deposit and the uploads that importing it requires.
+ * Nothing is sent to the platform, so the result can be used both to import the folder and to preview the import.
+ *
+ * @param {string} directoryPath - Directory with the deposit manuscript and metadata.
+ * @param {string} [community] - Orvium community where the deposit will be uploaded. Defaults to the community in `meta.json`.
+ * @returns {{ deposit: Deposit, uploads: PlannedUpload[] }} The deposit built from `meta.json` and its uploads, in order.
+ * @throws {IntegrityError} Throws an integrity error if the folder has a `manifest.json` that its files do not match.
+ * @throws {ValidationError} Throws a validation error listing every problem of `meta.json` and the files it references.
+ * @throws {Error} Throws an error if no community is given or found in `meta.json`.
+ */
+export function prepareDepositImport(directoryPath: string, community?: string): { deposit: Deposit, uploads: PlannedUpload[] } {
+    // Exported deposits carry the checksums of their files, which must match before anything else is read
+    if (hasArchiveManifest(directoryPath)) {
+        const corrupted = verifyArchiveManifest(directoryPath);
+        if (corrupted.length > 0) {
+            const summary = corrupted.map((problem) => `${problem.file} ${problem.message}`).join('; ');
+            throw new IntegrityError(`Corrupted deposit ${directoryPath}: ${summary}`, { step: 'verifyManifest', details: corrupted });
+        }
+    }
+
+    // Validate meta.json and the files it references before making any API call
+    const problems = validateDepositDirectory(directoryPath);
+    if (problems.length > 0) {
+        const summary = problems.map((problem) => `${problem.path} ${problem.message}`).join('; ');
+        throw new ValidationError(`Invalid deposit ${directoryPath}: ${summary}`, { step: 'validateMetadata', details: problems });
+    }
+
+    const metaData = readDepositMetadata(directoryPath).metadata as DepositMetadata;
+
+    const depositCommunity = community || metaData.community;
+    if (!depositCommunity) {
+        throw new Error('No community provided and none found in the deposit metadata');
+    }
+
+    const deposit: Deposit = {
+        title: metaData.title,
+        abstract: metaData.abstract,
+        community: depositCommunity,
+        authors: metaData.authors.map(transformAuthor),
+        disciplines: metaData.disciplines ?? [],
+        keywords: metaData.keywords ?? [],
+        manuscript: {
+            filename: metaData.manuscript.filename,
+            contentType: metaData.manuscript.contentType,
+        },
+        files: metaData.files ?? [],
+        pdf: metaData.pdf,
+        doi: metaData.doi,
+        sourceId: metaData.sourceId,
+    };
+
+    // Check every file and compute its metadata before creating anything
+    const uploads = planDepositUploads(directoryPath, deposit);
+
+    return { deposit, uploads };
+}
 
 /**
- * Handles the full process of importing a deposit based on metadata loaded from a specified directory.
- * This function orchestrates several steps to fully integrate a manuscript into the system: it loads metadata,
- * creates a deposit, uploads the manuscript to a pre-signed URL, and finally confirms the manuscript upload.
+ * Runs the full import of a single deposit folder and resolves with the identifier of the deposit.
+ * Errors are rethrown, so callers that need to know the outcome of each import (e.g. the batch importer)
+ * can record failures. See `importOrUpdateDeposit` for what happens when the deposit already exists or
+ * a step fails after the deposit was created.
  *
- * @param directoryPath - Directory with the deposit manuscript and metadata
- * @param community - Orvium community where the deposit will be uploaded
- * @returns {Promise<void>} - A promise that resolves if the entire deposit process completes successfully.
+ * @param directoryPath - Directory with the deposit manuscript and metadata, or a deposit zip archive
+ * @param community - Orvium community where the deposit will be uploaded. Defaults to the community in `meta.json`
+ * @param connection - Orvium instance where the deposit is imported. Defaults to the one configured in the environment
+ * @param options - What to do when the deposit already exists or a step fails
+ * @returns {Promise<string>} - A promise that resolves with the deposit ID once the import is complete.
  * @throws {Error} - Throws an error if any step in the deposit, upload, or confirmation process fails.
- */  
-export async function importDeposit(directoryPath: string, community: string): Promise<void> {
-    try {
-        const metaData = loadJsonFile(directoryPath);
-    
-        const deposit: Deposit = {
-            title: metaData.title,
-            abstract: metaData.abstract,
-            community: community, 
-            authors: metaData.authors.map(transformAuthor),
-            disciplines: metaData.disciplines,
-            keywords: metaData.keywords, 
-            manuscript: {
-                filename: metaData.manuscript.filename,
-            }
+ */
+export async function importDepositFromDirectory(directoryPath: string, community?: string, connection: ApiConnection = connectionFromEnv(), options: ImportDepositOptions = {}): Promise<string> {
+    const { depositId } = await importOrUpdateDeposit(directoryPath, community, connection, options);
+    return depositId;
+}
+
+/**
+ * Imports a single deposit folder unless it already exists. The deposits of the community are searched
+ * for one with the same DOI or `sourceId` as the folder metadata; if there is none, the deposit is created
+ * and its files uploaded. Otherwise `options.onExisting` decides what happens:
+ *
+ * - `skip` (default): the existing deposit is left untouched.
+ * - `update`: the metadata of the existing deposit is updated, its files are kept.
+ * - `replace`: the metadata is updated, the supplementary files are deleted and every file of the folder is uploaded again.
+ *
+ * Deposits whose metadata has neither a DOI nor a `sourceId` are always created.
+ *
+ * Once a deposit is created, the step its import reached is saved in a checkpoint next to the folder. If a later
+ * step fails, `options.onFailure` decides what happens to the draft: with `resume` (default) it is kept, and
+ * importing the folder again continues from the failed step on the same deposit; with `rollback` it is deleted.
+ *
+ * @param directoryPath - Directory with the deposit manuscript and metadata, or a deposit zip archive
+ * @param community - Orvium community where the deposit will be uploaded. Defaults to the community in `meta.json`
+ * @param connection - Orvium instance where the deposit is imported. Defaults to the one configured in the environment
+ * @param options - What to do when the deposit already exists or a step fails, and the already listed deposits of the community
+ * @returns {Promise<ImportResult>} - A promise that resolves with the deposit ID and what the import did.
+ * @throws {Error} - Throws the error of the step that failed during the lookup, creation, update or uploads.
+ */
+export async function importOrUpdateDeposit(directoryPath: string, community?: string, connection: ApiConnection = connectionFromEnv(), options: ImportDepositOptions = {}): Promise<ImportResult> {
+    if (isDepositArchive(directoryPath)) {
+        const extractPath = extractDepositArchive(directoryPath);
+        try {
+            return await importDepositFolder(directoryPath, extractPath, community, connection, options);
+        } finally {
+            fs.rmSync(extractPath, { recursive: true, force: true });
         }
+    }
+    return importDepositFolder(directoryPath, directoryPath, community, connection, options);
+}
 
-        //Extract the manuscript name and type from metadata.json
-        const manuscriptName = deposit.manuscript.filename;
+/**
+ * Imports the unpacked deposit folder of `source` (the folder itself, or the zip archive it was extracted from),
+ * as described by `importOrUpdateDeposit`.
+ */
+async function importDepositFolder(source: string, directoryPath: string, community: string | undefined, connection: ApiConnection, options: ImportDepositOptions): Promise<ImportResult> {
+    const { deposit, uploads } = prepareDepositImport(directoryPath, community);
+    const checkpointPath = options.checkpointPath ?? defaultCheckpointPath(source);
 
+    // A previous import of this folder created the deposit and failed: resume it instead of creating another one
+    const checkpoint = loadImportCheckpoint(checkpointPath, { apiUrl: connection.apiUrl, community: deposit.community });
+    if (checkpoint) {
+        loggerOf(connection).info(`Resuming the import of ${deposit.title} (${checkpoint.depositId}) at ${checkpoint.step}`);
+        checkpoint.error = undefined;
+        await uploadDepositFiles(connection, uploads, checkpoint, checkpointPath, options.onFailure);
+        loggerOf(connection).info(`Deposit imported Successfully: ${deposit.title}`);
+        return { depositId: checkpoint.depositId, action: 'created' };
+    }
+
+    const existing = await findExistingDeposit(connection, deposit, options.existingDeposits);
+    if (!existing) {
         // Import the deposit and get the deposit ID
-        const depositId = await importSingleDeposit(deposit);
- 
-        // Getting SignedUrl
-        const manuscriptPath: string = path.join(directoryPath, manuscriptName); 
-        const manuscriptMetadata = await createManuscriptMetadata(manuscriptPath);
-        const uploadSignedUrlResponse = await generateManuscriptUploadUrl(depositId, manuscriptMetadata);
+        const depositId = await importSingleDeposit(connection, deposit);
 
-        // Upload to signedUrl
-        const uploadStatus = await uploadManuscriptToSignedUrl(manuscriptPath, uploadSignedUrlResponse, manuscriptMetadata);
-        
-        // Confirm and change metadata
-        await confirmManuscriptImported(depositId, uploadSignedUrlResponse); 
-        console.log('Deposit imported Successfully: ', deposit.title);
+        // Upload the manuscript, the supplementary files and the PDF rendering to their signedUrl and confirm them
+        await uploadDepositFiles(connection, uploads, {
+            source,
+            apiUrl: connection.apiUrl,
+            community: deposit.community,
+            depositId,
+            step: 'importBasicDeposit',
+            completed: [],
+            updatedAt: new Date().toISOString(),
+        }, checkpointPath, options.onFailure);
+        loggerOf(connection).info(`Deposit imported Successfully: ${deposit.title}`);
+        return { depositId, action: 'created' };
+    }
 
+    const depositId = existing._id;
+    const policy = options.onExisting ?? 'skip';
+    if (policy === 'skip') {
+        loggerOf(connection).info(`Deposit already exists, skipped: ${deposit.title} (${depositId})`);
+        return { depositId, action: 'skipped' };
+    }
 
+    await updateDepositMetadata(connection, depositId, deposit);
+    if (policy === 'replace') {
+        // Uploading the manuscript and the PDF replaces them, but supplementary files are added next to the existing ones
+        const current = await getDepositById(connection, depositId);
+        for (const file of current.files ?? []) {
+            await deleteDepositFile(connection, depositId, file.filename);
+        }
+        for (const upload of uploads) {
+            await uploadDepositFile(connection, depositId, upload);
+        }
+    }
+    const action = policy === 'replace' ? 'replaced' : 'updated';
+    loggerOf(connection).info(`Deposit already exists, ${action}: ${deposit.title} (${depositId})`);
+    return { depositId, action };
+}
 
-    } catch (error) {
-        console.error('An error occurred during import or upload:', error);
+/**
+ * Computes what importing a deposit folder would send to the platform, without making any API call:
+ * `meta.json` is validated, the authors are transformed and the metadata of every file is computed
+ * exactly as during a real import.
+ *
+ * @param {string} directoryPath - Directory with the deposit manuscript and metadata, or a deposit zip archive.
+ * @param {string} [community] - Orvium community where the deposit would be uploaded. Defaults to the community in `meta.json`.
+ * @returns {ImportPlan} The `importBasicDeposit` request and the file uploads that the import would perform.
+ * @throws {IntegrityError} Throws an integrity error if the folder has a `manifest.json` that its files do not match.
+ * @throws {ValidationError} Throws a validation error listing every problem of `meta.json` and the files it references.
+ * @throws {Error} Throws an error if no community is given or found in `meta.json`.
+ */
+export function planDepositImport(directoryPath: string, community?: string): ImportPlan {
+    if (isDepositArchive(directoryPath)) {
+        const extractPath = extractDepositArchive(directoryPath);
+        try {
+            return { ...planDepositImport(extractPath, community), source: directoryPath };
+        } finally {
+            fs.rmSync(extractPath, { recursive: true, force: true });
+        }
     }
-  }
\ No newline at end of file
+
+    const { deposit, uploads } = prepareDepositImport(directoryPath, community);
+
+    return {
+        source: directoryPath,
+        importBasicDeposit: {
+            method: 'POST',
+            path: '/deposits/importBasicDeposit',
+            body: importBasicDepositPayload(deposit),
+        },
+        uploads: uploads.map(({ fileMetadata, flags, file, role }) => ({
+            filename: file.filename,
+            role,
+            generateUploadUrl: {
+                method: 'POST',
+                path: '/deposits/{depositId}/files',
+                params: uploadUrlParams({ ...flags, multipart: usesMultipartUpload(undefined, fileMetadata) }),
+                body: fileMetadata,
+            },
+            description: file.description,
+            tags: file.tags,
+        })),
+    };
+}
+
+/**
+ * Renders an import plan as human-readable text, one line per request.
+ *
+ * @param {ImportPlan} plan - The plan computed by `planDepositImport`.
+ * @returns {string} The description of the requests the import would make.
+ */
+export function formatImportPlan(plan: ImportPlan): string {
+    const deposit = plan.importBasicDeposit.body as ReturnType<typeof importBasicDepositPayload>;
+    const list = (values?: string[]) => (values && values.length > 0 ? values.join(', ') : '-');
+    const authors = deposit.authors.map((author) =>
+        `${[author.firstName, author.middleName, author.lastName].filter(Boolean).join(' ')}` +
+        `${author.orcid ? ` (${author.orcid})` : ''}${author.corresponding ? ' *' : ''}`
+    );
+
+    const lines = [
+        `Dry run for ${plan.source}`,
+        `  ${plan.importBasicDeposit.method} ${plan.importBasicDeposit.path}`,
+        `    title:       ${deposit.title}`,
+        `    community:   ${deposit.community}`,
+        `    authors:     ${list(authors)}`,
+        `    disciplines: ${list(deposit.disciplines)}`,
+        `    keywords:    ${list(deposit.keywords)}`,
+        `    abstract:    ${deposit.abstract.length} characters`,
+    ];
+    if (deposit.doi !== undefined || deposit.sourceId !== undefined) {
+        lines.push(`    identifier:  ${deposit.doi ? `doi ${deposit.doi}` : `sourceId ${deposit.sourceId}`}`);
+    }
+    for (const upload of plan.uploads) {
+        const { method, path: endpoint, params, body } = upload.generateUploadUrl;
+        const { file } = body as ManuscriptMetadata;
+        const query = Object.entries(params ?? {}).map(([key, value]) => `${key}=${value}`).join('&');
+        lines.push(`  ${method} ${endpoint}?${query}`);
+        lines.push(`    ${upload.role}: ${file.name} (${file.type}, ${file.size} bytes)`);
+        if (upload.description !== undefined) {
+            lines.push(`    description: ${upload.description}`);
+        }
+        if (upload.tags !== undefined) {
+            lines.push(`    tags: ${list(upload.tags)}`);
+        }
+        lines.push('    then PUT to the signed URL and PATCH /deposits/{depositId}/files/confirm');
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Handles the full process of importing a deposit based on metadata loaded from a specified directory.
+ * This function orchestrates several steps to fully integrate a manuscript into the system: it loads metadata,
+ * creates a deposit, uploads the manuscript to a pre-signed URL, and finally confirms the manuscript upload.
+ * Supplementary files and the PDF rendering listed in `meta.json` are uploaded the same way.
+ *
+ * @param directoryPath - Directory with the deposit manuscript and metadata, or a `deposit_<id>.zip` produced by `exportDeposit`
+ * @param community - Orvium community where the deposit will be uploaded. Defaults to the community in `meta.json`
+ * @param options - With `dryRun`, the planned requests are printed and nothing is sent to the platform; `onExisting` decides what happens to a deposit that already exists, `onFailure` to the draft of a failed import
+ * @returns {Promise<void>} - A promise that resolves if the entire deposit process completes successfully.
+ * @throws {Error} - Rejects with the error of the step that failed, e.g. an `OrviumError` with its `step` and `depositId`.
+ */  
+export async function importDeposit(directoryPath: string, community?: string, options: ImportDepositOptions = {}): Promise<void> {
+    // A dry run works offline: the connection, and its credentials, are only needed to import
+    if (options.dryRun) {
+        (options.logger ?? consoleLogger).info(formatImportPlan(planDepositImport(directoryPath, community)));
+        return;
+    }
+    const connection: ApiConnection = { ...connectionFromEnv(), logger: options.logger };
+    await importDepositFromDirectory(directoryPath, community, connection, options);
+}
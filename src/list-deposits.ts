@@ -0,0 +1,106 @@
+import { DepositListResponse, DepositPopulated } from "./deposit-interfaces";
+import { ApiConnection } from "./api-connection";
+import { request } from "./transport";
+import { normalizeOrcid } from "./authors";
+
+const PAGE_SIZE = 50;
+
+/**
+ * Filters applied to the deposits of a community.
+ *
+ * @property {string} [status] - Only deposits with this status (e.g. `published`).
+ * @property {string} [from] - Only deposits published (or created, if not published) on or after this ISO date.
+ * @property {string} [to] - Only deposits published (or created, if not published) on or before this ISO date.
+ * @property {string} [orcid] - Only deposits with an author with this ORCID iD.
+ */
+export interface DepositFilters {
+  status?: string;
+  from?: string;
+  to?: string;
+  orcid?: string;
+}
+
+// Function to retrieve one page of the deposits of a community
+async function getCommunityDepositsPage(
+  connection: ApiConnection,
+  community: string,
+  page: number
+): Promise<DepositListResponse> {
+  const response = await request<DepositListResponse>(
+    connection,
+    { step: "listDeposits" },
+    {
+      method: "GET",
+      url: `${connection.apiUrl}/deposits`,
+      params: { community, page, limit: PAGE_SIZE },
+    }
+  );
+  return response.data;
+}
+
+// Function to parse a filter date; a bare date (YYYY-MM-DD) used as upper bound covers the whole day
+function filterDate(value: string, endOfDay: boolean): number {
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid date "${value}". Expected an ISO date such as 2024-01-31`);
+  }
+  return endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)
+    ? time + 24 * 60 * 60 * 1000 - 1
+    : time;
+}
+
+// Function to extract the bare ORCID iD from an iD or an ORCID URL
+function bareOrcid(value: string): string {
+  return normalizeOrcid(value) ?? value.trim().toUpperCase();
+}
+
+// Function to build the predicate that checks a deposit against the filters
+function depositFilter(
+  filters: DepositFilters
+): (deposit: DepositPopulated) => boolean {
+  const from = filters.from ? filterDate(filters.from, false) : undefined;
+  const to = filters.to ? filterDate(filters.to, true) : undefined;
+  const orcid = filters.orcid ? bareOrcid(filters.orcid) : undefined;
+
+  return (deposit) => {
+    if (filters.status && deposit.status !== filters.status) {
+      return false;
+    }
+    if (from !== undefined || to !== undefined) {
+      const date = Date.parse(deposit.publicationDate ?? deposit.createdOn ?? "");
+      if (
+        Number.isNaN(date) ||
+        (from !== undefined && date < from) ||
+        (to !== undefined && date > to)
+      ) {
+        return false;
+      }
+    }
+    if (
+      orcid &&
+      !deposit.authors.some((author) => author.orcid && bareOrcid(author.orcid) === orcid)
+    ) {
+      return false;
+    }
+    return true;
+  };
+}
+
+// Function to retrieve every deposit of a community, following the API pagination, and apply the filters
+export async function listCommunityDeposits(
+  connection: ApiConnection,
+  community: string,
+  filters: DepositFilters = {}
+): Promise<DepositPopulated[]> {
+  const matches = depositFilter(filters);
+  const deposits: DepositPopulated[] = [];
+  let received = 0;
+  for (let page = 1; ; page++) {
+    const result = await getCommunityDepositsPage(connection, community, page);
+    received += result.deposits.length;
+    deposits.push(...result.deposits.filter(matches));
+    if (result.deposits.length === 0 || received >= result.count) {
+      return deposits;
+    }
+  }
+}
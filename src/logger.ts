@@ -0,0 +1,108 @@
+/**
+ * Logging and progress reporting.
+ *
+ * - Every message of the toolkit goes through the `Logger` of the connection (`connection.logger`), which
+ *   defaults to the console, so an application embedding the toolkit can redirect or silence it.
+ * - Long operations also report structured `ProgressEvent`s to the logger: API steps started, finished or
+ *   failed, bytes uploaded to and downloaded from storage, and archives finalised.
+ */
+import { Transform } from "stream";
+import type { ApiConnection } from "./api-connection";
+import type { ApiStep } from "./errors";
+
+/**
+ * A structured progress event:
+ *
+ * - `stepStarted`, `stepFinished`, `stepFailed`: an API request of a step, e.g. `importBasicDeposit`.
+ * - `bytesUploaded`: bytes of a file sent to its signed storage URL so far, out of `total`.
+ * - `bytesDownloaded`: bytes of a deposit file received so far, out of `total` when the size is known.
+ * - `archiveFinalized`: a zip archive was completely written, with its size in bytes.
+ */
+export type ProgressEvent =
+  | { type: "stepStarted"; step: ApiStep; depositId?: string }
+  | { type: "stepFinished"; step: ApiStep; depositId?: string }
+  | { type: "stepFailed"; step: ApiStep; depositId?: string; error: string }
+  | { type: "bytesUploaded"; depositId?: string; file: string; bytes: number; total?: number }
+  | { type: "bytesDownloaded"; depositId?: string; file: string; bytes: number; total?: number }
+  | { type: "archiveFinalized"; path: string; bytes: number };
+
+/**
+ * Receives the messages and progress events of the toolkit.
+ *
+ * @property {Function} info - Receives informational messages, e.g. a deposit was imported.
+ * @property {Function} warn - Receives warnings, e.g. several deposits share a DOI.
+ * @property {Function} error - Receives errors that do not stop the operation, e.g. a failed deposit of a batch.
+ * @property {Function} [progress] - Receives the progress events; without it, they are dropped.
+ */
+export interface Logger {
+  info(message: string): void;
+  warn(message: string): void;
+  error(message: string): void;
+  progress?(event: ProgressEvent): void;
+}
+
+/**
+ * Logger used when the connection has none: messages are written to the console, progress events are dropped.
+ */
+export const consoleLogger: Logger = {
+  info: (message) => console.log(message),
+  warn: (message) => console.warn(message),
+  error: (message) => console.error(message),
+};
+
+/**
+ * Logger that drops every message and progress event.
+ */
+export const silentLogger: Logger = {
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
+
+/**
+ * Returns the logger of a connection.
+ *
+ * @param {ApiConnection} [connection] - The connection, which may carry a logger.
+ * @returns {Logger} The logger of the connection, or `consoleLogger`.
+ */
+export function loggerOf(connection?: ApiConnection): Logger {
+  return connection?.logger ?? consoleLogger;
+}
+
+/**
+ * Reports a progress event to the logger of a connection, if it accepts progress events.
+ *
+ * @param {ApiConnection} connection - The connection the event belongs to.
+ * @param {ProgressEvent} event - The event.
+ */
+export function reportProgress(connection: ApiConnection, event: ProgressEvent): void {
+  loggerOf(connection).progress?.(event);
+}
+
+/**
+ * Creates a pass-through stream that counts the bytes flowing through it. `onBytes` is called with the total
+ * so far at most every `interval` milliseconds, and always once the stream ends.
+ *
+ * @param {Function} onBytes - Receives the number of bytes that went through the stream so far.
+ * @param {number} [interval] - Minimum time between two calls in milliseconds (defaults to 200).
+ * @returns {Transform} The stream, to be piped between the source and the destination.
+ */
+export function countingStream(onBytes: (bytes: number) => void, interval = 200): Transform {
+  let bytes = 0;
+  let reportedAt = 0;
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      bytes += chunk.length;
+      const now = Date.now();
+      if (now - reportedAt >= interval) {
+        reportedAt = now;
+        onBytes(bytes);
+      }
+      callback(null, chunk);
+    },
+    flush(callback) {
+      onBytes(bytes);
+      callback();
+    },
+  });
+}
@@ -0,0 +1,742 @@
+/**
+ * Metadata readers, which map the metadata files found in a deposit folder into the `meta.json` shape.
+ *
+ * - `meta.json`, the native format, always takes precedence.
+ * - JATS XML (`<article>`), as exported by journal systems.
+ * - Crossref, either a deposit XML file (`<doi_batch>`) or a work from the REST API (JSON).
+ * - DataCite, either a kernel XML file (`<resource>`) or a DOI from the REST API (JSON).
+ * - BibTeX (`.bib`) and RIS (`.ris`), as exported by reference managers; the first entry is used.
+ *
+ * Readers are tried in that order against the files of the folder, and more can be added with
+ * `registerMetadataReader`. When the metadata does not name the manuscript file, the only file of the
+ * folder in a manuscript format is used.
+ */
+import * as fs from "fs";
+import * as path from "path";
+import { XMLParser } from "fast-xml-parser";
+import { Author, DepositMetadata } from "./deposit-interfaces";
+import { resolveContentType } from "./file-types";
+import { isCreditRole, normalizeOrcid, normalizeRor } from "./authors";
+
+/**
+ * Maps one metadata format into the `meta.json` shape.
+ *
+ * @property {string} name - Name of the format, shown in messages (e.g. `JATS XML`).
+ * @property {(filePath: string) => boolean} matches - Tells whether a file of the deposit folder is in this format.
+ * @property {(filePath: string) => Partial<DepositMetadata>} read - Reads the file. Missing fields are reported when the result is validated.
+ */
+export interface MetadataReader {
+  name: string;
+  matches(filePath: string): boolean;
+  read(filePath: string): Partial<DepositMetadata>;
+}
+
+/**
+ * The metadata of a deposit folder and where it was read from.
+ *
+ * @property {string} reader - Name of the reader that recognised the metadata file.
+ * @property {string} filename - Name of the metadata file inside the folder.
+ * @property {Partial<DepositMetadata>} metadata - The metadata, in the `meta.json` shape.
+ */
+export interface DepositMetadataSource {
+  reader: string;
+  filename: string;
+  metadata: Partial<DepositMetadata>;
+}
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  removeNSPrefix: true,
+  parseTagValue: false,
+  // Elements with inline markup (italics, sub/superscripts, paragraphs) are kept raw and flattened to text
+  stopNodes: [
+    "*.article-title",
+    "*.title",
+    "*.abstract",
+    "*.description",
+    "*.kwd",
+    "*.subject",
+  ],
+});
+
+// --- Helpers -----------------------------------------------------------------
+
+function asArray<T>(value: T | T[] | undefined | null): T[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Flattens an XML value (a string with inline markup, or an element with attributes) into plain text,
+ * keeping paragraph breaks.
+ */
+function textOf(node: unknown): string {
+  let value: string;
+  if (typeof node === "string" || typeof node === "number") {
+    value = String(node);
+  } else if (node && typeof node === "object" && "#text" in node) {
+    value = String((node as Record<string, unknown>)["#text"]);
+  } else {
+    return "";
+  }
+  const paragraphs = value
+    .replace(/<\/(?:[\w-]+:)?p>/g, "\u0000")
+    .replace(/<[^>]+>/g, "")
+    .split("\u0000")
+    .map((paragraph) => decodeEntities(paragraph).replace(/\s+/g, " ").trim())
+    .filter((paragraph) => paragraph !== "");
+  return paragraphs.join("\n\n");
+}
+
+/**
+ * Flattens an abstract, dropping its heading (e.g. `<title>Abstract</title>`).
+ */
+function abstractOf(node: unknown): string {
+  const withoutTitle = (value: unknown) =>
+    String(value).replace(/<((?:[\w-]+:)?title)[^>]*>[\s\S]*?<\/\1>/g, "");
+  if (node && typeof node === "object" && "#text" in node) {
+    return textOf({ ...node, "#text": withoutTitle((node as Record<string, unknown>)["#text"]) });
+  }
+  return typeof node === "string" ? textOf(withoutTitle(node)) : "";
+}
+
+function attribute(node: unknown, name: string): string | undefined {
+  return node && typeof node === "object"
+    ? (node as Record<string, string>)[`@_${name}`]
+    : undefined;
+}
+
+/**
+ * Extracts a bare ORCID iD (`0000-0002-1825-0097`) from an ORCID URL or iD.
+ */
+function orcidOf(value: unknown): string | undefined {
+  return normalizeOrcid(String(value ?? ""));
+}
+
+/**
+ * Extracts a bare DOI (`10.1234/abc`) from a DOI URL, a `doi:` reference or a DOI.
+ */
+function doiOf(value: unknown): string | undefined {
+  const match = /(10\.\d{4,9}\/\S+)/.exec(String(value ?? ""));
+  return match ? match[1] : undefined;
+}
+
+/**
+ * Splits a personal name written as `Last, First` or `First Last`.
+ */
+function splitName(name: string): { firstName: string; lastName: string } {
+  const trimmed = name.replace(/\s+/g, " ").trim();
+  if (trimmed.includes(",")) {
+    const [lastName, ...rest] = trimmed.split(",");
+    return { firstName: rest.join(",").trim(), lastName: lastName.trim() };
+  }
+  const parts = trimmed.split(" ");
+  const lastName = parts.pop() ?? "";
+  return { firstName: parts.join(" "), lastName };
+}
+
+function author(firstName: string, lastName: string, orcid?: string): Author {
+  return { firstName: firstName.trim(), lastName: lastName.trim(), ...(orcid ? { orcid } : {}) };
+}
+
+/**
+ * Returns the name of a file referenced by the metadata, if that file is present in the deposit folder.
+ */
+function localFile(directoryPath: string, reference: unknown): string | undefined {
+  if (typeof reference !== "string" || reference.trim() === "") {
+    return undefined;
+  }
+  let filename = path.basename(reference.trim());
+  try {
+    filename = decodeURIComponent(filename); // References are often URLs
+  } catch {
+    // Not URL-encoded
+  }
+  return fs.existsSync(path.join(directoryPath, filename)) ? filename : undefined;
+}
+
+function hasExtension(filePath: string, ...extensions: string[]): boolean {
+  return extensions.includes(path.extname(filePath).toLowerCase());
+}
+
+function readXml(filePath: string): any {
+  return xmlParser.parse(fs.readFileSync(filePath, "utf8"));
+}
+
+function readJson(filePath: string): any {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf8"));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Reads the beginning of a file, enough to recognise the root element of an XML document.
+ */
+function head(filePath: string, length = 4096): string {
+  const fd = fs.openSync(filePath, "r");
+  try {
+    const buffer = Buffer.alloc(length);
+    return buffer.subarray(0, fs.readSync(fd, buffer, 0, length, 0)).toString("utf8");
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Depth-first search for the first element that satisfies a predicate.
+ */
+function findNode(node: unknown, predicate: (node: any) => boolean): any {
+  if (!node || typeof node !== "object") {
+    return undefined;
+  }
+  if (predicate(node)) {
+    return node;
+  }
+  for (const child of Object.values(node)) {
+    for (const item of asArray(child)) {
+      const found = findNode(item, predicate);
+      if (found) {
+        return found;
+      }
+    }
+  }
+  return undefined;
+}
+
+// --- meta.json ---------------------------------------------------------------
+
+const metaJsonReader: MetadataReader = {
+  name: "meta.json",
+  matches: (filePath) => path.basename(filePath) === "meta.json",
+  read: (filePath) => JSON.parse(fs.readFileSync(filePath, "utf8")),
+};
+
+// --- JATS XML ----------------------------------------------------------------
+
+function jatsSubjects(subjGroups: unknown): string[] {
+  return asArray(subjGroups).flatMap((group: any) =>
+    attribute(group, "subj-group-type") === "heading" // Article type, e.g. "Research Article"
+      ? []
+      : [...asArray(group.subject).map(textOf), ...jatsSubjects(group["subj-group"])]
+  );
+}
+
+/**
+ * Reads the email, affiliations, corresponding author flag and CRediT roles of a JATS `<contrib>`.
+ * Only affiliations written inside the contrib are read, not those referenced with `<xref ref-type="aff">`.
+ */
+function jatsContribDetails(contrib: any): Partial<Author> {
+  const email = textOf(asArray(contrib.email)[0]);
+  const affiliations = asArray<any>(contrib.aff).flatMap((aff) => {
+    const wrap = asArray<any>(aff["institution-wrap"])[0] ?? aff;
+    const name = textOf(asArray(wrap.institution)[0]) || textOf(aff);
+    const ror = normalizeRor(
+      textOf(asArray<any>(wrap["institution-id"]).find((id) => attribute(id, "institution-id-type") === "ror"))
+    );
+    return name ? [{ name, ...(ror ? { ror } : {}) }] : [];
+  });
+  // CRediT terms are written as "Writing – review & editing" in JATS, and as "writing review editing" by the platform
+  const credit = asArray<any>(contrib.role)
+    .filter((role) => attribute(role, "vocab")?.toLowerCase() === "credit")
+    .map((role) => (attribute(role, "vocab-term") ?? textOf(role)).toLowerCase().replace(/[^a-z]+/g, " ").trim())
+    .filter(isCreditRole);
+
+  return {
+    ...(email ? { email } : {}),
+    ...(affiliations.length > 0 ? { affiliations } : {}),
+    ...(attribute(contrib, "corresp") === "yes" ? { corresponding: true } : {}),
+    ...(credit.length > 0 ? { credit } : {}),
+  };
+}
+
+const jatsReader: MetadataReader = {
+  name: "JATS XML",
+  matches: (filePath) =>
+    hasExtension(filePath, ".xml") && /<article[\s>]/.test(head(filePath)),
+  read: (filePath) => {
+    const meta = readXml(filePath).article?.front?.["article-meta"] ?? {};
+    const contributors = asArray<any>(meta["contrib-group"])
+      .flatMap((group) => asArray<any>(group.contrib))
+      .filter((contrib) => (attribute(contrib, "contrib-type") ?? "author") === "author" && contrib.name);
+    const abstract = asArray<any>(meta.abstract).find(
+      (item) => !attribute(item, "abstract-type") || attribute(item, "abstract-type") === "abstract"
+    );
+
+    return {
+      title: textOf(meta["title-group"]?.["article-title"]),
+      abstract: abstractOf(abstract),
+      authors: contributors.map((contrib) => {
+        const name = asArray<any>(contrib.name)[0];
+        const orcid = asArray<any>(contrib["contrib-id"]).find(
+          (id) => attribute(id, "contrib-id-type") === "orcid"
+        );
+        return {
+          ...author(textOf(name["given-names"]), textOf(name.surname), orcidOf(textOf(orcid))),
+          ...jatsContribDetails(contrib),
+        };
+      }),
+      keywords: asArray<any>(meta["kwd-group"]).flatMap((group) => asArray(group.kwd).map(textOf)),
+      disciplines: jatsSubjects(meta["article-categories"]?.["subj-group"]),
+      doi: doiOf(
+        textOf(asArray<any>(meta["article-id"]).find((id) => attribute(id, "pub-id-type") === "doi"))
+      ),
+      ...manuscriptRef(filePath, asArray<any>(meta["self-uri"]).map((uri) => attribute(uri, "href"))),
+    };
+  },
+};
+
+function manuscriptRef(metadataPath: string, references: unknown[]): Partial<DepositMetadata> {
+  const directoryPath = path.dirname(metadataPath);
+  const filename = references
+    .map((reference) => localFile(directoryPath, reference))
+    .find((file) => file !== undefined);
+  return filename ? { manuscript: { filename } } : {};
+}
+
+// --- Crossref ----------------------------------------------------------------
+
+const crossrefXmlReader: MetadataReader = {
+  name: "Crossref XML",
+  matches: (filePath) =>
+    hasExtension(filePath, ".xml") && /<(?:[\w-]+:)?doi_batch[\s>]/.test(head(filePath)),
+  read: (filePath) => {
+    const work =
+      findNode(readXml(filePath).doi_batch?.body, (node) => node.titles && node.contributors) ?? {};
+    const people = asArray<any>(work.contributors?.person_name).filter(
+      (person) => (attribute(person, "contributor_role") ?? "author") === "author"
+    );
+
+    return {
+      title: textOf(asArray(work.titles?.title)[0]),
+      abstract: abstractOf(asArray(work.abstract)[0]),
+      authors: people.map((person) =>
+        author(String(person.given_name ?? ""), String(person.surname ?? ""), orcidOf(textOf(person.ORCID)))
+      ),
+      keywords: [],
+      disciplines: [],
+      doi: doiOf(textOf(work.doi_data?.doi)),
+      ...manuscriptRef(filePath, asArray<any>(work.doi_data?.collection?.item).map((item) => textOf(item.resource))),
+    };
+  },
+};
+
+function crossrefWork(filePath: string): any {
+  const json = readJson(filePath);
+  const work = json?.message ?? json;
+  return work && typeof work.DOI === "string" && Array.isArray(work.title) ? work : undefined;
+}
+
+const crossrefJsonReader: MetadataReader = {
+  name: "Crossref JSON",
+  matches: (filePath) => hasExtension(filePath, ".json") && crossrefWork(filePath) !== undefined,
+  read: (filePath) => {
+    const work = crossrefWork(filePath);
+    return {
+      title: textOf(work.title[0]),
+      abstract: abstractOf(work.abstract),
+      authors: asArray<any>(work.author)
+        .filter((person) => person.family)
+        .map((person) => author(person.given ?? "", person.family, orcidOf(person.ORCID))),
+      keywords: [],
+      disciplines: asArray<string>(work.subject),
+      doi: doiOf(work.DOI),
+      ...manuscriptRef(filePath, asArray<any>(work.link).map((link) => link.URL)),
+    };
+  },
+};
+
+// --- DataCite ----------------------------------------------------------------
+
+interface DataCiteCreator {
+  name: string;
+  givenName?: string;
+  familyName?: string;
+  orcid?: string;
+}
+
+function dataCiteAuthor(creator: DataCiteCreator): Author {
+  const name = creator.familyName
+    ? { firstName: creator.givenName ?? "", lastName: creator.familyName }
+    : splitName(creator.name);
+  return author(name.firstName, name.lastName, creator.orcid);
+}
+
+const dataCiteXmlReader: MetadataReader = {
+  name: "DataCite XML",
+  matches: (filePath) => {
+    if (!hasExtension(filePath, ".xml")) {
+      return false;
+    }
+    const start = head(filePath);
+    return /<(?:[\w-]+:)?resource[\s>]/.test(start) && start.includes("datacite.org/schema/kernel");
+  },
+  read: (filePath) => {
+    const resource = readXml(filePath).resource ?? {};
+    const titles = asArray<any>(resource.titles?.title);
+    const abstract = asArray<any>(resource.descriptions?.description).find(
+      (description) => attribute(description, "descriptionType") === "Abstract"
+    );
+    const creators = asArray<any>(resource.creators?.creator).map((creator) => ({
+      name: textOf(creator.creatorName),
+      givenName: creator.givenName !== undefined ? textOf(creator.givenName) : undefined,
+      familyName: creator.familyName !== undefined ? textOf(creator.familyName) : undefined,
+      orcid: orcidOf(
+        textOf(
+          asArray<any>(creator.nameIdentifier).find(
+            (id) => attribute(id, "nameIdentifierScheme")?.toUpperCase() === "ORCID"
+          )
+        )
+      ),
+    }));
+
+    return {
+      title: textOf(titles.find((title) => !attribute(title, "titleType")) ?? titles[0]),
+      abstract: abstractOf(abstract),
+      authors: creators.map(dataCiteAuthor),
+      keywords: [],
+      disciplines: asArray(resource.subjects?.subject).map(textOf),
+      doi: doiOf(
+        textOf(asArray<any>(resource.identifier).find((id) => attribute(id, "identifierType") === "DOI"))
+      ),
+    };
+  },
+};
+
+function dataCiteAttributes(filePath: string): any {
+  const json = readJson(filePath);
+  const attributes = json?.data?.attributes ?? json;
+  return attributes && Array.isArray(attributes.titles) && Array.isArray(attributes.creators)
+    ? attributes
+    : undefined;
+}
+
+const dataCiteJsonReader: MetadataReader = {
+  name: "DataCite JSON",
+  matches: (filePath) => hasExtension(filePath, ".json") && dataCiteAttributes(filePath) !== undefined,
+  read: (filePath) => {
+    const attributes = dataCiteAttributes(filePath);
+    const titles = asArray<any>(attributes.titles);
+    const abstract = asArray<any>(attributes.descriptions).find(
+      (description) => description.descriptionType === "Abstract"
+    );
+    const creators = asArray<any>(attributes.creators).map((creator) => ({
+      name: creator.name ?? "",
+      givenName: creator.givenName,
+      familyName: creator.familyName,
+      orcid: orcidOf(
+        asArray<any>(creator.nameIdentifiers).find(
+          (id) => String(id.nameIdentifierScheme).toUpperCase() === "ORCID"
+        )?.nameIdentifier
+      ),
+    }));
+
+    return {
+      title: (titles.find((title) => !title.titleType) ?? titles[0])?.title ?? "",
+      abstract: textOf(abstract?.description ?? ""),
+      authors: creators.map(dataCiteAuthor),
+      keywords: [],
+      disciplines: asArray<any>(attributes.subjects).map((subject) => subject.subject),
+      doi: doiOf(attributes.doi),
+    };
+  },
+};
+
+// --- BibTeX ------------------------------------------------------------------
+
+const LATEX_ACCENTS: Record<string, string> = {
+  '"': "\u0308",
+  "'": "\u0301",
+  "`": "\u0300",
+  "^": "\u0302",
+  "~": "\u0303",
+};
+
+/**
+ * Turns a BibTeX value into plain text: accents, escaped characters, commands and braces.
+ */
+function latexText(value: string): string {
+  return value
+    .replace(/\{?\\(["'`^~])\{?([a-zA-Z])\}?\}?/g, (_, accent, letter) =>
+      (letter + LATEX_ACCENTS[accent]).normalize("NFC")
+    )
+    .replace(/\\([&%$#_])/g, "$1")
+    .replace(/\\[a-zA-Z]+\s*/g, "")
+    .replace(/[{}]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Splits a value on a separator, ignoring the separators inside braces (e.g. `{Barnes and Noble}`).
+ */
+function splitTopLevel(value: string, separator: RegExp): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let index = 0; index < value.length; index++) {
+    const char = value[index];
+    if (char === "{") depth++;
+    if (char === "}") depth--;
+    if (depth === 0) {
+      const match = separator.exec(value.slice(index));
+      if (match && match.index === 0) {
+        parts.push(value.slice(start, index));
+        index += match[0].length - 1;
+        start = index + 1;
+      }
+    }
+  }
+  parts.push(value.slice(start));
+  return parts.map((part) => part.trim()).filter((part) => part !== "");
+}
+
+/**
+ * Parses the fields of the first entry of a BibTeX file, with lower-case field names and raw values.
+ */
+function parseBibtexEntry(content: string): Record<string, string> {
+  const entry = /@(?!(?:comment|string|preamble)\b)\w+\s*[{(]\s*[^,]*,/i.exec(content);
+  if (!entry) {
+    return {};
+  }
+
+  const fields: Record<string, string> = {};
+  let index = entry.index + entry[0].length;
+  const skipSpace = () => {
+    while (index < content.length && /[\s,]/.test(content[index])) index++;
+  };
+
+  const readValue = (): string => {
+    const parts: string[] = [];
+    for (;;) {
+      skipSpace();
+      const open = content[index];
+      if (open === "{" || open === '"') {
+        const close = open === "{" ? "}" : '"';
+        let depth = 0;
+        const start = ++index;
+        while (index < content.length && !(content[index] === close && depth === 0)) {
+          if (content[index] === "{") depth++;
+          if (content[index] === "}") depth--;
+          index++;
+        }
+        parts.push(content.slice(start, index++));
+      } else {
+        const word = /^[^\s,#}]+/.exec(content.slice(index))?.[0] ?? "";
+        parts.push(word);
+        index += word.length;
+      }
+      while (index < content.length && /\s/.test(content[index])) index++;
+      if (content[index] !== "#") {
+        return parts.join("");
+      }
+      index++;
+    }
+  };
+
+  for (;;) {
+    skipSpace();
+    const name = /^[\w:-]+/.exec(content.slice(index))?.[0];
+    if (!name) {
+      return fields;
+    }
+    index += name.length;
+    while (index < content.length && /[\s=]/.test(content[index])) index++;
+    fields[name.toLowerCase()] = readValue();
+  }
+}
+
+const bibtexReader: MetadataReader = {
+  name: "BibTeX",
+  matches: (filePath) => hasExtension(filePath, ".bib", ".bibtex"),
+  read: (filePath) => {
+    const fields = parseBibtexEntry(fs.readFileSync(filePath, "utf8"));
+
+    // Web of Science exports list ORCID iDs as "Last, First/0000-0000-0000-0000; ..."
+    const orcids = new Map<string, string>();
+    for (const item of (fields["orcid-numbers"] ?? "").split(";")) {
+      const [name, id] = item.split("/");
+      const orcid = orcidOf(id);
+      if (name && orcid) {
+        orcids.set(splitName(latexText(name)).lastName.toLowerCase(), orcid);
+      }
+    }
+
+    const authors = splitTopLevel(fields.author ?? "", /^\s+and\s+/i).map((raw) => {
+      const name = /^\{[^{}]*\}$/.test(raw) ? { firstName: "", lastName: latexText(raw) } : splitName(latexText(raw));
+      return author(name.firstName, name.lastName, orcids.get(name.lastName.toLowerCase()));
+    });
+
+    // JabRef and Zotero store attachments as "description:path:type", separated by semicolons
+    const attachments = (fields.file ?? "")
+      .split(";")
+      .map((attachment) => {
+        const parts = attachment.split(":");
+        return parts.length >= 3 ? parts.slice(1, -1).join(":") : attachment;
+      });
+
+    return {
+      title: latexText(fields.title ?? ""),
+      abstract: latexText(fields.abstract ?? ""),
+      authors,
+      keywords: (fields.keywords ?? "").split(/[,;]/).map(latexText).filter((keyword) => keyword !== ""),
+      disciplines: [],
+      doi: doiOf(fields.doi),
+      ...manuscriptRef(filePath, attachments),
+    };
+  },
+};
+
+// --- RIS ---------------------------------------------------------------------
+
+/**
+ * Parses the first record of a RIS file into its tags, each with the list of its values.
+ */
+function parseRisRecord(content: string): Record<string, string[]> {
+  const tags: Record<string, string[]> = {};
+  let last: string[] | undefined;
+  for (const line of content.split(/\r?\n/)) {
+    const match = /^([A-Z][A-Z0-9])  -(?: (.*))?$/.exec(line);
+    if (!match) {
+      if (last && line.trim() !== "") {
+        last[last.length - 1] += ` ${line.trim()}`; // Continuation of a long value
+      }
+      continue;
+    }
+    const [, tag, value = ""] = match;
+    if (tag === "ER") {
+      break;
+    }
+    last = tags[tag] ??= [];
+    last.push(value.trim());
+  }
+  return tags;
+}
+
+const risReader: MetadataReader = {
+  name: "RIS",
+  matches: (filePath) => hasExtension(filePath, ".ris"),
+  read: (filePath) => {
+    const tags = parseRisRecord(fs.readFileSync(filePath, "utf8"));
+    const first = (...names: string[]) => names.map((name) => tags[name]?.[0]).find(Boolean) ?? "";
+
+    return {
+      title: first("TI", "T1"),
+      abstract: first("AB", "N2"),
+      authors: [...(tags.AU ?? []), ...(tags.A1 ?? [])].map((name) => {
+        const { firstName, lastName } = splitName(name);
+        return author(firstName, lastName);
+      }),
+      keywords: (tags.KW ?? []).flatMap((keyword) => keyword.split(";")).map((keyword) => keyword.trim()).filter(Boolean),
+      disciplines: [],
+      doi: doiOf(first("DO")),
+      ...manuscriptRef(filePath, tags.L1 ?? []),
+    };
+  },
+};
+
+// --- Reader selection --------------------------------------------------------
+
+const metadataReaders: MetadataReader[] = [
+  metaJsonReader,
+  jatsReader,
+  crossrefXmlReader,
+  crossrefJsonReader,
+  dataCiteXmlReader,
+  dataCiteJsonReader,
+  bibtexReader,
+  risReader,
+];
+
+/**
+ * Adds a metadata reader. Registered readers are tried after `meta.json` and before the built-in formats.
+ *
+ * @param {MetadataReader} reader - The reader to add.
+ */
+export function registerMetadataReader(reader: MetadataReader): void {
+  const builtIn = metadataReaders.indexOf(jatsReader);
+  metadataReaders.splice(builtIn, 0, reader);
+}
+
+function folderFiles(directoryPath: string): string[] {
+  return fs
+    .readdirSync(directoryPath, { withFileTypes: true })
+    .filter((entry) => entry.isFile() && !entry.name.startsWith("."))
+    .map((entry) => entry.name)
+    .sort();
+}
+
+/**
+ * Finds the metadata file of a deposit folder and the reader that understands it.
+ *
+ * @param {string} directoryPath - Directory with the deposit files.
+ * @returns {{ reader: MetadataReader, filename: string } | undefined} The reader and file, or undefined if the folder has no metadata.
+ */
+export function findMetadataFile(
+  directoryPath: string
+): { reader: MetadataReader; filename: string } | undefined {
+  const files = folderFiles(directoryPath);
+  for (const reader of metadataReaders) {
+    const filename = files.find((file) => reader.matches(path.join(directoryPath, file)));
+    if (filename) {
+      return { reader, filename };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Reads the metadata of a deposit folder with the first reader that recognises one of its files.
+ * When the metadata does not name the manuscript, the only file in a manuscript format is used.
+ *
+ * @param {string} directoryPath - Directory with the deposit files.
+ * @returns {DepositMetadataSource} The metadata in the `meta.json` shape, with the reader and file it came from.
+ * @throws {Error} Throws an error if no metadata file is found or it cannot be parsed.
+ */
+export function readDepositMetadata(directoryPath: string): DepositMetadataSource {
+  const found = findMetadataFile(directoryPath);
+  if (!found) {
+    const formats = metadataReaders.map((reader) => reader.name).join(", ");
+    throw new Error(`No deposit metadata found in ${directoryPath} (supported: ${formats})`);
+  }
+
+  const { reader, filename } = found;
+  let metadata: Partial<DepositMetadata>;
+  try {
+    metadata = reader.read(path.join(directoryPath, filename));
+  } catch (error: any) {
+    throw new Error(`${filename} cannot be read: ${error.message}`);
+  }
+  if (metadata && typeof metadata === "object" && metadata.manuscript === undefined) {
+    const candidates = folderFiles(directoryPath).filter((file) => {
+      if (file === filename) {
+        return false;
+      }
+      try {
+        resolveContentType(path.join(directoryPath, file), "manuscript");
+        return true;
+      } catch {
+        return false;
+      }
+    });
+    if (candidates.length === 1) {
+      metadata.manuscript = { filename: candidates[0] };
+    }
+  }
+  return { reader: reader.name, filename, metadata };
+}
@@ -0,0 +1,117 @@
+#!/usr/bin/env node
+
+/**
+ * CLI for migrating deposits (metadata + manuscript, supplementary files and PDF) from one Orvium instance to another.
+ *
+ * Usage:
+ *   $ orvium-tools migrate [connection options] <depositId...>
+ *   $ orvium-tools migrate [connection options] --community <name>
+ *   # or through the alias:
+ *   $ orvium-tools-migrate [connection options] <depositId...>
+ *
+ * Arguments:
+ *   <depositId...>  Identifiers of the deposits in the source instance
+ *
+ * Options:
+ *   --source-url, --source-key, --source-key-user
+ *                   Source instance API URL and keys (default SOURCE_API_URL, SOURCE_API_KEY, SOURCE_API_KEY_USER)
+ *   --target-url, --target-key, --target-key-user
+ *                   Target instance API URL and keys (default TARGET_API_URL, TARGET_API_KEY, TARGET_API_KEY_USER)
+ *   --community <name>         Migrate every deposit of this source community
+ *   --target-community <name>  Community where deposits are created (default: same name as in the source)
+ *   (and the global options of cli.ts; --config, --profile and --api-url do not apply, --json prints the results)
+ *
+ * Behavior:
+ *   - Streams the files of every deposit from the source instance into the target instance without temporary files.
+ *   - Prints the source → target deposit ids and exits with 1 if any deposit failed.
+ */
+
+import { ApiConnection, connectionFromEnv } from "./api-connection";
+import { CliCommand, ConfigError, EXIT_CODES, UsageError, runStandalone } from "./cli";
+import { migrateCommunity, migrateDeposits } from "./migrate-deposit";
+
+// Command line values take precedence over the prefixed environment variables
+function resolveConnection(
+  prefix: string,
+  apiUrl?: string,
+  apiKey?: string,
+  apiKeyUser?: string
+): ApiConnection {
+  if (apiUrl && apiKey && apiKeyUser) {
+    return { apiUrl, apiKey, apiKeyUser };
+  }
+  let fromEnv: ApiConnection;
+  try {
+    fromEnv = connectionFromEnv(prefix);
+  } catch (err: any) {
+    throw new ConfigError(err?.message ?? String(err));
+  }
+  return {
+    apiUrl: apiUrl ?? fromEnv.apiUrl,
+    apiKey: apiKey ?? fromEnv.apiKey,
+    apiKeyUser: apiKeyUser ?? fromEnv.apiKeyUser,
+  };
+}
+
+export const migrateCommand: CliCommand = {
+  name: "migrate",
+  summary: "Copy deposits from one Orvium instance to another, streaming the manuscripts",
+  usage: [
+    "[--source-url <url> --source-key <key> --source-key-user <key>]",
+    "  [--target-url <url> --target-key <key> --target-key-user <key>]",
+    "  [--target-community <name>] (--community <name> | <depositId...>)",
+  ],
+  arguments: [["<depositId...>", "Identifiers of the deposits in the source instance"]],
+  options: {
+    "source-url": { type: "string", value: "<url>", description: "Source API URL (default SOURCE_API_URL)" },
+    "source-key": { type: "string", value: "<key>", description: "Source API key (default SOURCE_API_KEY)" },
+    "source-key-user": { type: "string", value: "<key>", description: "Source API key user (default SOURCE_API_KEY_USER)" },
+    "target-url": { type: "string", value: "<url>", description: "Target API URL (default TARGET_API_URL)" },
+    "target-key": { type: "string", value: "<key>", description: "Target API key (default TARGET_API_KEY)" },
+    "target-key-user": { type: "string", value: "<key>", description: "Target API key user (default TARGET_API_KEY_USER)" },
+    community: { type: "string", value: "<name>", description: "Migrate every deposit of this source community" },
+    "target-community": {
+      type: "string",
+      value: "<name>",
+      description: "Community where deposits are created (default: same name as in the source)",
+    },
+  },
+
+  async run({ values, positionals }, context) {
+    const depositIds = positionals;
+    const community = values.community as string | undefined;
+    if ((depositIds.length === 0) === !community) {
+      throw new UsageError("Give either --community or one or more deposit ids");
+    }
+
+    const option = (name: string) => values[name] as string | undefined;
+    const source = {
+      ...resolveConnection("SOURCE_", option("source-url"), option("source-key"), option("source-key-user")),
+      logger: context.logger,
+    };
+    const target = {
+      ...resolveConnection("TARGET_", option("target-url"), option("target-key"), option("target-key-user")),
+      logger: context.logger,
+    };
+    const options = { targetCommunity: option("target-community") };
+
+    const results = community
+      ? await migrateCommunity(source, target, community, options)
+      : await migrateDeposits(source, target, depositIds, options);
+    context.output(
+      results,
+      results
+        .map((result) =>
+          result.status === "succeeded"
+            ? `${result.sourceId} -> ${result.targetId}`
+            : `${result.sourceId} failed: ${result.error}`
+        )
+        .join("\n")
+    );
+    return results.some((result) => result.status === "failed") ? EXIT_CODES.failure : EXIT_CODES.success;
+  },
+};
+
+if (require.main === module) {
+  runStandalone(migrateCommand, "orvium-tools-migrate");
+}
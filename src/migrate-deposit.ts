@@ -0,0 +1,205 @@
+/**
+ * Migration module for copying deposits between Orvium instances (e.g. from staging to production).
+ *
+ * For every deposit, the metadata is read from the source instance and a new deposit is created in the
+ * target instance. The manuscript, the supplementary files and the PDF rendering are streamed from the source
+ * signed URL straight into the target signed URL, so no temporary files are written to disk.
+ */
+import { FileMetadata, ManuscriptMetadata, MigrationResult } from "./deposit-interfaces";
+import { ApiConnection } from "./api-connection";
+import { FailedFileCopy, IncompleteMigrationError, OrviumError } from "./errors";
+import { getDepositById, getDepositFileStream, toDeposit } from "./export-deposit";
+import {
+  UPLOAD_FLAGS,
+  confirmManuscriptImported,
+  generateManuscriptUploadUrl,
+  importSingleDeposit,
+  transformAuthor,
+  uploadManuscriptToSignedUrl,
+} from "./import-deposit";
+import { FileRole } from "./file-types";
+import { listCommunityDeposits } from "./list-deposits";
+import { loggerOf } from "./logger";
+
+/**
+ * Options accepted by the migration functions.
+ *
+ * @property {string} [targetCommunity] - Community of the target instance where deposits are created
+ *           (defaults to the name of the community the deposit belongs to in the source instance).
+ */
+export interface MigrateOptions {
+  targetCommunity?: string;
+}
+
+// Copies a file of the source deposit into the target deposit, piping the source download straight into the
+// target upload, with the flags an import uses for its role. Supplementary files keep their description and tags.
+async function copyDepositFile(
+  source: ApiConnection,
+  target: ApiConnection,
+  depositId: string,
+  targetId: string,
+  file: FileMetadata,
+  name: string,
+  role: FileRole
+): Promise<void> {
+  const flags = UPLOAD_FLAGS[role];
+  const manuscriptMetadata: ManuscriptMetadata = {
+    file: {
+      name,
+      type: file.contentType,
+      size: file.contentLength,
+      lastModified: Date.now(),
+    },
+  };
+  const uploadSignedUrlResponse = await generateManuscriptUploadUrl(
+    target,
+    targetId,
+    manuscriptMetadata,
+    flags
+  );
+
+  const fileStream = await getDepositFileStream(source, depositId, file.filename);
+  await uploadManuscriptToSignedUrl(
+    target,
+    fileStream,
+    uploadSignedUrlResponse,
+    manuscriptMetadata,
+    targetId
+  );
+
+  if (role === "supplementary") {
+    uploadSignedUrlResponse.fileMetadata = {
+      ...uploadSignedUrlResponse.fileMetadata,
+      description: file.description ?? uploadSignedUrlResponse.fileMetadata?.description,
+      tags: file.tags ?? uploadSignedUrlResponse.fileMetadata?.tags,
+    };
+  }
+  await confirmManuscriptImported(target, targetId, uploadSignedUrlResponse);
+}
+
+/**
+ * Copies a single deposit, including its manuscript, supplementary files and PDF rendering, from one Orvium
+ * instance to another. Once the deposit is created in the target instance, a file that cannot be copied does not
+ * stop the others; once they have all been tried, the failures are reported with an `IncompleteMigrationError`
+ * that names the created deposit.
+ *
+ * @param {ApiConnection} source - Orvium instance the deposit is read from.
+ * @param {ApiConnection} target - Orvium instance the deposit is created in.
+ * @param {string} depositId - Identifier of the deposit in the source instance.
+ * @param {MigrateOptions} [options] - Target community override.
+ * @returns {Promise<string>} A promise that resolves with the identifier of the new deposit in the target instance.
+ * @throws {Error} Throws an error if the deposit cannot be read or created.
+ * @throws {IncompleteMigrationError} Throws an error listing the files that could not be copied, the manuscript
+ *   included, with the id of the new deposit.
+ */
+export async function migrateDeposit(
+  source: ApiConnection,
+  target: ApiConnection,
+  depositId: string,
+  options: MigrateOptions = {}
+): Promise<string> {
+  const depositPopulated = await getDepositById(source, depositId);
+
+  const deposit = toDeposit(depositPopulated);
+  deposit.authors = deposit.authors.map(transformAuthor);
+  if (options.targetCommunity) {
+    deposit.community = options.targetCommunity;
+  }
+
+  const targetId = await importSingleDeposit(target, deposit);
+
+  // From here on, every failure names the created deposit, so that it is not created again by a later run
+  const files: { file: FileMetadata; name: string; role: FileRole }[] = [
+    { file: depositPopulated.publicationFile, name: deposit.manuscript.filename, role: "manuscript" },
+    ...(depositPopulated.files ?? []).map((file) => ({ file, name: file.filename, role: "supplementary" as FileRole })),
+  ];
+  if (depositPopulated.pdfFile) {
+    files.push({ file: depositPopulated.pdfFile, name: depositPopulated.pdfFile.filename, role: "pdf" });
+  }
+  const failedFiles: FailedFileCopy[] = [];
+  let firstFailure: OrviumError | undefined;
+  for (const { file, name, role } of files) {
+    try {
+      await copyDepositFile(source, target, depositId, targetId, file, name, role);
+    } catch (error: any) {
+      loggerOf(target).error(
+        `File ${file.filename} of deposit ${depositId} could not be copied: ${error?.message ?? error}`
+      );
+      failedFiles.push({ filename: file.filename, error: error?.message ?? String(error) });
+      firstFailure ??= error instanceof OrviumError ? error : undefined;
+    }
+  }
+  if (failedFiles.length > 0) {
+    throw new IncompleteMigrationError(
+      `${failedFiles.length} file(s) could not be copied to deposit ${targetId}: ${failedFiles
+        .map((failure) => failure.filename)
+        .join(", ")}`,
+      { step: firstFailure?.step ?? "uploadToStorage", depositId, details: failedFiles },
+      targetId,
+      failedFiles
+    );
+  }
+  loggerOf(target).info(`Deposit ${depositId} migrated as ${targetId}: ${deposit.title}`);
+
+  return targetId;
+}
+
+/**
+ * Copies a list of deposits from one Orvium instance to another. Deposits are migrated one after the
+ * other and a failure does not stop the remaining migrations.
+ *
+ * @param {ApiConnection} source - Orvium instance the deposits are read from.
+ * @param {ApiConnection} target - Orvium instance the deposits are created in.
+ * @param {string[]} depositIds - Identifiers of the deposits in the source instance.
+ * @param {MigrateOptions} [options] - Target community override.
+ * @returns {Promise<MigrationResult[]>} A promise that resolves with the outcome of every deposit.
+ */
+export async function migrateDeposits(
+  source: ApiConnection,
+  target: ApiConnection,
+  depositIds: string[],
+  options: MigrateOptions = {}
+): Promise<MigrationResult[]> {
+  const results: MigrationResult[] = [];
+  for (const sourceId of depositIds) {
+    try {
+      const targetId = await migrateDeposit(source, target, sourceId, options);
+      results.push({ sourceId, status: "succeeded", targetId });
+    } catch (error: any) {
+      loggerOf(target).error(`Error migrating deposit ${sourceId}: ${error?.message ?? error}`);
+      const incomplete = error instanceof IncompleteMigrationError;
+      results.push({
+        sourceId,
+        status: "failed",
+        targetId: incomplete ? error.targetId : undefined,
+        error: error?.message ?? String(error),
+        failedFiles: incomplete ? error.failedFiles : undefined,
+      });
+    }
+  }
+  return results;
+}
+
+/**
+ * Copies every deposit of a source community to another Orvium instance.
+ *
+ * @param {ApiConnection} source - Orvium instance the deposits are read from.
+ * @param {ApiConnection} target - Orvium instance the deposits are created in.
+ * @param {string} community - Community of the source instance whose deposits are migrated.
+ * @param {MigrateOptions} [options] - Target community override.
+ * @returns {Promise<MigrationResult[]>} A promise that resolves with the outcome of every deposit.
+ */
+export async function migrateCommunity(
+  source: ApiConnection,
+  target: ApiConnection,
+  community: string,
+  options: MigrateOptions = {}
+): Promise<MigrationResult[]> {
+  const deposits = await listCommunityDeposits(source, community);
+  return migrateDeposits(
+    source,
+    target,
+    deposits.map((deposit) => deposit._id),
+    options
+  );
+}
@@ -0,0 +1,124 @@
+#!/usr/bin/env node
+
+/**
+ * CLI for running the in-memory mock Orvium API, for offline and CI tests of the tools and of integrations.
+ *
+ * Usage:
+ *   $ orvium-tools mock-server [--port <port>] [--host <host>] [--api-key <key>] [--api-key-user <user>]
+ *                              [--part-size <bytes>] [--fail <rule>]...
+ *   # or through the alias:
+ *   $ orvium-tools-mock-server [--port <port>]
+ *
+ * Options:
+ *   --port <port>          Port to listen on (default: a free port)
+ *   --host <host>          Host to listen on (default 127.0.0.1)
+ *   --api-key <key>        API key accepted by the server (default mock-api-key)
+ *   --api-key-user <user>  API key user accepted by the server (default mock-api-key-user)
+ *   --part-size <bytes>    Size of the parts of multipart uploads (default 5 MB)
+ *   --fail <rule>          Inject a failure, as "[METHOD] <path> [status] [times]", e.g. "PUT /storage/* 503 2"
+ *   (and the global options of cli.ts; --json prints the URL and API keys as JSON)
+ *
+ * Example:
+ *   $ orvium-tools mock-server --port 8080 --fail "PATCH /deposits/*\/files/confirm 500"
+ *   $ API_URL=http://127.0.0.1:8080 API_KEY=mock-api-key API_KEY_USER=mock-api-key-user orvium-tools import ./deposit Orvium
+ *
+ * Behavior:
+ *   - Calls `startMockServer(options)` and prints the environment variables pointing the tools at it.
+ *   - More failures can be injected while it runs with `POST /__mock/failures`.
+ *   - Peer reviews are added to deposits with `POST /__mock/reviews`, e.g. to test exports with --reviews.
+ *   - Runs until SIGTERM or SIGINT, then exits with 0.
+ */
+
+import { CliCommand, EXIT_CODES, UsageError, runStandalone } from "./cli";
+import { MockFailure, startMockServer } from "./mock-server";
+
+function integer(value: string | boolean | (string | boolean)[] | undefined, option: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new UsageError(`Invalid --${option}. Expected a whole number`);
+  }
+  return parsed;
+}
+
+// "[METHOD] <path> [status] [times]", e.g. "PUT /storage/* 503 2"
+function parseFailure(rule: string): MockFailure {
+  const words = rule.trim().split(/\s+/);
+  const method = /^[A-Za-z]+$/.test(words[0] ?? "") ? words.shift()?.toUpperCase() : undefined;
+  const [path, status, times] = words;
+  const failure: MockFailure = { method, path, status: Number(status ?? 500), times: Number(times ?? 1) };
+  if (!path?.startsWith("/") || words.length > 3 || !Number.isInteger(failure.status) || !Number.isInteger(failure.times)) {
+    throw new UsageError(`Invalid --fail "${rule}". Expected "[METHOD] <path> [status] [times]"`);
+  }
+  return failure;
+}
+
+export const mockServerCommand: CliCommand = {
+  name: "mock-server",
+  summary: "Run an in-memory mock of the Orvium API for offline tests, until stopped",
+  usage: [
+    "[--port <port>] [--host <host>] [--api-key <key>] [--api-key-user <user>]",
+    "  [--part-size <bytes>] [--fail <rule>]...",
+  ],
+  options: {
+    port: { type: "string", value: "<port>", description: "Port to listen on (default: a free port)" },
+    host: { type: "string", value: "<host>", description: "Host to listen on (default 127.0.0.1)" },
+    "api-key": { type: "string", value: "<key>", description: "API key accepted by the server (default mock-api-key)" },
+    "api-key-user": {
+      type: "string",
+      value: "<user>",
+      description: "API key user accepted by the server (default mock-api-key-user)",
+    },
+    "part-size": { type: "string", value: "<bytes>", description: "Size of the parts of multipart uploads (default 5 MB)" },
+    fail: {
+      type: "string",
+      multiple: true,
+      value: "<rule>",
+      description: 'Inject a failure, as "[METHOD] <path> [status] [times]", e.g. "PUT /storage/* 503 2"',
+    },
+  },
+
+  async run({ values }, context) {
+    const port = integer(values.port, "port");
+    const partSize = integer(values["part-size"], "part-size");
+    if (partSize === 0) {
+      throw new UsageError("Invalid --part-size. Expected a positive number of bytes");
+    }
+    const failures = ((values.fail as string[] | undefined) ?? []).map(parseFailure);
+
+    const server = await startMockServer({
+      port,
+      host: values.host as string | undefined,
+      apiKey: values["api-key"] as string | undefined,
+      apiKeyUser: values["api-key-user"] as string | undefined,
+      partSize,
+      failures,
+    });
+    const { apiUrl, apiKey, apiKeyUser } = server.connection();
+    context.output(
+      { apiUrl, apiKey, apiKeyUser },
+      [`Mock Orvium API listening on ${apiUrl}`, `API_URL=${apiUrl}`, `API_KEY=${apiKey}`, `API_KEY_USER=${apiKeyUser}`].join(
+        "\n"
+      )
+    );
+
+    await new Promise<void>((resolve) => {
+      const stop = (signal: NodeJS.Signals) => {
+        context.logger.info(`${signal} received, stopping the mock server`);
+        process.off("SIGTERM", stop);
+        process.off("SIGINT", stop);
+        resolve();
+      };
+      process.on("SIGTERM", stop);
+      process.on("SIGINT", stop);
+    });
+    await server.close();
+    return EXIT_CODES.success;
+  },
+};
+
+if (require.main === module) {
+  runStandalone(mockServerCommand, "orvium-tools-mock-server");
+}
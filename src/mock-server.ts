@@ -0,0 +1,705 @@
+/**
+ * In-process mock of the Orvium API, for end-to-end tests without API keys, a live instance or a network.
+ *
+ * - Implements the endpoints used by the toolkit: deposit creation, listing, update and deletion, signed upload
+ *   URLs (single and multipart), the signed storage URLs themselves, upload confirmation, deposit retrieval, the
+ *   302 file download, user summaries, the workflow operations (submit, publish, new version), and the peer
+ *   reviews of deposits with their files.
+ * - Keeps deposits and stored files in memory, until `reset()` or the server is closed.
+ * - Failures can be injected into any request, from the code or over HTTP (`POST /__mock/failures`), to test
+ *   retries, resumed imports and error handling.
+ * - Reviews are added with `addReview()` or `POST /__mock/reviews`, since the toolkit does not create them.
+ * - `GET /__mock/state` returns the deposits and reviews, and `POST /__mock/reset` empties the server.
+ */
+import * as crypto from "crypto";
+import * as http from "http";
+import { AddressInfo } from "net";
+import { ApiConnection } from "./api-connection";
+import {
+  DepositPopulated,
+  FileMetadata,
+  ManuscriptMetadata,
+  ReviewPopulated,
+  UserSummary,
+} from "./deposit-interfaces";
+import { normalizeOrcid } from "./authors";
+
+const DEFAULT_API_KEY = "mock-api-key";
+const DEFAULT_API_KEY_USER = "mock-api-key-user";
+const DEFAULT_PART_SIZE = 5 * 1024 * 1024;
+
+/**
+ * A failure injected into the requests of the mock server.
+ *
+ * @property {string} [method] - Only requests with this HTTP method, e.g. `PUT` (any method by default).
+ * @property {string} path - Path of the requests, where `*` matches any characters, e.g. `/storage/*` or `/deposits/*\/files/confirm`.
+ * @property {number} [status] - HTTP status of the failed response (defaults to 500).
+ * @property {number} [times] - Number of matching requests that fail (defaults to 1).
+ * @property {unknown} [body] - Body of the failed response (defaults to `{ message: "Injected failure" }`).
+ * @property {boolean} [drop] - Close the connection without any response instead, like a dropped network connection.
+ */
+export interface MockFailure {
+  method?: string;
+  path: string;
+  status?: number;
+  times?: number;
+  body?: unknown;
+  drop?: boolean;
+}
+
+/**
+ * Options of the mock server.
+ *
+ * @property {number} [port] - Port to listen on (defaults to a free port chosen by the system).
+ * @property {string} [host] - Host to listen on (defaults to `127.0.0.1`).
+ * @property {string} [apiKey] - API key accepted by the server (defaults to `mock-api-key`).
+ * @property {string} [apiKeyUser] - API key user accepted by the server (defaults to `mock-api-key-user`).
+ * @property {number} [partSize] - Size of the parts of multipart uploads in bytes (defaults to 5 MB).
+ * @property {MockFailure[]} [failures] - Failures injected from the start.
+ */
+export interface MockServerOptions {
+  port?: number;
+  host?: string;
+  apiKey?: string;
+  apiKeyUser?: string;
+  partSize?: number;
+  failures?: MockFailure[];
+}
+
+/**
+ * A request received by the mock server.
+ *
+ * @property {string} method - The HTTP method.
+ * @property {string} path - The path, without the query string.
+ * @property {number} status - The status of the response, or 0 for a dropped connection.
+ */
+export interface MockRequest {
+  method: string;
+  path: string;
+  status: number;
+}
+
+/**
+ * A review added to the mock server.
+ *
+ * @property {string} deposit - The reviewed deposit.
+ * @property {Record<string, string | Buffer>} [files] - The content of the files of the review by filename. The
+ *   file named like `file.filename` of the review is its report; the others are listed as extra files.
+ */
+export type MockReview = Partial<Omit<ReviewPopulated, "deposit">> & {
+  deposit: string;
+  files?: Record<string, string | Buffer>;
+};
+
+// A file between its signed URL request and its confirmation
+interface PendingUpload {
+  depositId: string;
+  fileMetadata: FileMetadata;
+  content?: Buffer;
+  parts?: Map<number, Buffer>;
+}
+
+class MockResponse {
+  constructor(
+    readonly status: number,
+    readonly body?: unknown,
+    readonly headers: Record<string, string> = {}
+  ) {}
+}
+
+function jsonResponse(status: number, body: unknown): MockResponse {
+  return new MockResponse(status, JSON.stringify(body), { "Content-Type": "application/json" });
+}
+
+function errorResponse(status: number, message: string): MockResponse {
+  return jsonResponse(status, { statusCode: status, message });
+}
+
+function pathPattern(path: string): RegExp {
+  const escaped = path.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"));
+  return new RegExp(`^${escaped.join(".*")}$`);
+}
+
+function readBody(req: http.IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+function parseJson(body: Buffer): any {
+  return body.length > 0 ? JSON.parse(body.toString("utf8")) : {};
+}
+
+/**
+ * A mock Orvium API listening on a local port. Point the toolkit at it with `connection()`, or with `url` and
+ * the API keys of the options.
+ *
+ * @example
+ * const server = await startMockServer();
+ * await importOrUpdateDeposit("./deposit", "Orvium", server.connection());
+ * await server.close();
+ */
+export class MockOrviumServer {
+  /** Deposits by id. */
+  readonly deposits = new Map<string, DepositPopulated>();
+
+  /** Reviews by id. */
+  readonly reviews = new Map<string, ReviewPopulated>();
+
+  /** Every request received, in order. */
+  readonly requests: MockRequest[] = [];
+
+  private readonly files = new Map<string, Buffer>();
+  private readonly uploads = new Map<string, PendingUpload>();
+  private failures: MockFailure[];
+  private server?: http.Server;
+  private baseUrl = "";
+
+  constructor(private readonly options: MockServerOptions = {}) {
+    this.failures = [...(options.failures ?? [])];
+  }
+
+  /**
+   * The base URL of the running server, e.g. `http://127.0.0.1:41234`.
+   */
+  get url(): string {
+    if (!this.server) {
+      throw new Error("The mock server is not started");
+    }
+    return this.baseUrl;
+  }
+
+  /**
+   * Starts listening.
+   *
+   * @returns {Promise<string>} A promise that resolves with the base URL of the server.
+   */
+  async start(): Promise<string> {
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        if (!res.headersSent) {
+          res.writeHead(500, { "Content-Type": "application/json" });
+        }
+        res.end(JSON.stringify({ statusCode: 500, message: error?.message ?? String(error) }));
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.options.port ?? 0, this.options.host ?? "127.0.0.1", () => resolve());
+    });
+    const { address, port } = server.address() as AddressInfo;
+    this.server = server;
+    this.baseUrl = `http://${address.includes(":") ? `[${address}]` : address}:${port}`;
+    return this.baseUrl;
+  }
+
+  /**
+   * Stops listening and closes the open connections.
+   */
+  async close(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = undefined;
+    await new Promise<void>((resolve) => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    });
+  }
+
+  /**
+   * Returns a connection to the server, to pass to the functions of the toolkit.
+   *
+   * @param {Partial<ApiConnection>} [overrides] - Settings added to the connection, e.g. `maxRetries` or `logger`.
+   * @returns {ApiConnection} The connection, with the API keys accepted by the server.
+   */
+  connection(overrides: Partial<ApiConnection> = {}): ApiConnection {
+    return {
+      apiUrl: this.url,
+      apiKey: this.options.apiKey ?? DEFAULT_API_KEY,
+      apiKeyUser: this.options.apiKeyUser ?? DEFAULT_API_KEY_USER,
+      ...overrides,
+    };
+  }
+
+  /**
+   * Makes the next matching requests fail.
+   *
+   * @param {MockFailure[]} failures - The failures to inject.
+   */
+  injectFailure(...failures: MockFailure[]): void {
+    this.failures.push(...failures);
+  }
+
+  /**
+   * Adds a peer review to a deposit, with the content of its files.
+   *
+   * @param {MockReview} review - The reviewed deposit, the review fields and the files of the review.
+   * @returns {ReviewPopulated} The review, as returned by the API.
+   * @throws {Error} Throws an error if the deposit does not exist.
+   */
+  addReview({ files = {}, ...fields }: MockReview): ReviewPopulated {
+    if (!this.deposits.has(fields.deposit)) {
+      throw new Error(`Deposit ${fields.deposit} not found`);
+    }
+    const review: ReviewPopulated = {
+      status: "published",
+      kind: "peer review",
+      creationDate: new Date().toISOString(),
+      ...fields,
+      _id: fields._id ?? crypto.randomBytes(12).toString("hex"),
+    };
+    const metadata = (filename: string, content: Buffer): FileMetadata => ({
+      filename,
+      description: filename,
+      contentType: filename.endsWith(".pdf") ? "application/pdf" : "application/octet-stream",
+      contentLength: content.length,
+      tags: [],
+    });
+    for (const [filename, value] of Object.entries(files)) {
+      const content = Buffer.from(value);
+      this.files.set(`${review._id}/${filename}`, content);
+      if (filename === review.file?.filename) {
+        review.file = { ...metadata(filename, content), ...review.file };
+      } else {
+        review.extraFiles = [...(review.extraFiles ?? []), metadata(filename, content)];
+      }
+    }
+    this.reviews.set(review._id, review);
+    return review;
+  }
+
+  /**
+   * Removes every deposit, review, stored file, injected failure and logged request.
+   */
+  reset(): void {
+    this.deposits.clear();
+    this.reviews.clear();
+    this.files.clear();
+    this.uploads.clear();
+    this.failures = [];
+    this.requests.length = 0;
+  }
+
+  /**
+   * Returns the content stored for a file of a deposit.
+   *
+   * @param {string} depositId - The deposit.
+   * @param {string} filename - The name of the file in the deposit.
+   * @returns {Buffer | undefined} The content of the confirmed file, or undefined if there is none.
+   */
+  fileContent(depositId: string, filename: string): Buffer | undefined {
+    return this.files.get(`${depositId}/${filename}`);
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const method = req.method ?? "GET";
+    const requestUrl = new URL(req.url ?? "/", this.baseUrl);
+    const path = decodeURIComponent(requestUrl.pathname);
+    const body = await readBody(req);
+    const log: MockRequest = { method, path, status: 0 };
+    this.requests.push(log);
+
+    const failure = this.failures.find(
+      (candidate) =>
+        (!candidate.method || candidate.method.toUpperCase() === method) && pathPattern(candidate.path).test(path)
+    );
+    let response: MockResponse | undefined;
+    if (failure) {
+      failure.times = (failure.times ?? 1) - 1;
+      if (failure.times <= 0) {
+        this.failures = this.failures.filter((candidate) => candidate !== failure);
+      }
+      if (failure.drop) {
+        req.socket.destroy();
+        return;
+      }
+      const status = failure.status ?? 500;
+      response = jsonResponse(status, failure.body ?? { statusCode: status, message: "Injected failure" });
+    } else {
+      response = this.route(method, path, requestUrl.searchParams, body, req.headers);
+    }
+
+    log.status = response.status;
+    res.writeHead(response.status, response.headers);
+    res.end(response.body as string | Buffer | undefined);
+  }
+
+  private route(
+    method: string,
+    path: string,
+    query: URLSearchParams,
+    body: Buffer,
+    headers: http.IncomingHttpHeaders
+  ): MockResponse {
+    const segments = path.split("/").filter((segment) => segment !== "");
+
+    if (segments[0] === "__mock") {
+      return this.routeAdmin(method, segments[1], body);
+    }
+    if (segments[0] === "storage") {
+      return this.routeStorage(method, segments.slice(1), body);
+    }
+    if (
+      headers["x-api-key"] !== (this.options.apiKey ?? DEFAULT_API_KEY) ||
+      headers["x-api-key-user"] !== (this.options.apiKeyUser ?? DEFAULT_API_KEY_USER)
+    ) {
+      return errorResponse(401, "Unauthorized");
+    }
+
+    const [collection, id, sub, filename] = segments;
+    if (collection === "users" && id === "profile" && filename === "summary" && method === "GET") {
+      return this.userSummary(sub);
+    }
+    if (collection === "reviews" && method === "GET") {
+      return this.routeReviews(id, sub, filename, query);
+    }
+    if (collection !== "deposits") {
+      return errorResponse(404, `Cannot ${method} ${path}`);
+    }
+    if (id === undefined && method === "GET") {
+      return this.listDeposits(query);
+    }
+    if (id === "importBasicDeposit" && sub === undefined && method === "POST") {
+      return this.createDeposit(parseJson(body));
+    }
+    const deposit = id !== undefined ? this.deposits.get(id) : undefined;
+    if (!deposit) {
+      return errorResponse(404, `Deposit ${id} not found`);
+    }
+
+    if (sub === undefined) {
+      switch (method) {
+        case "GET":
+          return jsonResponse(200, deposit);
+        case "PATCH":
+          Object.assign(deposit, parseJson(body));
+          return jsonResponse(200, deposit);
+        case "DELETE":
+          this.deleteDeposit(deposit._id);
+          return jsonResponse(200, deposit);
+      }
+    }
+    if (sub === "submit" && method === "PATCH") {
+      return this.transition(deposit, ["draft"], "pending_approval");
+    }
+    if (sub === "publish" && method === "PATCH") {
+      return this.transition(deposit, ["pending_approval", "preprint", "in_review"], "published");
+    }
+    if (sub === "createRevision" && method === "POST") {
+      return this.createVersion(deposit);
+    }
+    if (sub === "files" && filename === undefined && method === "POST") {
+      return this.createUpload(deposit, query, parseJson(body));
+    }
+    if (sub === "files" && filename === "confirm" && method === "PATCH") {
+      return this.confirmUpload(deposit, parseJson(body));
+    }
+    if (sub === "files" && filename !== undefined && method === "GET") {
+      if (!this.files.has(`${deposit._id}/${filename}`)) {
+        return errorResponse(404, `File ${filename} not found`);
+      }
+      const location = `${this.baseUrl}/storage/download/${deposit._id}/${encodeURIComponent(filename)}`;
+      return new MockResponse(302, undefined, { Location: location });
+    }
+    if (sub === "files" && filename !== undefined && method === "DELETE") {
+      deposit.files = (deposit.files ?? []).filter((file) => file.filename !== filename);
+      this.files.delete(`${deposit._id}/${filename}`);
+      return jsonResponse(200, deposit);
+    }
+    return errorResponse(404, `Cannot ${method} ${path}`);
+  }
+
+  private routeAdmin(method: string, action: string | undefined, body: Buffer): MockResponse {
+    if (action === "state" && method === "GET") {
+      return jsonResponse(200, {
+        deposits: [...this.deposits.values()],
+        reviews: [...this.reviews.values()],
+        requests: this.requests,
+      });
+    }
+    if (action === "reviews" && method === "POST") {
+      try {
+        return jsonResponse(201, this.addReview(parseJson(body)));
+      } catch (error: any) {
+        return errorResponse(400, error.message);
+      }
+    }
+    if (action === "failures" && method === "POST") {
+      const failures = parseJson(body);
+      this.injectFailure(...(Array.isArray(failures) ? failures : [failures]));
+      return jsonResponse(200, { failures: this.failures });
+    }
+    if (action === "reset" && method === "POST") {
+      this.reset();
+      return jsonResponse(200, {});
+    }
+    return errorResponse(404, `Cannot ${method} /__mock/${action ?? ""}`);
+  }
+
+  private routeStorage(method: string, segments: string[], body: Buffer): MockResponse {
+    const [kind, key, partsOrFile, partNumber] = segments;
+    if (kind === "download" && method === "GET" && partsOrFile !== undefined) {
+      const content = this.files.get(`${key}/${partsOrFile}`);
+      return content
+        ? new MockResponse(200, content, { "Content-Type": "application/octet-stream" })
+        : errorResponse(404, "NoSuchKey");
+    }
+    const upload = kind === "upload" ? this.uploads.get(key) : undefined;
+    if (!upload) {
+      return errorResponse(403, "The signed URL is not valid");
+    }
+    if (partsOrFile === undefined && method === "PUT") {
+      upload.content = body;
+      return new MockResponse(200, undefined, { ETag: `"${crypto.createHash("md5").update(body).digest("hex")}"` });
+    }
+    if (partsOrFile === "parts" && method === "PUT" && upload.parts) {
+      const etag = `"${crypto.createHash("md5").update(body).digest("hex")}"`;
+      upload.parts.set(Number(partNumber), body);
+      return new MockResponse(200, undefined, { ETag: etag });
+    }
+    if (partsOrFile === "complete" && method === "POST" && upload.parts) {
+      const parts = [...body.toString("utf8").matchAll(/<PartNumber>(\d+)<\/PartNumber>\s*<ETag>([^<]*)<\/ETag>/g)];
+      const contents: Buffer[] = [];
+      for (const [, number, etag] of parts) {
+        const part = upload.parts.get(Number(number));
+        if (!part || etag !== `"${crypto.createHash("md5").update(part).digest("hex")}"`) {
+          return new MockResponse(400, `<Error><Code>InvalidPart</Code><PartNumber>${number}</PartNumber></Error>`);
+        }
+        contents.push(part);
+      }
+      upload.content = Buffer.concat(contents);
+      return new MockResponse(200, `<CompleteMultipartUploadResult><Key>${key}</Key></CompleteMultipartUploadResult>`, {
+        "Content-Type": "application/xml",
+      });
+    }
+    return errorResponse(405, `Cannot ${method} the signed URL`);
+  }
+
+  private routeReviews(
+    id: string | undefined,
+    sub: string | undefined,
+    filename: string | undefined,
+    query: URLSearchParams
+  ): MockResponse {
+    if (id === undefined) {
+      const depositId = query.get("depositId");
+      return jsonResponse(
+        200,
+        [...this.reviews.values()].filter((review) => !depositId || review.deposit === depositId)
+      );
+    }
+    const review = this.reviews.get(id);
+    if (!review) {
+      return errorResponse(404, `Review ${id} not found`);
+    }
+    if (sub === undefined) {
+      return jsonResponse(200, review);
+    }
+    if (sub === "files" && filename !== undefined) {
+      if (!this.files.has(`${review._id}/${filename}`)) {
+        return errorResponse(404, `File ${filename} not found`);
+      }
+      const location = `${this.baseUrl}/storage/download/${review._id}/${encodeURIComponent(filename)}`;
+      return new MockResponse(302, undefined, { Location: location });
+    }
+    return errorResponse(404, `Cannot GET /reviews/${id}/${sub}`);
+  }
+
+  private createDeposit(payload: any): MockResponse {
+    const { community, ...metadata } = payload;
+    if (!metadata.title || !community) {
+      return errorResponse(400, "title and community are required");
+    }
+    const deposit = {
+      ...metadata,
+      _id: crypto.randomBytes(12).toString("hex"),
+      communityPopulated: { name: community },
+      authors: metadata.authors ?? [],
+      disciplines: metadata.disciplines ?? [],
+      keywords: metadata.keywords ?? [],
+      files: [],
+      status: "draft",
+      version: 1,
+      createdOn: new Date().toISOString(),
+    } as DepositPopulated;
+    this.deposits.set(deposit._id, deposit);
+    return jsonResponse(201, deposit);
+  }
+
+  private transition(deposit: DepositPopulated, from: string[], to: string): MockResponse {
+    if (!from.includes(deposit.status ?? "draft")) {
+      return errorResponse(400, `Deposit ${deposit._id} is ${deposit.status}, expected ${from.join(" or ")}`);
+    }
+    deposit.status = to;
+    if (to === "published") {
+      deposit.publicationDate = new Date().toISOString();
+    }
+    return jsonResponse(200, deposit);
+  }
+
+  // A new version is a draft copy of a published deposit, files included
+  private createVersion(deposit: DepositPopulated): MockResponse {
+    if (deposit.status !== "published") {
+      return errorResponse(400, `Deposit ${deposit._id} is ${deposit.status}, only published deposits get new versions`);
+    }
+    const { publicationDate, ...metadata } = deposit;
+    const version: DepositPopulated = {
+      ...structuredClone(metadata),
+      _id: crypto.randomBytes(12).toString("hex"),
+      status: "draft",
+      version: (deposit.version ?? 1) + 1,
+      createdOn: new Date().toISOString(),
+    };
+    for (const [key, content] of this.files) {
+      if (key.startsWith(`${deposit._id}/`)) {
+        this.files.set(`${version._id}/${key.slice(deposit._id.length + 1)}`, content);
+      }
+    }
+    this.deposits.set(version._id, version);
+    return jsonResponse(201, version);
+  }
+
+  private listDeposits(query: URLSearchParams): MockResponse {
+    const community = query.get("community");
+    const page = Math.max(1, Number(query.get("page") ?? 1));
+    const limit = Math.max(1, Number(query.get("limit") ?? 10));
+    const deposits = [...this.deposits.values()].filter(
+      (deposit) => !community || deposit.communityPopulated.name === community
+    );
+    return jsonResponse(200, { deposits: deposits.slice((page - 1) * limit, page * limit), count: deposits.length });
+  }
+
+  private deleteDeposit(depositId: string): void {
+    this.deposits.delete(depositId);
+    for (const review of [...this.reviews.values()].filter((candidate) => candidate.deposit === depositId)) {
+      this.reviews.delete(review._id);
+      for (const key of [...this.files.keys()].filter((file) => file.startsWith(`${review._id}/`))) {
+        this.files.delete(key);
+      }
+    }
+    for (const key of [...this.files.keys()].filter((file) => file.startsWith(`${depositId}/`))) {
+      this.files.delete(key);
+    }
+  }
+
+  private createUpload(deposit: DepositPopulated, query: URLSearchParams, payload: ManuscriptMetadata): MockResponse {
+    const file = payload?.file;
+    if (!file?.name || typeof file.size !== "number") {
+      return errorResponse(400, "file.name and file.size are required");
+    }
+    const key = crypto.randomBytes(16).toString("hex");
+    const isMainFile = query.get("isMainFile") === "true";
+    const replacePDF = query.get("replacePDF") === "true";
+    const fileMetadata: FileMetadata = {
+      filename: file.name,
+      description: file.name,
+      contentType: file.type,
+      contentLength: file.size,
+      tags: [],
+    };
+    const upload: PendingUpload = { depositId: deposit._id, fileMetadata };
+    const signedUrl = `${this.baseUrl}/storage/upload/${key}`;
+    const response: Record<string, unknown> = { signedUrl, fileMetadata, isMainFile, replacePDF };
+
+    if (query.get("multipart") === "true") {
+      const partSize = this.options.partSize ?? DEFAULT_PART_SIZE;
+      const count = Math.max(1, Math.ceil(file.size / partSize));
+      upload.parts = new Map();
+      response.multipart = {
+        uploadId: key,
+        partSize,
+        parts: Array.from({ length: count }, (_, index) => ({
+          partNumber: index + 1,
+          signedUrl: `${signedUrl}/parts/${index + 1}`,
+        })),
+        completeUrl: `${signedUrl}/complete`,
+      };
+    }
+    // A new signed URL for a file replaces the earlier ones, whose URLs stop working like expired ones
+    for (const [pending, { depositId, fileMetadata: requested }] of this.uploads) {
+      if (depositId === deposit._id && requested.filename === file.name) {
+        this.uploads.delete(pending);
+      }
+    }
+    this.uploads.set(key, upload);
+    return jsonResponse(201, response);
+  }
+
+  private confirmUpload(deposit: DepositPopulated, payload: any): MockResponse {
+    const fileMetadata: FileMetadata | undefined = payload?.fileMetadata;
+    const entry = [...this.uploads.entries()].find(
+      ([, upload]) => upload.depositId === deposit._id && upload.fileMetadata.filename === fileMetadata?.filename
+    );
+    if (!fileMetadata || !entry) {
+      return errorResponse(400, `No upload of ${fileMetadata?.filename} was requested`);
+    }
+    const [key, upload] = entry;
+    if (!upload.content) {
+      return errorResponse(400, `${fileMetadata.filename} was not uploaded to storage`);
+    }
+    if (upload.content.length !== upload.fileMetadata.contentLength) {
+      return errorResponse(
+        400,
+        `${fileMetadata.filename} was stored with ${upload.content.length} bytes, expected ${upload.fileMetadata.contentLength}`
+      );
+    }
+
+    this.uploads.delete(key);
+    this.files.set(`${deposit._id}/${fileMetadata.filename}`, upload.content);
+    const confirmed = { ...upload.fileMetadata, ...fileMetadata };
+    if (payload.replacePDF) {
+      deposit.pdfFile = confirmed;
+    } else if (payload.isMainFile) {
+      deposit.publicationFile = confirmed;
+    } else {
+      deposit.files = [...(deposit.files ?? []).filter((file) => file.filename !== confirmed.filename), confirmed];
+    }
+    return jsonResponse(200, deposit);
+  }
+
+  private userSummary(orcid: string | undefined): MockResponse {
+    const normalized = orcid ? normalizeOrcid(orcid) : undefined;
+    const deposits = [...this.deposits.values()].filter((deposit) =>
+      deposit.authors.some((author) => author.orcid && normalizeOrcid(author.orcid) === normalized)
+    );
+    if (!normalized || deposits.length === 0) {
+      return errorResponse(404, `User ${orcid} not found`);
+    }
+    const author = deposits[0].authors.find((candidate) => normalizeOrcid(candidate.orcid ?? "") === normalized);
+    const summary: UserSummary = {
+      nickname: author?.nickName,
+      orcid: `https://orcid.org/${normalized}`,
+      depositsSummaryPopulated: deposits.map((deposit) => ({
+        title: deposit.title,
+        abstract: deposit.abstract,
+        submissionDate: deposit.createdOn,
+        status: deposit.status ?? "draft",
+        authors: deposit.authors,
+        keywords: deposit.keywords,
+        doi: deposit.doi,
+      })),
+      peerReviewsSummaryPopulated: [],
+      communitiesSummaryPopulated: [...new Set(deposits.map((deposit) => deposit.communityPopulated.name))].map(
+        (name) => ({ name })
+      ),
+    };
+    return jsonResponse(200, summary);
+  }
+}
+
+/**
+ * Creates and starts a mock Orvium API.
+ *
+ * @param {MockServerOptions} [options] - Port, API keys, part size and failures injected from the start.
+ * @returns {Promise<MockOrviumServer>} A promise that resolves with the running server.
+ */
+export async function startMockServer(options: MockServerOptions = {}): Promise<MockOrviumServer> {
+  const server = new MockOrviumServer(options);
+  await server.start();
+  return server;
+}
@@ -0,0 +1,159 @@
+/**
+ * Uploads of large files in parts.
+ *
+ * - Files of at least `multipartThreshold` bytes ask the platform for a multipart upload when requesting their
+ *   signed URL. A platform that supports it answers with a signed URL per part; otherwise the file is sent in a
+ *   single request as usual.
+ * - Every part is read from disk and sent on its own, and retried on its own after a dropped connection, so a
+ *   failure never repeats the parts already stored.
+ * - The parts stored so far can be saved (e.g. in the import checkpoint) and given back to resume the upload later,
+ *   as long as its signed URLs have not expired.
+ */
+import * as fs from "fs";
+import { pipeline } from "stream";
+import { ApiConnection } from "./api-connection";
+import { ManuscriptMetadata, MultipartUpload, UploadedPart } from "./deposit-interfaces";
+import { OrviumError, StorageUploadError } from "./errors";
+import { request } from "./transport";
+import { countingStream, reportProgress } from "./logger";
+
+/**
+ * Size from which files are uploaded in parts when the connection does not set `multipartThreshold`: 100 MB.
+ */
+export const DEFAULT_MULTIPART_THRESHOLD = 100 * 1024 * 1024;
+
+/**
+ * Options accepted by `uploadFileInParts`.
+ *
+ * @property {UploadedPart[]} [uploaded] - Parts already stored by a previous attempt, which are not sent again.
+ * @property {Function} [onPart] - Called after each part is stored, e.g. to save it in a checkpoint.
+ */
+export interface MultipartUploadOptions {
+  uploaded?: UploadedPart[];
+  onPart?: (part: UploadedPart) => void;
+}
+
+/**
+ * Checks whether a file is large enough to be uploaded in parts.
+ *
+ * @param {ApiConnection | undefined} connection - The connection, which may set `multipartThreshold`.
+ * @param {ManuscriptMetadata} manuscriptMetadata - The metadata of the file, with its size.
+ * @returns {boolean} True if the file has at least `multipartThreshold` bytes (100 MB by default).
+ */
+export function usesMultipartUpload(
+  connection: ApiConnection | undefined,
+  manuscriptMetadata: ManuscriptMetadata
+): boolean {
+  return manuscriptMetadata.file.size >= (connection?.multipartThreshold ?? DEFAULT_MULTIPART_THRESHOLD);
+}
+
+/**
+ * Checks whether an upload to storage failed because its signed URL expired or was revoked, so that retrying it
+ * with the same URL cannot succeed: storage answers 403, or reports the request as expired.
+ *
+ * @param {unknown} error - The error of a part, of the assembly of the parts or of a single upload.
+ * @returns {boolean} True if a new signed URL must be requested.
+ */
+export function isExpiredSignedUrl(error: unknown): boolean {
+  return (
+    error instanceof OrviumError &&
+    (error.step === "uploadToStorage" || error.step === "completeMultipartUpload") &&
+    (error.status === 403 || /expired/i.test(error.message))
+  );
+}
+
+// Body of the S3 CompleteMultipartUpload request, listing the parts in order
+function completeMultipartBody(parts: UploadedPart[]): string {
+  const entries = [...parts]
+    .sort((a, b) => a.partNumber - b.partNumber)
+    .map((part) => `<Part><PartNumber>${part.partNumber}</PartNumber><ETag>${part.etag}</ETag></Part>`);
+  return `<CompleteMultipartUpload>${entries.join("")}</CompleteMultipartUpload>`;
+}
+
+/**
+ * Uploads a local file in parts to the signed URLs of a multipart upload, then assembles the parts. Bytes sent
+ * are reported to the logger of the connection as `bytesUploaded` progress events, counting the parts already
+ * stored.
+ *
+ * @param {ApiConnection} connection - The Orvium instance the signed URLs were obtained from.
+ * @param {string} filePath - Path of the file.
+ * @param {MultipartUpload} multipart - The multipart upload returned with the signed URL of the file.
+ * @param {ManuscriptMetadata} manuscriptMetadata - The metadata of the file, with its name and size.
+ * @param {string} [depositId] - The deposit the file belongs to, reported in errors.
+ * @param {MultipartUploadOptions} [options] - Parts already stored, and a callback for every part stored.
+ * @returns {Promise<UploadedPart[]>} A promise that resolves with every part once the file is assembled.
+ * @throws {StorageUploadError} Throws if the parts do not cover the file, or a part or the assembly fails.
+ */
+export async function uploadFileInParts(
+  connection: ApiConnection,
+  filePath: string,
+  multipart: MultipartUpload,
+  manuscriptMetadata: ManuscriptMetadata,
+  depositId?: string,
+  options: MultipartUploadOptions = {}
+): Promise<UploadedPart[]> {
+  const { name: file, size: total } = manuscriptMetadata.file;
+  const context = { step: "uploadToStorage" as const, depositId, storage: true, errorClass: StorageUploadError };
+  if (multipart.partSize <= 0 || multipart.partSize * multipart.parts.length < total) {
+    throw new StorageUploadError(
+      `The ${multipart.parts.length} parts of ${multipart.partSize} bytes do not cover the ${total} bytes of ${file}`,
+      { step: "uploadToStorage", depositId, details: { uploadId: multipart.uploadId } }
+    );
+  }
+
+  const uploaded = [...(options.uploaded ?? [])];
+  const rangeOf = (partNumber: number) => {
+    const start = (partNumber - 1) * multipart.partSize;
+    return { start, end: Math.min(start + multipart.partSize, total) - 1 };
+  };
+  let sent = uploaded.reduce((bytes, part) => {
+    const { start, end } = rangeOf(part.partNumber);
+    return bytes + Math.max(0, end - start + 1);
+  }, 0);
+
+  for (const part of multipart.parts) {
+    if (uploaded.some((stored) => stored.partNumber === part.partNumber)) {
+      continue;
+    }
+    const { start, end } = rangeOf(part.partNumber);
+    if (start >= total) {
+      continue; // The platform may sign more parts than the file needs
+    }
+    const response = await request(connection, context, () => ({
+      method: "PUT",
+      url: part.signedUrl,
+      data: pipeline(
+        fs.createReadStream(filePath, { start, end }),
+        countingStream((bytes) =>
+          reportProgress(connection, { type: "bytesUploaded", depositId, file, bytes: sent + bytes, total })
+        ),
+        () => undefined // Errors of the file reach the request through the counting stream
+      ),
+      headers: { "Content-Length": end - start + 1 },
+    }));
+    const etag = response.headers["etag"];
+    if (!etag) {
+      throw new StorageUploadError(`Part ${part.partNumber} of ${file} was stored without an ETag`, {
+        step: "uploadToStorage",
+        depositId,
+        details: { uploadId: multipart.uploadId, partNumber: part.partNumber },
+      });
+    }
+    const stored = { partNumber: part.partNumber, etag: String(etag) };
+    uploaded.push(stored);
+    sent += end - start + 1;
+    options.onPart?.(stored);
+  }
+
+  await request(
+    connection,
+    { ...context, step: "completeMultipartUpload" },
+    {
+      method: "POST",
+      url: multipart.completeUrl,
+      data: completeMultipartBody(uploaded),
+      headers: { "Content-Type": "application/xml" },
+    }
+  );
+  return uploaded;
+}
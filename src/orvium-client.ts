@@ -0,0 +1,284 @@
+/**
+ * Configurable client for the Orvium API.
+ *
+ * An `OrviumClient` is built from an explicit connection (base URL, API keys, timeout and optionally an
+ * axios instance) instead of the process environment, so a single Node process can work with several
+ * Orvium instances or users at the same time. Connections can also be stored as named profiles in a
+ * JSON config file:
+ *
+ * {
+ *   "defaultProfile": "staging",
+ *   "profiles": {
+ *     "staging": { "apiUrl": "https://...", "apiKey": "...", "apiKeyUser": "...", "timeout": 30000 }
+ *   }
+ * }
+ *
+ * Every method throws an error on failure; nothing in this module terminates the process.
+ */
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Writable } from "stream";
+import { ApiConnection, connectionFromEnv } from "./api-connection";
+import {
+  ExportManifest,
+  DepositStatusEntry,
+  ImportManifest,
+  LifecycleAction,
+  LifecycleResult,
+  SyncResult,
+  UserSummary,
+  UserSummaryReport,
+} from "./deposit-interfaces";
+import { ExportOptions, exportDeposit, exportDepositToStream } from "./export-deposit";
+import { CommunityExportOptions, exportCommunity } from "./export-community";
+import { BatchImportOptions, importDeposits } from "./import-batch";
+import { ImportDepositOptions, importDepositFromDirectory } from "./import-deposit";
+import { SyncOptions, syncDeposit } from "./sync-deposit";
+import { LifecycleOptions, getDepositStatuses, runLifecycleAction } from "./deposit-lifecycle";
+import { getUserSummary, getUserSummaryReport } from "./user-summary";
+
+/**
+ * A named connection stored in the profiles config file. It holds the serialisable part of an `ApiConnection`.
+ */
+export type OrviumProfile = Omit<ApiConnection, "axiosInstance" | "logger">;
+
+/**
+ * Structure of the profiles config file.
+ *
+ * @property {string} [defaultProfile] - Profile used when no profile name is given.
+ * @property {Record<string, OrviumProfile>} profiles - Connections keyed by profile name.
+ */
+export interface OrviumProfilesConfig {
+  defaultProfile?: string;
+  profiles: Record<string, OrviumProfile>;
+}
+
+/**
+ * Returns the location of the profiles config file: the `ORVIUM_TOOLS_CONFIG` environment variable
+ * if set, otherwise `.orvium-tools.json` in the user home directory.
+ *
+ * @returns {string} The path of the profiles config file.
+ */
+export function defaultConfigPath(): string {
+  return (
+    process.env.ORVIUM_TOOLS_CONFIG ??
+    path.join(os.homedir(), ".orvium-tools.json")
+  );
+}
+
+/**
+ * Loads a named profile from a profiles config file.
+ *
+ * @param {string} [profileName] - Name of the profile (defaults to the `defaultProfile` of the file).
+ * @param {string} [configPath] - Path of the config file (defaults to `defaultConfigPath()`).
+ * @returns {OrviumProfile} The connection stored in the profile.
+ * @throws {Error} Throws an error if the file cannot be read or the profile does not exist.
+ */
+export function loadProfile(
+  profileName?: string,
+  configPath: string = defaultConfigPath()
+): OrviumProfile {
+  const config: OrviumProfilesConfig = JSON.parse(
+    fs.readFileSync(configPath, "utf8")
+  );
+  const name = profileName ?? config.defaultProfile;
+  if (!name) {
+    throw new Error(`No profile given and no defaultProfile set in ${configPath}`);
+  }
+  const profile = config.profiles?.[name];
+  if (!profile) {
+    throw new Error(`Profile "${name}" not found in ${configPath}`);
+  }
+  return profile;
+}
+
+/**
+ * Client bound to a single Orvium instance and user. It exposes the import, export and user summary
+ * operations of the toolkit as methods that use the client connection.
+ */
+export class OrviumClient {
+  /**
+   * Connection used for every request made by this client.
+   */
+  readonly connection: ApiConnection;
+
+  /**
+   * Creates a client for an Orvium instance.
+   *
+   * @param {ApiConnection} config - Base URL, API keys and optional timeout and axios instance.
+   * @throws {Error} Throws an error if the base URL or any of the API keys is missing.
+   */
+  constructor(config: ApiConnection) {
+    if (!config.apiUrl || !config.apiKey || !config.apiKeyUser) {
+      throw new Error("OrviumClient requires apiUrl, apiKey and apiKeyUser");
+    }
+    this.connection = { ...config, apiUrl: config.apiUrl.replace(/\/+$/, "") };
+  }
+
+  /**
+   * Creates a client from the `API_URL`, `API_KEY` and `API_KEY_USER` environment variables (or `.env` file).
+   *
+   * @param {string} [prefix] - Prefix of the environment variable names, e.g. `SOURCE_`.
+   * @returns {OrviumClient} The new client.
+   */
+  static fromEnv(prefix?: string): OrviumClient {
+    return new OrviumClient(connectionFromEnv(prefix));
+  }
+
+  /**
+   * Creates a client from a named profile of a profiles config file.
+   *
+   * @param {string} [profileName] - Name of the profile (defaults to the `defaultProfile` of the file).
+   * @param {string} [configPath] - Path of the config file (defaults to `defaultConfigPath()`).
+   * @returns {OrviumClient} The new client.
+   */
+  static fromProfile(profileName?: string, configPath?: string): OrviumClient {
+    return new OrviumClient(loadProfile(profileName, configPath));
+  }
+
+  /**
+   * Imports a deposit folder (or an exported deposit zip) into a community. A deposit with the same DOI or
+   * `sourceId` that already exists is skipped, updated or replaced according to `options.onExisting`.
+   *
+   * @param {string} directoryPath - Directory with the deposit manuscript and metadata, or a deposit zip archive.
+   * @param {string} [community] - Community where the deposit is created (defaults to the community in `meta.json`).
+   * @param {ImportDepositOptions} [options] - What to do when the deposit already exists (defaults to `skip`).
+   * @returns {Promise<string>} A promise that resolves with the identifier of the created or existing deposit.
+   */
+  importDeposit(
+    directoryPath: string,
+    community?: string,
+    options: ImportDepositOptions = {}
+  ): Promise<string> {
+    return importDepositFromDirectory(directoryPath, community, this.connection, options);
+  }
+
+  /**
+   * Imports every deposit folder below a root directory, recording the results in a run manifest.
+   *
+   * @param {string} rootPath - Parent directory containing the deposit folders.
+   * @param {string} community - Community where the deposits are created.
+   * @param {BatchImportOptions} [options] - Concurrency and manifest location.
+   * @returns {Promise<ImportManifest>} A promise that resolves with the updated manifest.
+   */
+  importDeposits(
+    rootPath: string,
+    community: string,
+    options: Omit<BatchImportOptions, "connection"> = {}
+  ): Promise<ImportManifest> {
+    return importDeposits(rootPath, community, {
+      ...options,
+      connection: this.connection,
+    });
+  }
+
+  /**
+   * Exports a deposit as a `deposit_<id>.zip` file.
+   *
+   * @param {string} depositId - The unique identifier of the deposit to export.
+   * @param {string} downloadPath - Directory where the zip file is written.
+   * @param {ExportOptions} [options] - Metadata formats written alongside `meta.json`, and whether reviews are included.
+   * @returns {Promise<void>} A promise that resolves when the zip file has been written.
+   */
+  exportDeposit(
+    depositId: string,
+    downloadPath: string,
+    options: ExportOptions = {}
+  ): Promise<void> {
+    return exportDeposit(depositId, downloadPath, this.connection, options);
+  }
+
+  /**
+   * Exports a deposit as a zip archive written to a stream, without temporary files.
+   *
+   * @param {string} depositId - The unique identifier of the deposit to export.
+   * @param {Writable} output - The stream the archive is written to; it is ended once the archive is complete.
+   * @param {ExportOptions} [options] - Metadata formats written alongside `meta.json`, and whether reviews are included.
+   * @returns {Promise<number>} A promise that resolves with the size of the archive in bytes.
+   */
+  exportDepositToStream(
+    depositId: string,
+    output: Writable,
+    options: ExportOptions = {}
+  ): Promise<number> {
+    return exportDepositToStream(depositId, output, this.connection, options);
+  }
+
+  /**
+   * Exports every deposit of a community that matches the filters, recording the results in a run manifest.
+   *
+   * @param {string} community - Community whose deposits are exported.
+   * @param {string} downloadPath - Directory where the zip files and the manifest are written.
+   * @param {CommunityExportOptions} [options] - Filters, metadata formats, reviews, combined archive and manifest location.
+   * @returns {Promise<ExportManifest>} A promise that resolves with the updated manifest.
+   */
+  exportCommunity(
+    community: string,
+    downloadPath: string,
+    options: Omit<CommunityExportOptions, "connection"> = {}
+  ): Promise<ExportManifest> {
+    return exportCommunity(community, downloadPath, {
+      ...options,
+      connection: this.connection,
+    });
+  }
+
+  /**
+   * Pushes the corrected metadata fields and main file of a local deposit folder to the deposit it was imported as.
+   *
+   * @param {string} directoryPath - Directory with the deposit manuscript and metadata, or a deposit zip archive.
+   * @param {string} [depositId] - The deposit to update (defaults to the deposit of the community with the same DOI or `sourceId`).
+   * @param {SyncOptions} [options] - Whether the main file is compared, and the confirmation callback.
+   * @returns {Promise<SyncResult>} A promise that resolves with the differences and whether they were pushed.
+   */
+  syncDeposit(directoryPath: string, depositId?: string, options: SyncOptions = {}): Promise<SyncResult> {
+    return syncDeposit(directoryPath, depositId, this.connection, options);
+  }
+
+  /**
+   * Runs a workflow operation (`submit`, `publish` or `new-version`) on a list of deposits.
+   *
+   * @param {LifecycleAction} action - The operation.
+   * @param {string[]} depositIds - The deposits.
+   * @param {LifecycleOptions} [options] - Concurrency, and a callback for every result.
+   * @returns {Promise<LifecycleResult[]>} A promise that resolves with the result of every deposit.
+   */
+  runLifecycleAction(
+    action: LifecycleAction,
+    depositIds: string[],
+    options: LifecycleOptions = {}
+  ): Promise<LifecycleResult[]> {
+    return runLifecycleAction(action, depositIds, this.connection, options);
+  }
+
+  /**
+   * Retrieves the current workflow status of a list of deposits.
+   *
+   * @param {string[]} depositIds - The deposits.
+   * @returns {Promise<DepositStatusEntry[]>} A promise that resolves with the status of every deposit.
+   */
+  getDepositStatuses(depositIds: string[]): Promise<DepositStatusEntry[]> {
+    return getDepositStatuses(depositIds, this.connection);
+  }
+
+  /**
+   * Retrieves the contributions summary of a user.
+   *
+   * @param {string} orcid - ORCID iD of the user.
+   * @returns {Promise<UserSummary>} A promise that resolves with the summary.
+   */
+  getUserSummary(orcid: string): Promise<UserSummary> {
+    return getUserSummary(orcid, this.connection);
+  }
+
+  /**
+   * Builds one report with the contributions of several users.
+   *
+   * @param {string[]} orcids - ORCID iDs of the users.
+   * @returns {Promise<UserSummaryReport>} A promise that resolves with the contributions of every user and the totals.
+   */
+  getUserSummaryReport(orcids: string[]): Promise<UserSummaryReport> {
+    return getUserSummaryReport(orcids, this.connection);
+  }
+}
@@ -0,0 +1,57 @@
+#!/usr/bin/env node
+
+/**
+ * Single entry point of the Orvium Tools CLI.
+ *
+ * Usage:
+ *   $ orvium-tools <command> [options] [arguments]
+ *   $ orvium-tools <command> --help
+ *
+ * Commands:
+ *   import       Import a deposit folder or zip, or a batch of deposit folders
+ *   export       Export a deposit, or every deposit of a community
+ *   summary      Print the contributions of a user, or a report for a list of ORCIDs
+ *   migrate      Copy deposits from one Orvium instance to another
+ *   validate     Check deposit folders against the metadata schema (offline)
+ *   verify       Check exported archives against their manifest (offline)
+ *   sync         Push the corrected metadata and main file of a deposit folder to its deposit
+ *   watch        Import the deposit folders dropped into a hot folder, until stopped
+ *   submit       Submit draft deposits to their community
+ *   publish      Publish deposits accepted by their community (moderators only)
+ *   new-version  Create a new draft version of published deposits
+ *   status       List deposits with their current workflow status
+ *   mock-server  Run an in-memory mock of the Orvium API for offline tests, until stopped
+ *
+ * Global options, help text and exit codes are shared by every command, see cli.ts.
+ * The orvium-tools-import, orvium-tools-export, ... binaries run the same commands.
+ */
+
+import { runCli } from "./cli";
+import { newVersionCommand, publishCommand, statusCommand, submitCommand } from "./deposit-lifecycle-cli";
+import { exportCommand } from "./export-deposit-cli";
+import { importCommand } from "./import-deposit-cli";
+import { migrateCommand } from "./migrate-deposit-cli";
+import { mockServerCommand } from "./mock-server-cli";
+import { summaryCommand } from "./user-summary-cli";
+import { syncCommand } from "./sync-deposit-cli";
+import { validateCommand } from "./validate-deposit-cli";
+import { verifyCommand } from "./verify-deposit-cli";
+import { watchCommand } from "./watch-folder-cli";
+
+const COMMANDS = [
+  importCommand,
+  exportCommand,
+  summaryCommand,
+  migrateCommand,
+  validateCommand,
+  verifyCommand,
+  syncCommand,
+  watchCommand,
+  submitCommand,
+  publishCommand,
+  newVersionCommand,
+  statusCommand,
+  mockServerCommand,
+];
+
+runCli(COMMANDS, process.argv.slice(2)).then((code) => process.exit(code));
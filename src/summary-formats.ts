@@ -0,0 +1,136 @@
+/**
+ * Text renderings of user contributions summaries and multi-ORCID reports.
+ *
+ * - A table with aligned columns, for the terminal.
+ * - CSV, for spreadsheets.
+ * - Markdown, for reports and wikis.
+ * - JSON, the summary or report as returned by the API.
+ *
+ * A summary is rendered as one row per deposit, peer review and community; a report as one row per person,
+ * followed by the totals.
+ */
+import { ContributionCounts, UserSummary, UserSummaryReport } from "./deposit-interfaces";
+
+/**
+ * A text format for summaries and reports.
+ */
+export type SummaryFormat = "json" | "table" | "csv" | "markdown";
+
+/**
+ * Every summary format, starting with the default one.
+ */
+export const SUMMARY_FORMATS: SummaryFormat[] = ["json", "table", "csv", "markdown"];
+
+/**
+ * Checks that a string names a summary format.
+ *
+ * @param {string} value - The value to check, e.g. a command line argument.
+ * @returns {boolean} True if the value is one of `SUMMARY_FORMATS`.
+ */
+export function isSummaryFormat(value: string): value is SummaryFormat {
+  return (SUMMARY_FORMATS as string[]).includes(value);
+}
+
+// --- Helpers -----------------------------------------------------------------
+
+function renderTable(header: string[], rows: string[][]): string {
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row[column].length))
+  );
+  const line = (cells: string[]) =>
+    cells.map((cell, column) => cell.padEnd(widths[column])).join("  ").trimEnd();
+  return [line(header), line(widths.map((width) => "-".repeat(width))), ...rows.map(line)].join("\n");
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function markdownCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\s*\r?\n\s*/g, " ");
+}
+
+/**
+ * Renders rows of cells as an aligned table, CSV or Markdown, e.g. for other listings of the command line tools.
+ *
+ * @param {string[]} header - The column titles.
+ * @param {string[][]} rows - The rows, with one cell per column.
+ * @param {SummaryFormat} format - The text format; `json` is rendered by the caller.
+ * @returns {string} The rendered rows.
+ */
+export function renderRows(header: string[], rows: string[][], format: Exclude<SummaryFormat, "json">): string {
+  switch (format) {
+    case "table":
+      return renderTable(header, rows);
+    case "csv":
+      return [header, ...rows].map((row) => row.map(csvField).join(",")).join("\n");
+    case "markdown":
+      return [header, header.map(() => "---"), ...rows]
+        .map((row) => `| ${row.map(markdownCell).join(" | ")} |`)
+        .join("\n");
+  }
+}
+
+function countCells(counts: ContributionCounts): string[] {
+  return [counts.deposits, counts.publishedDeposits, counts.reviews, counts.communities].map(String);
+}
+
+// --- Renderers ---------------------------------------------------------------
+
+/**
+ * Renders the contributions summary of a user, one row per deposit, peer review and community.
+ *
+ * @param {UserSummary} summary - The summary retrieved with `getUserSummary`.
+ * @param {SummaryFormat} format - The format to render.
+ * @returns {string} The rendered summary.
+ */
+export function formatUserSummary(summary: UserSummary, format: SummaryFormat): string {
+  if (format === "json") {
+    return JSON.stringify(summary, null, 2);
+  }
+  const rows = [
+    ...summary.depositsSummaryPopulated.map((deposit) => [
+      "deposit",
+      deposit.title,
+      deposit.status,
+      deposit.submissionDate ?? "",
+      deposit.doi ?? deposit.url ?? "",
+    ]),
+    ...summary.peerReviewsSummaryPopulated.map((review) => [
+      "review",
+      review.kind ?? "",
+      review.status,
+      "",
+      review.decision ?? "",
+    ]),
+    ...summary.communitiesSummaryPopulated.map((community) => [
+      "community",
+      community.name,
+      community.type ?? "",
+      "",
+      community.country ?? "",
+    ]),
+  ];
+  return renderRows(["type", "title", "status", "date", "details"], rows, format);
+}
+
+/**
+ * Renders a multi-ORCID report, one row per person with their contribution counts, followed by the totals.
+ *
+ * @param {UserSummaryReport} report - The report built with `getUserSummaryReport`.
+ * @param {SummaryFormat} format - The format to render.
+ * @returns {string} The rendered report.
+ */
+export function formatSummaryReport(report: UserSummaryReport, format: SummaryFormat): string {
+  if (format === "json") {
+    return JSON.stringify(report, null, 2);
+  }
+  const rows = report.people.map((person) => [
+    person.orcid,
+    person.nickname ?? "",
+    ...countCells(person.counts),
+    person.error ?? "",
+  ]);
+  rows.push(["total", "", ...countCells(report.totals), ""]);
+  return renderRows(["orcid", "nickname", "deposits", "published", "reviews", "communities", "error"], rows, format);
+}
@@ -0,0 +1,102 @@
+#!/usr/bin/env node
+
+/**
+ * CLI for pushing the corrections of a local deposit folder to the deposit it was imported as.
+ *
+ * Usage:
+ *   $ orvium-tools sync [--yes] [--dry-run] [--metadata-only] [--community <name>] <directory> [depositId]
+ *   # or through the alias:
+ *   $ orvium-tools-sync <directory> [depositId]
+ *
+ * Arguments:
+ *   <directory>  Deposit folder (or exported deposit zip) with the corrected metadata and main file
+ *   <depositId>  The deposit to update (optional: defaults to the deposit of the community with the same DOI or sourceId)
+ *
+ * Options:
+ *   --yes            Push the differences without asking for confirmation
+ *   --dry-run        Print the differences only
+ *   --metadata-only  Do not compare the main file, which downloads it when both copies have the same size
+ *   --community      Community searched for the deposit without a depositId (defaults to the community in meta.json)
+ *   (and the global options of cli.ts; --json prints the differences and whether they were pushed as JSON)
+ *
+ * Example:
+ *   $ orvium-tools sync ./manuscripts/manuscript_1 64a09f6ce3d5ff0813586345
+ *
+ * Behavior:
+ *   - Calls `syncDeposit(directory, depositId, connection, options)` and prints the diff computed by
+ *     `formatDepositDiff` before asking for confirmation.
+ *   - Without --yes, stdin must be a terminal to confirm; declining leaves the deposit unchanged and exits with 1.
+ */
+
+import { CliCommand, EXIT_CODES, UsageError, confirmPrompt, runStandalone } from "./cli";
+import { diffDeposit, formatDepositDiff, syncDeposit } from "./sync-deposit";
+
+export const syncCommand: CliCommand = {
+  name: "sync",
+  summary: "Push the corrected metadata and main file of a deposit folder to the deposit it was imported as",
+  usage: ["[--yes] [--dry-run] [--metadata-only] [--community <name>] <directory> [depositId]"],
+  arguments: [
+    ["<directory>", "Deposit folder (or exported deposit zip) with the corrected metadata and main file"],
+    ["[depositId]", "The deposit to update (defaults to the deposit of the community with the same DOI or sourceId)"],
+  ],
+  options: {
+    yes: { type: "boolean", short: "y", description: "Push the differences without asking for confirmation" },
+    "dry-run": { type: "boolean", description: "Print the differences only" },
+    "metadata-only": {
+      type: "boolean",
+      description: "Do not compare the main file, which downloads it when both copies have the same size",
+    },
+    community: {
+      type: "string",
+      value: "<name>",
+      description: "Community searched for the deposit without a depositId (defaults to the community in meta.json)",
+    },
+  },
+
+  async run({ values, positionals }, context) {
+    const [directoryPath, depositId] = positionals;
+    if (!directoryPath) {
+      throw new UsageError("Missing <directory>");
+    }
+    const compareFiles = values["metadata-only"] !== true;
+    const community = values.community as string | undefined;
+
+    if (values["dry-run"]) {
+      const diff = await diffDeposit(directoryPath, depositId, context.connection(), { compareFiles, community });
+      context.output(diff, formatDepositDiff(diff));
+      return EXIT_CODES.success;
+    }
+
+    const result = await syncDeposit(directoryPath, depositId, context.connection(), {
+      compareFiles,
+      community,
+      confirm: (diff) => {
+        if (values.yes === true) {
+          context.logger.info(formatDepositDiff(diff));
+          return true;
+        }
+        // Shown whatever --json and --quiet say: the answer depends on it
+        process.stderr.write(`${formatDepositDiff(diff)}\n`);
+        return confirmPrompt(`Push these changes to deposit ${diff.depositId}?`);
+      },
+    });
+
+    const pushed = [
+      ...result.changes.map((change) => change.field),
+      ...(result.mainFile ? ["main file"] : []),
+    ];
+    if (!result.applied && pushed.length > 0) {
+      context.output(result, `Deposit ${result.depositId} left unchanged`);
+      return EXIT_CODES.failure;
+    }
+    context.output(
+      result,
+      result.applied ? `Deposit ${result.depositId} updated: ${pushed.join(", ")}` : formatDepositDiff(result)
+    );
+    return EXIT_CODES.success;
+  },
+};
+
+if (require.main === module) {
+  runStandalone(syncCommand, "orvium-tools-sync");
+}
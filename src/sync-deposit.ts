@@ -0,0 +1,324 @@
+/**
+ * Synchronisation of deposits already imported into Orvium with their local metadata.
+ *
+ * - The deposit is fetched with `getDepositById` and compared field by field with the local `meta.json` (or
+ *   another supported metadata file), both normalised the way an import sends them.
+ * - Only the fields that differ are pushed, in a single update of the deposit.
+ * - The main file is compared by SHA-256, streaming the remote copy without saving it, and uploaded again when
+ *   it differs. Supplementary files and the PDF rendering are left unchanged.
+ * - The community of a deposit cannot change and is not compared. It is only used to find the deposit of a folder
+ *   by its DOI or `sourceId`, and can be given for metadata without a community.
+ */
+import * as crypto from "crypto";
+import * as fs from "fs";
+import { ApiConnection, connectionFromEnv } from "./api-connection";
+import { hashFile } from "./archive-manifest";
+import { DepositDiff, DepositPopulated, FieldChange, MainFileChange, SyncResult } from "./deposit-interfaces";
+import { toOrviumError } from "./errors";
+import { findExistingDeposit, normalizeDoi } from "./existing-deposits";
+import { getDepositById, getDepositFileStream, toDeposit } from "./export-deposit";
+import {
+  extractDepositArchive,
+  isDepositArchive,
+  PlannedUpload,
+  prepareDepositImport,
+  uploadDepositFile,
+} from "./import-deposit";
+import { countingStream, loggerOf, reportProgress } from "./logger";
+import { request } from "./transport";
+
+/**
+ * The metadata fields compared and pushed by `syncDeposit`, in the order they are reported.
+ */
+export const SYNC_FIELDS = ["title", "abstract", "authors", "disciplines", "keywords", "doi", "sourceId"] as const;
+
+export type SyncField = (typeof SYNC_FIELDS)[number];
+
+/**
+ * Options accepted by `diffDeposit` and `syncDeposit`.
+ *
+ * @property {boolean} [compareFiles] - Whether the main file is compared, which downloads the remote copy when both have the same size (defaults to true).
+ * @property {string} [community] - Community searched for the deposit when no id is given (defaults to the community in `meta.json`).
+ * @property {Function} [confirm] - Called with the differences before they are pushed; nothing is pushed unless it returns true.
+ */
+export interface SyncOptions {
+  compareFiles?: boolean;
+  community?: string;
+  confirm?: (diff: DepositDiff) => boolean | Promise<boolean>;
+}
+
+// Values without empty fields and with sorted keys, so that equal metadata serialises equally
+function comparable(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(comparable);
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value)
+      .map(([key, entry]) => [key, comparable(entry)] as const)
+      .filter(([, entry]) => entry !== undefined && entry !== null && entry !== "" && !(Array.isArray(entry) && entry.length === 0))
+      .sort(([a], [b]) => a.localeCompare(b));
+    return Object.fromEntries(entries);
+  }
+  return value === "" || value === null ? undefined : value;
+}
+
+function sameValue(field: SyncField, remote: unknown, local: unknown): boolean {
+  if (field === "doi") {
+    return normalizeDoi(remote as string | undefined) === normalizeDoi(local as string | undefined);
+  }
+  return JSON.stringify(comparable(remote) ?? []) === JSON.stringify(comparable(local) ?? []);
+}
+
+// Runs `action` on the unpacked folder of a deposit folder or zip archive
+async function withDepositFolder<T>(source: string, action: (directoryPath: string) => Promise<T>): Promise<T> {
+  if (!isDepositArchive(source)) {
+    return action(source);
+  }
+  const extractPath = extractDepositArchive(source);
+  try {
+    return await action(extractPath);
+  } finally {
+    fs.rmSync(extractPath, { recursive: true, force: true });
+  }
+}
+
+// The deposit a folder was imported as: the given id, or the deposit of its community with the same DOI or sourceId
+async function remoteDeposit(
+  connection: ApiConnection,
+  directoryPath: string,
+  depositId?: string,
+  community?: string
+): Promise<DepositPopulated> {
+  if (depositId) {
+    return getDepositById(connection, depositId);
+  }
+  const { deposit } = prepareDepositImport(directoryPath, community);
+  const existing = await findExistingDeposit(connection, deposit);
+  if (!existing) {
+    throw new Error(
+      `No deposit of ${deposit.community} has the DOI or sourceId of ${directoryPath}: give the id of the deposit to sync`
+    );
+  }
+  return getDepositById(connection, existing._id);
+}
+
+// SHA-256 of a file of a deposit, streamed from storage without saving it
+async function remoteSha256(connection: ApiConnection, depositId: string, filename: string, size: number): Promise<string> {
+  const hash = crypto.createHash("sha256");
+  try {
+    const stream = (await getDepositFileStream(connection, depositId, filename)).pipe(
+      countingStream((bytes) =>
+        reportProgress(connection, { type: "bytesDownloaded", depositId, file: filename, bytes, total: size })
+      )
+    );
+    for await (const chunk of stream) {
+      hash.update(chunk as Buffer);
+    }
+  } catch (error) {
+    throw toOrviumError(error, "downloadFile", depositId);
+  }
+  return hash.digest("hex");
+}
+
+async function compareMainFile(
+  connection: ApiConnection,
+  remote: DepositPopulated,
+  filePath: string,
+  filename: string
+): Promise<MainFileChange | undefined> {
+  const { size, sha256 } = hashFile(filePath);
+  const remoteFile = remote.publicationFile;
+  if (!remoteFile?.filename) {
+    return { filename, size, sha256 };
+  }
+  const change = { filename, size, sha256, remoteFilename: remoteFile.filename, remoteSize: remoteFile.contentLength };
+  if (remoteFile.contentLength !== size) {
+    return change;
+  }
+  const remoteDigest = await remoteSha256(connection, remote._id, remoteFile.filename, remoteFile.contentLength);
+  return remoteDigest === sha256 ? undefined : { ...change, remoteSha256: remoteDigest };
+}
+
+// The differences of an unpacked deposit folder, and the upload of its main file
+async function compareDepositFolder(
+  source: string,
+  directoryPath: string,
+  depositId: string | undefined,
+  connection: ApiConnection,
+  options: SyncOptions
+): Promise<{ diff: DepositDiff; mainUpload: PlannedUpload }> {
+  const remote = await remoteDeposit(connection, directoryPath, depositId, options.community);
+  // The community cannot change: the remote one also covers metadata without a community
+  const { deposit, uploads } = prepareDepositImport(directoryPath, remote.communityPopulated.name);
+  const remoteMetadata = toDeposit(remote);
+
+  const changes: FieldChange[] = SYNC_FIELDS.filter(
+    (field) => !sameValue(field, remoteMetadata[field], deposit[field])
+  ).map((field) => ({ field, remote: remoteMetadata[field], local: deposit[field] }));
+
+  const mainFile =
+    options.compareFiles === false
+      ? undefined
+      : await compareMainFile(connection, remote, uploads[0].filePath, deposit.manuscript.filename);
+
+  return { diff: { depositId: remote._id, source, changes, mainFile }, mainUpload: uploads[0] };
+}
+
+/**
+ * Compares a deposit in Orvium with a local deposit folder: the metadata fields of `SYNC_FIELDS` and the
+ * content of the main file. Nothing is changed in Orvium.
+ *
+ * @param {string} directoryPath - Directory with the deposit manuscript and metadata, or a deposit zip archive.
+ * @param {string} [depositId] - The deposit to compare with (defaults to the deposit of the community with the same DOI or `sourceId`).
+ * @param {ApiConnection} [connection] - Orvium instance of the deposit. Defaults to the one configured in the environment.
+ * @param {SyncOptions} [options] - Whether the main file is compared, and the community searched for the deposit.
+ * @returns {Promise<DepositDiff>} A promise that resolves with the fields and the main file that differ.
+ * @throws {ValidationError} Throws a validation error if the local metadata is not valid.
+ * @throws {OrviumError} Throws a typed error if the deposit or its main file cannot be retrieved.
+ */
+export async function diffDeposit(
+  directoryPath: string,
+  depositId?: string,
+  connection: ApiConnection = connectionFromEnv(),
+  options: SyncOptions = {}
+): Promise<DepositDiff> {
+  return withDepositFolder(directoryPath, async (folder) => {
+    const { diff } = await compareDepositFolder(directoryPath, folder, depositId, connection, options);
+    return diff;
+  });
+}
+
+// Sends the changed fields only; a field removed locally is cleared with null
+async function pushChangedFields(connection: ApiConnection, diff: DepositDiff): Promise<void> {
+  if (diff.changes.length === 0) {
+    return;
+  }
+  const data = Object.fromEntries(diff.changes.map((change) => [change.field, change.local ?? null]));
+  await request(
+    connection,
+    { step: "updateDeposit", depositId: diff.depositId },
+    { method: "PATCH", url: `${connection.apiUrl}/deposits/${diff.depositId}`, data }
+  );
+}
+
+/**
+ * Synchronises a deposit in Orvium with a local deposit folder: the metadata fields that differ are pushed in a
+ * single update, and the main file is uploaded again when its checksum differs. With `options.confirm`, the
+ * differences are pushed only once confirmed.
+ *
+ * @param {string} directoryPath - Directory with the deposit manuscript and metadata, or a deposit zip archive.
+ * @param {string} [depositId] - The deposit to update (defaults to the deposit of the community with the same DOI or `sourceId`).
+ * @param {ApiConnection} [connection] - Orvium instance of the deposit. Defaults to the one configured in the environment.
+ * @param {SyncOptions} [options] - Whether the main file is compared, the community searched for the deposit, and the confirmation callback.
+ * @returns {Promise<SyncResult>} A promise that resolves with the differences and whether they were pushed.
+ * @throws {ValidationError} Throws a validation error if the local metadata is not valid.
+ * @throws {OrviumError} Throws the typed error of the request that failed.
+ */
+export async function syncDeposit(
+  directoryPath: string,
+  depositId?: string,
+  connection: ApiConnection = connectionFromEnv(),
+  options: SyncOptions = {}
+): Promise<SyncResult> {
+  return withDepositFolder(directoryPath, async (folder) => {
+    const { diff, mainUpload } = await compareDepositFolder(directoryPath, folder, depositId, connection, options);
+    if (diff.changes.length === 0 && !diff.mainFile) {
+      return { ...diff, applied: false };
+    }
+    if (options.confirm && !(await options.confirm(diff))) {
+      return { ...diff, applied: false };
+    }
+
+    await pushChangedFields(connection, diff);
+    if (diff.mainFile) {
+      // Uploading a main file replaces the previous one
+      await uploadDepositFile(connection, diff.depositId, mainUpload);
+    }
+    loggerOf(connection).info(`Deposit ${diff.depositId} synchronised with ${directoryPath}`);
+    return { ...diff, applied: true };
+  });
+}
+
+// --- Diff text -------------------------------------------------------------
+
+function describeAuthor(author: Record<string, unknown>): string {
+  const { firstName, middleName, lastName, ...details } = comparable(author) as Record<string, unknown>;
+  const name = [firstName, middleName, lastName].filter(Boolean).join(" ");
+  const extra = Object.entries(details).map(
+    ([key, value]) => `${key}: ${typeof value === "object" ? JSON.stringify(value) : value}`
+  );
+  return extra.length > 0 ? `${name} (${extra.join("; ")})` : name;
+}
+
+function valueLines(field: string, value: unknown): string[] {
+  if (value === undefined || value === null || value === "") {
+    return [];
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) =>
+      field === "authors" ? describeAuthor(item as Record<string, unknown>) : String(item)
+    );
+  }
+  return String(value).split("\n");
+}
+
+// Lines of `before` and `after` marked as kept ("  "), removed ("- ") or added ("+ "), from their longest common subsequence
+function lineDiff(before: string[], after: string[]): string[] {
+  const common = before.map(() => new Array<number>(after.length + 1).fill(0));
+  common.push(new Array<number>(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      common[i][j] = before[i] === after[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      lines.push(`  ${before[i++]}`);
+      j++;
+    } else if (i < before.length && (j === after.length || common[i + 1][j] >= common[i][j + 1])) {
+      lines.push(`- ${before[i++]}`);
+    } else {
+      lines.push(`+ ${after[j++]}`);
+    }
+  }
+  return lines;
+}
+
+function describeFile(size?: number, sha256?: string): string {
+  return [size !== undefined ? `${size} bytes` : undefined, sha256 ? `sha256 ${sha256.slice(0, 12)}` : undefined]
+    .filter(Boolean)
+    .join(", ");
+}
+
+/**
+ * Formats the differences between a deposit and its local metadata as a readable diff: the remote values
+ * prefixed with `-`, the local values that replace them with `+`.
+ *
+ * @param {DepositDiff} diff - The differences computed by `diffDeposit`.
+ * @returns {string} The diff, one field after the other.
+ */
+export function formatDepositDiff(diff: DepositDiff): string {
+  if (diff.changes.length === 0 && !diff.mainFile) {
+    return `Deposit ${diff.depositId} is up to date with ${diff.source}`;
+  }
+  const lines = [`Deposit ${diff.depositId} <- ${diff.source}`];
+  for (const change of diff.changes) {
+    lines.push(`  ${change.field}`);
+    const changed = lineDiff(valueLines(change.field, change.remote), valueLines(change.field, change.local));
+    lines.push(...changed.map((line) => `    ${line}`));
+  }
+  if (diff.mainFile) {
+    const { filename, size, sha256, remoteFilename, remoteSize, remoteSha256 } = diff.mainFile;
+    lines.push("  main file");
+    lines.push(
+      remoteFilename
+        ? `    - ${remoteFilename} (${describeFile(remoteSize, remoteSha256)})`
+        : "    - (none)",
+      `    + ${filename} (${describeFile(size, sha256)})`
+    );
+  }
+  return lines.join("\n");
+}
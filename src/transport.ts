@@ -0,0 +1,159 @@
+/**
+ * Shared transport layer for every HTTP call made by the toolkit.
+ *
+ * - Requests are spaced out by a client-side rate limiter shared by all connections to the same instance and user.
+ * - Idempotent requests (GET, PUT, PATCH, DELETE) failing with 429, 5xx or a network error are retried with
+ *   exponential backoff, honouring the `Retry-After` header. Other requests, such as the POST that creates a
+ *   deposit, may have been applied when they fail, so they are only retried on 429, or on 503 with `Retry-After`.
+ * - Failures are converted into the typed errors of `errors.ts`, tagged with the step and deposit involved.
+ * - The start, end or failure of every request is reported to the logger of the connection as a progress event.
+ */
+import { AxiosRequestConfig, AxiosResponse, isAxiosError } from "axios";
+import { ApiConnection, apiRequestConfig, httpClient } from "./api-connection";
+import { ApiStep, OrviumError, toOrviumError } from "./errors";
+import { reportProgress } from "./logger";
+
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_DELAY = 500;
+const MAX_RETRY_DELAY = 30000;
+
+/**
+ * Describes the request being made, for retries and error reporting.
+ *
+ * @property {ApiStep} step - The step the request belongs to.
+ * @property {string} [depositId] - The deposit the request works on.
+ * @property {boolean} [storage] - True for requests to signed storage URLs, which are sent without the API keys.
+ * @property {boolean} [retry] - Set to false when the request cannot be repeated (e.g. its body is a one-shot stream).
+ * @property {typeof OrviumError} [errorClass] - Error class thrown for any failure of the request, instead of one chosen by status.
+ */
+export interface RequestContext {
+  step: ApiStep;
+  depositId?: string;
+  storage?: boolean;
+  retry?: boolean;
+  errorClass?: typeof OrviumError;
+}
+
+/**
+ * Spaces out the requests made to one instance so that no more than `requestsPerSecond` are started per second.
+ */
+class RateLimiter {
+  private nextSlot = 0;
+
+  constructor(private readonly interval: number) {}
+
+  async acquire(): Promise<void> {
+    const now = Date.now();
+    const wait = Math.max(0, this.nextSlot - now);
+    this.nextSlot = Math.max(now, this.nextSlot) + this.interval;
+    if (wait > 0) {
+      await sleep(wait);
+    }
+  }
+}
+
+// Rate limiters keyed by instance URL and API user, so every client of the same account shares its budget
+const rateLimiters = new Map<string, RateLimiter>();
+
+function rateLimiterFor(connection: ApiConnection): RateLimiter | undefined {
+  if (!connection.requestsPerSecond || connection.requestsPerSecond <= 0) {
+    return undefined;
+  }
+  const key = `${connection.apiUrl}|${connection.apiKeyUser}|${connection.requestsPerSecond}`;
+  let limiter = rateLimiters.get(key);
+  if (!limiter) {
+    limiter = new RateLimiter(1000 / connection.requestsPerSecond);
+    rateLimiters.set(key, limiter);
+  }
+  return limiter;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "OPTIONS", "PUT", "PATCH", "DELETE"];
+
+// Whether a failed request can be sent again: a request that is not idempotent is only repeated when the
+// server says it did not process it (429, or 503 with Retry-After), never after a timeout or a 5xx
+function isRetryable(error: unknown, method: string): boolean {
+  if (!isAxiosError(error)) {
+    return false;
+  }
+  const status = error.response?.status;
+  if (status === 429 || (status === 503 && error.response?.headers?.["retry-after"] !== undefined)) {
+    return true;
+  }
+  if (!IDEMPOTENT_METHODS.includes(method.toUpperCase())) {
+    return false;
+  }
+  return status === undefined || status >= 500; // Network error, timeout or server error
+}
+
+/**
+ * Computes how long to wait before the next attempt: the `Retry-After` header (in seconds or as an HTTP date)
+ * when the server sent one, otherwise an exponential backoff with jitter.
+ */
+function retryDelay(error: unknown, attempt: number, baseDelay: number): number {
+  const retryAfter = isAxiosError(error)
+    ? error.response?.headers?.["retry-after"]
+    : undefined;
+  if (retryAfter !== undefined) {
+    const seconds = Number(retryAfter);
+    const delay = Number.isNaN(seconds)
+      ? Date.parse(String(retryAfter)) - Date.now()
+      : seconds * 1000;
+    if (!Number.isNaN(delay)) {
+      return Math.min(Math.max(delay, 0), MAX_RETRY_DELAY);
+    }
+  }
+  const backoff = baseDelay * 2 ** attempt;
+  return Math.min(backoff + Math.random() * baseDelay, MAX_RETRY_DELAY);
+}
+
+/**
+ * Performs an HTTP request on behalf of a connection, with rate limiting, retries and typed errors.
+ * The request configuration can be given as a factory, which is called again for every attempt; use it
+ * when the request body is a stream that must be recreated.
+ *
+ * @param {ApiConnection} connection - The connection whose axios instance, keys, timeout and retry settings are used.
+ * @param {RequestContext} context - The step, deposit and kind of request.
+ * @param {AxiosRequestConfig | (() => AxiosRequestConfig)} config - The request (URL, method, data...).
+ * @returns {Promise<AxiosResponse<T>>} A promise that resolves with the response.
+ * @throws {OrviumError} Throws a typed error once the request fails and cannot be retried any more.
+ */
+export async function request<T = any>(
+  connection: ApiConnection,
+  context: RequestContext,
+  config: AxiosRequestConfig | (() => AxiosRequestConfig)
+): Promise<AxiosResponse<T>> {
+  const maxRetries =
+    context.retry === false ? 0 : connection.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const baseDelay = connection.retryDelay ?? DEFAULT_RETRY_DELAY;
+  const limiter = rateLimiterFor(connection);
+  const { step, depositId } = context;
+
+  reportProgress(connection, { type: "stepStarted", step, depositId });
+  for (let attempt = 0; ; attempt++) {
+    const attemptConfig = typeof config === "function" ? config() : config;
+    try {
+      if (!context.storage) {
+        await limiter?.acquire();
+      }
+      const response = await httpClient(connection).request<T>(
+        context.storage
+          ? { timeout: connection.timeout, ...attemptConfig }
+          : apiRequestConfig(connection, attemptConfig)
+      );
+      reportProgress(connection, { type: "stepFinished", step, depositId });
+      return response;
+    } catch (error) {
+      if (attempt >= maxRetries || !isRetryable(error, attemptConfig.method ?? "GET")) {
+        const failure = toOrviumError(error, step, depositId, context.errorClass);
+        reportProgress(connection, { type: "stepFailed", step, depositId, error: failure.message });
+        throw failure;
+      }
+      await sleep(retryDelay(error, attempt, baseDelay));
+    }
+  }
+}
@@ -1,44 +1,85 @@
 #!/usr/bin/env node
 
 /**
- * CLI for fetching a user's contributions summary by ORCID (number only).
+ * CLI for fetching a user's contributions summary by ORCID iD, bare or as an https://orcid.org/ URL.
  *
  * Usage:
+ *   $ orvium-tools summary [--format json|table|csv|markdown] <orcid>
+ *   $ orvium-tools summary --orcids <file> [--format json|table|csv|markdown]
+ *   # or through the alias:
  *   $ orvium-tools-user-summary <orcid>
  *
+ * Options:
+ *   --format <format>  How the summary is printed: json (default), a terminal table, csv or markdown
+ *   --orcids <file>    File of ORCID iDs (e.g. everyone in a department): prints one report with the
+ *                      contribution counts of every person and the totals
+ *   (and the global options of cli.ts; --json always prints the summary or report as JSON)
+ *
  * Example:
- *   $ orvium-tools-user-summary 0000-0002-1825-0097
+ *   $ orvium-tools summary 0000-0002-1825-0097
+ *   $ orvium-tools summary --format table https://orcid.org/0000-0002-1825-0097
+ *   $ orvium-tools summary --orcids department.txt --format csv > department.csv
+ *
+ * Behavior:
+ *   - Calls `getUserSummary(orcid, connection)`, or `getUserSummaryReport(orcids, connection)` with --orcids.
+ *   - With --orcids, exits with 1 if the summary of any person could not be retrieved.
  */
 
-import { getUserSummary } from "./user-summary";
+import { CliCommand, EXIT_CODES, UsageError, runStandalone } from "./cli";
+import { getUserSummary, getUserSummaryReport, readOrcidList } from "./user-summary";
+import { SUMMARY_FORMATS, formatSummaryReport, formatUserSummary, isSummaryFormat } from "./summary-formats";
+import { isValidOrcid, normalizeOrcid } from "./authors";
 
-// --- Parse & validate args ---------------------------------------------------
-const [orcidNumber] = process.argv.slice(2);
-const USAGE = "Usage: orvium-tools-user-summary <orcid>";
+export const summaryCommand: CliCommand = {
+  name: "summary",
+  summary: "Print the contributions (deposits, reviews, communities) of a user, or a report for a list of users",
+  usage: ["[--format <format>] <orcid>", "--orcids <file> [--format <format>]"],
+  arguments: [["<orcid>", "ORCID iD of the user, e.g. 0000-0002-1825-0097 or https://orcid.org/0000-0002-1825-0097"]],
+  options: {
+    format: {
+      type: "string",
+      value: "<format>",
+      description: `How the summary is printed: ${SUMMARY_FORMATS.join(", ")} (default json)`,
+    },
+    orcids: {
+      type: "string",
+      value: "<file>",
+      description: "File of ORCID iDs, one or more per line: print one report with per-person and total counts",
+    },
+  },
 
-if (!orcidNumber) {
-  console.error(USAGE);
-  process.exit(2);
-}
+  async run({ values, positionals }, context) {
+    const format = (values.format as string | undefined) ?? "json";
+    if (!isSummaryFormat(format)) {
+      throw new UsageError(`Invalid --format. Expected one of: ${SUMMARY_FORMATS.join(", ")}`);
+    }
 
-// Accept ONLY the numeric ORCID pattern (no URLs)
-const ORCID_REGEX = /^\d{4}-\d{4}-\d{4}-\d{3}[0-9Xx]$/;
-if (!ORCID_REGEX.test(orcidNumber)) {
-  console.error("Invalid ORCID. Expected format: 0000-0000-0000-0000");
-  process.exit(2);
-}
+    const orcidsPath = values.orcids as string | undefined;
+    if (orcidsPath) {
+      const report = await getUserSummaryReport(readOrcidList(orcidsPath), context.connection());
+      context.output(report, formatSummaryReport(report, format));
+      return report.people.some((person) => person.error !== undefined) ? EXIT_CODES.failure : EXIT_CODES.success;
+    }
 
-// Uppercase the check digit if it's X/x
-const normalizedOrcid = orcidNumber.toUpperCase();
+    const [orcidNumber] = positionals;
+    if (!orcidNumber) {
+      throw new UsageError("Missing <orcid>");
+    }
+    // Accept the iD with or without hyphens, or its URL, and send it as 0000-0000-0000-0000
+    const orcid = normalizeOrcid(orcidNumber);
+    if (!orcid) {
+      throw new UsageError("Invalid ORCID. Expected format: 0000-0000-0000-0000");
+    }
+    if (!isValidOrcid(orcid)) {
+      throw new UsageError(`Invalid ORCID ${orcid}: the check digit does not match`);
+    }
 
-// --- Execute -----------------------------------------------------------------
+    const result = await getUserSummary(orcid, context.connection());
+    context.output(result, formatUserSummary(result, format));
+    return EXIT_CODES.success;
+  },
+};
 
-getUserSummary(normalizedOrcid)
-  .then((result) => {
-    console.log(JSON.stringify(result, null, 2));
-    process.exit(0);
-  })
-  .catch((err) => {
-    console.error("Error during user summary retrieval:", err?.message ?? err);
-    process.exit(1);
-  });
+if (require.main === module) {
+  runStandalone(summaryCommand, "orvium-tools-user-summary");
+}
@@ -1,41 +1,128 @@
-import axios from "axios";
-import * as fs from "fs"; // To save the ZIP file locally
-import * as path from "path";
-import dotenv from "dotenv";
-import { Deposit, DepositPopulated } from "./deposit-interfaces";
-import archiver from "archiver";
-
 /**
- * Load and prepare environment variables
+ * Contributions summaries of users, by ORCID iD.
+ *
+ * - Retrieve the deposits, peer reviews and communities of a user.
+ * - Count the contributions of a user.
+ * - Read a list of ORCID iDs (e.g. everyone in a department) and build one report with the contributions
+ *   of every person and the totals.
  */
+import * as fs from "fs";
+import {
+  ContributionCounts,
+  UserSummary,
+  UserSummaryReport,
+  UserSummaryReportEntry,
+} from "./deposit-interfaces";
+import { ApiConnection, connectionFromEnv } from "./api-connection";
+import { request } from "./transport";
+import { loggerOf } from "./logger";
+import { isValidOrcid, normalizeOrcid } from "./authors";
 
-dotenv.config();
+/**
+ * Retrieves the contributions summary of a user.
+ *
+ * @param {string} orcid - ORCID iD of the user, as `0000-0002-1825-0097`.
+ * @param {ApiConnection} [connection] - Orvium instance to query (defaults to the one configured in the environment).
+ * @returns {Promise<UserSummary>} A promise that resolves with the deposits, peer reviews and communities of the user.
+ * @throws {OrviumError} Throws a typed error if the request fails, e.g. a `NotFoundError` for an unknown ORCID iD.
+ */
+export async function getUserSummary(
+  orcid: string,
+  connection: ApiConnection = connectionFromEnv()
+): Promise<UserSummary> {
+  const response = await request<UserSummary>(
+    connection,
+    { step: "getUserSummary" },
+    { method: "GET", url: `${connection.apiUrl}/users/profile/${orcid}/summary` }
+  );
+  // Users without contributions of a kind may come without the list
+  return {
+    ...response.data,
+    depositsSummaryPopulated: response.data.depositsSummaryPopulated ?? [],
+    peerReviewsSummaryPopulated: response.data.peerReviewsSummaryPopulated ?? [],
+    communitiesSummaryPopulated: response.data.communitiesSummaryPopulated ?? [],
+  };
+}
 
-//Obtain the api key from the env variable
-const API_KEY: string | undefined = process.env.API_KEY;
-const API_KEY_USER: string | undefined = process.env.API_KEY_USER;
+/**
+ * Counts the contributions of a user.
+ *
+ * @param {UserSummary} summary - The summary of the user.
+ * @returns {ContributionCounts} The number of deposits (and published deposits), peer reviews and communities.
+ */
+export function countContributions(summary: UserSummary): ContributionCounts {
+  return {
+    deposits: summary.depositsSummaryPopulated.length,
+    publishedDeposits: summary.depositsSummaryPopulated.filter((deposit) => deposit.status === "published").length,
+    reviews: summary.peerReviewsSummaryPopulated.length,
+    communities: summary.communitiesSummaryPopulated.length,
+  };
+}
 
-// Function to retrieve a deposit by ID
-export async function getUserSummary(
-  orcid: string
-): Promise<DepositPopulated | null> {
-  const apiUrl = `${process.env.API_URL}/users/profile/${orcid}/summary`;
-  try {
-    // Make the GET request to retrieve deposit details
-    const response = await axios.get<DepositPopulated>(apiUrl, {
-      headers: {
-        "x-api-key": API_KEY,
-        "x-api-key-user": API_KEY_USER,
-      },
+/**
+ * Reads a file of ORCID iDs, one or more per line, separated by spaces or commas. Text after `#` is a comment,
+ * iDs may be written as URLs, and repeated iDs are read once.
+ *
+ * @param {string} filePath - Path of the file.
+ * @returns {string[]} The ORCID iDs as `0000-0002-1825-0097`, in the order of the file.
+ * @throws {Error} Throws an error listing every malformed iD or iD with a wrong check digit, with its line number.
+ */
+export function readOrcidList(filePath: string): string[] {
+  const orcids = new Set<string>();
+  const invalid: string[] = [];
+  fs.readFileSync(filePath, "utf8")
+    .split(/\r?\n/)
+    .forEach((line, index) => {
+      for (const value of line.replace(/#.*/, "").split(/[\s,;]+/).filter((item) => item !== "")) {
+        const orcid = normalizeOrcid(value);
+        if (orcid && isValidOrcid(orcid)) {
+          orcids.add(orcid);
+        } else {
+          invalid.push(`line ${index + 1}: ${value}`);
+        }
+      }
     });
-    // Return user contributions details from the response
-    return response.data;
-  } catch (error: any) {
-    if (error.response) {
-      console.error(`Error: ${error.response.status} - ${error.response.data}`);
-    } else {
-      console.error("Error:", error.message);
+  if (invalid.length > 0) {
+    throw new Error(`Invalid ORCID iDs in ${filePath}: ${invalid.join("; ")}`);
+  }
+  return [...orcids];
+}
+
+function addCounts(total: ContributionCounts, counts: ContributionCounts): ContributionCounts {
+  return {
+    deposits: total.deposits + counts.deposits,
+    publishedDeposits: total.publishedDeposits + counts.publishedDeposits,
+    reviews: total.reviews + counts.reviews,
+    communities: total.communities + counts.communities,
+  };
+}
+
+/**
+ * Builds one report with the contributions of several people. Summaries are retrieved one at a time, and a
+ * person whose summary cannot be retrieved is reported with the error instead of failing the whole report.
+ *
+ * @param {string[]} orcids - The ORCID iDs of the people, as `0000-0002-1825-0097`.
+ * @param {ApiConnection} [connection] - Orvium instance to query (defaults to the one configured in the environment).
+ * @returns {Promise<UserSummaryReport>} A promise that resolves with the contributions of every person and the totals.
+ */
+export async function getUserSummaryReport(
+  orcids: string[],
+  connection: ApiConnection = connectionFromEnv()
+): Promise<UserSummaryReport> {
+  const none: ContributionCounts = { deposits: 0, publishedDeposits: 0, reviews: 0, communities: 0 };
+  const people: UserSummaryReportEntry[] = [];
+  for (const orcid of orcids) {
+    try {
+      const summary = await getUserSummary(orcid, connection);
+      people.push({ orcid, nickname: summary.nickname, counts: countContributions(summary), summary });
+    } catch (error: any) {
+      loggerOf(connection).error(`Error retrieving the summary of ${orcid}: ${error?.message ?? error}`);
+      people.push({ orcid, counts: none, error: error?.message ?? String(error) });
     }
-    return null;
   }
+  return {
+    generatedAt: new Date().toISOString(),
+    people,
+    totals: people.reduce((total, person) => addCounts(total, person.counts), none),
+  };
 }
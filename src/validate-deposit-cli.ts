@@ -0,0 +1,73 @@
+#!/usr/bin/env node
+
+/**
+ * CLI for validating deposit folders before importing them. No API call is made.
+ *
+ * Usage:
+ *   $ orvium-tools validate <directory|archive.zip...>
+ *   # or through the alias:
+ *   $ orvium-tools-validate <directory|archive.zip...>
+ *
+ * Arguments:
+ *   <directory>    Path to a folder containing meta.json (or JATS XML, Crossref, DataCite, BibTeX or RIS
+ *                  metadata) and the files it references
+ *   <archive.zip>  A deposit_<id>.zip produced by orvium-tools-export
+ *
+ * Behavior:
+ *   - Checks the metadata against the published JSON Schema (meta.schema.json).
+ *   - Checks that every referenced file exists and has an accepted format.
+ *   - Prints every problem with its JSON path, and exits with 1 if any deposit is invalid.
+ */
+
+import * as fs from "fs";
+import { CliCommand, EXIT_CODES, UsageError, runStandalone } from "./cli";
+import { extractDepositArchive, isDepositArchive } from "./import-deposit";
+import { ValidationProblem, validateDepositDirectory } from "./validate-deposit";
+
+function validate(directory: string): ValidationProblem[] {
+  if (fs.existsSync(directory) && isDepositArchive(directory)) {
+    const extractPath = extractDepositArchive(directory);
+    try {
+      return validateDepositDirectory(extractPath);
+    } finally {
+      fs.rmSync(extractPath, { recursive: true, force: true });
+    }
+  }
+  return validateDepositDirectory(directory);
+}
+
+export const validateCommand: CliCommand = {
+  name: "validate",
+  summary: "Check deposit folders or zips against the metadata schema, without calling the API",
+  usage: ["<directory|archive.zip...>"],
+  arguments: [
+    ["<directory>", "Folder with meta.json (or another supported metadata file) and the files it references"],
+    ["<archive.zip>", "A deposit_<id>.zip produced by the export command"],
+  ],
+  options: {},
+
+  async run({ positionals }, context) {
+    if (positionals.length === 0) {
+      throw new UsageError("Missing <directory>");
+    }
+
+    const results = positionals.map((directory) => ({ directory, problems: validate(directory) }));
+    const lines: string[] = [];
+    for (const { directory, problems } of results) {
+      if (problems.length === 0) {
+        lines.push(`${directory}: OK`);
+        continue;
+      }
+      lines.push(`${directory}: ${problems.length} problem(s)`);
+      for (const problem of problems) {
+        lines.push(`  ${problem.path} ${problem.message}`);
+      }
+    }
+    context.output(results, lines.join("\n"));
+    return results.some(({ problems }) => problems.length > 0) ? EXIT_CODES.failure : EXIT_CODES.success;
+  },
+};
+
+if (require.main === module) {
+  runStandalone(validateCommand, "orvium-tools-validate");
+}
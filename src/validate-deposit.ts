@@ -0,0 +1,117 @@
+/**
+ * Validation of deposit folders before they are imported.
+ *
+ * The `meta.json` file (or the metadata mapped from another format by a metadata reader) is checked against
+ * the JSON Schema published in `meta.schema.json`, the ORCID iDs of its authors must have a valid check digit,
+ * and every file it references must exist in the folder and have a format accepted by the platform. All problems are reported at once, each with the JSON path
+ * of the offending value, so they can be fixed in one go.
+ */
+import * as fs from "fs";
+import * as path from "path";
+import Ajv, { ErrorObject } from "ajv";
+import metaSchema from "./meta.schema.json";
+import { DepositFile } from "./deposit-interfaces";
+import { FileRole, resolveContentType } from "./file-types";
+import { readDepositMetadata } from "./metadata-readers";
+import { isValidOrcid, normalizeOrcid } from "./authors";
+
+/**
+ * A problem found while validating a deposit folder.
+ *
+ * @property {string} path - JSON path of the offending value inside `meta.json` (e.g. `/authors/0/last_name`), or `/` for the whole document.
+ * @property {string} message - Description of the problem.
+ */
+export interface ValidationProblem {
+  path: string;
+  message: string;
+}
+
+const ajv = new Ajv({ allErrors: true });
+const validateSchema = ajv.compile(metaSchema);
+
+function toProblem(error: ErrorObject): ValidationProblem {
+  if (error.keyword === "additionalProperties") {
+    return {
+      path: `${error.instancePath}/${error.params.additionalProperty}`,
+      message: "is not an allowed property",
+    };
+  }
+  return { path: error.instancePath || "/", message: error.message ?? "is invalid" };
+}
+
+/**
+ * Reports the ORCID iDs of the authors whose check digit is wrong. Malformed iDs are reported by the schema.
+ */
+function checkOrcids(metaData: any): ValidationProblem[] {
+  const authors: unknown[] = Array.isArray(metaData?.authors) ? metaData.authors : [];
+  return authors.flatMap((author: any, index) =>
+    typeof author?.orcid === "string" && normalizeOrcid(author.orcid) && !isValidOrcid(author.orcid)
+      ? [{ path: `/authors/${index}/orcid`, message: `${author.orcid} has an invalid check digit` }]
+      : []
+  );
+}
+
+/**
+ * Validates parsed `meta.json` content against the deposit metadata schema, and checks the ORCID iDs of the authors.
+ *
+ * @param {unknown} metaData - The parsed content of `meta.json`.
+ * @returns {ValidationProblem[]} Every problem found; an empty array when the metadata is valid.
+ */
+export function validateMetadata(metaData: unknown): ValidationProblem[] {
+  const orcidProblems = checkOrcids(metaData);
+  if (validateSchema(metaData)) {
+    return orcidProblems;
+  }
+  // "if" errors only repeat that the matching branch failed, which is already reported in detail
+  return (validateSchema.errors ?? [])
+    .filter((error) => error.keyword !== "if")
+    .map(toProblem)
+    .concat(orcidProblems);
+}
+
+/**
+ * Validates a deposit folder: the schema of its metadata, and the existence and format of every file it references.
+ * The metadata is read from `meta.json` or from any other format understood by the metadata readers.
+ *
+ * @param {string} directoryPath - Directory with the deposit manuscript and metadata.
+ * @returns {ValidationProblem[]} Every problem found; an empty array when the folder can be imported.
+ */
+export function validateDepositDirectory(directoryPath: string): ValidationProblem[] {
+  let metaData: any;
+  try {
+    metaData = readDepositMetadata(directoryPath).metadata;
+  } catch (error: any) {
+    return [{ path: "/", message: error.message }];
+  }
+
+  const problems = validateMetadata(metaData);
+
+  // Files are checked even when the schema has problems, as long as their entry has a filename
+  const checkFile = (file: DepositFile, role: FileRole, jsonPath: string) => {
+    if (typeof file?.filename !== "string" || file.filename === "") {
+      return;
+    }
+    const filePath = path.join(directoryPath, file.filename);
+    if (!fs.existsSync(filePath)) {
+      problems.push({ path: `${jsonPath}/filename`, message: `file ${file.filename} not found` });
+      return;
+    }
+    try {
+      resolveContentType(filePath, role, file.contentType);
+    } catch (error: any) {
+      problems.push({ path: `${jsonPath}/filename`, message: error.message });
+    }
+  };
+
+  if (typeof metaData !== "object" || metaData === null) {
+    return problems;
+  }
+  checkFile(metaData.manuscript, "manuscript", "/manuscript");
+  if (Array.isArray(metaData.files)) {
+    metaData.files.forEach((file: DepositFile, index: number) =>
+      checkFile(file, "supplementary", `/files/${index}`)
+    );
+  }
+  checkFile(metaData.pdf, "pdf", "/pdf");
+  return problems;
+}
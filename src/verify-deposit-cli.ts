@@ -0,0 +1,88 @@
+#!/usr/bin/env node
+
+/**
+ * CLI for checking exported deposit archives against their manifest. No API call is made.
+ *
+ * Usage:
+ *   $ orvium-tools verify <archive.zip|directory...>
+ *   # or through the alias:
+ *   $ orvium-tools-verify <archive.zip|directory...>
+ *
+ * Arguments:
+ *   <archive.zip>  A deposit_<id>.zip produced by orvium-tools-export
+ *   <directory>    An extracted deposit archive
+ *
+ * Behavior:
+ *   - Checks that every file listed in manifest.json exists with the recorded size and SHA-256.
+ *   - Reports files missing from the manifest, and archives without a manifest.
+ *   - Prints every problem, and exits with 1 if any archive does not verify.
+ */
+
+import * as fs from "fs";
+import { CliCommand, EXIT_CODES, UsageError, runStandalone } from "./cli";
+import { extractDepositArchive, isDepositArchive } from "./import-deposit";
+import {
+  IntegrityProblem,
+  MANIFEST_FILENAME,
+  hasArchiveManifest,
+  verifyArchiveManifest,
+} from "./archive-manifest";
+
+function verifyDirectory(directory: string): IntegrityProblem[] {
+  if (!hasArchiveManifest(directory)) {
+    return [{ file: MANIFEST_FILENAME, message: "not found" }];
+  }
+  return verifyArchiveManifest(directory);
+}
+
+function verify(archive: string): IntegrityProblem[] {
+  try {
+    if (isDepositArchive(archive)) {
+      const extractPath = extractDepositArchive(archive);
+      try {
+        return verifyDirectory(extractPath);
+      } finally {
+        fs.rmSync(extractPath, { recursive: true, force: true });
+      }
+    }
+    return verifyDirectory(archive);
+  } catch (err: any) {
+    return [{ file: archive, message: err?.message ?? String(err) }];
+  }
+}
+
+export const verifyCommand: CliCommand = {
+  name: "verify",
+  summary: "Check exported zips or extracted deposit folders against their manifest.json, without calling the API",
+  usage: ["<archive.zip|directory...>"],
+  arguments: [
+    ["<archive.zip>", "A deposit_<id>.zip produced by the export command"],
+    ["<directory>", "An extracted deposit archive"],
+  ],
+  options: {},
+
+  async run({ positionals }, context) {
+    if (positionals.length === 0) {
+      throw new UsageError("Missing <archive.zip>");
+    }
+
+    const results = positionals.map((archive) => ({ archive, problems: verify(archive) }));
+    const lines: string[] = [];
+    for (const { archive, problems } of results) {
+      if (problems.length === 0) {
+        lines.push(`${archive}: OK`);
+        continue;
+      }
+      lines.push(`${archive}: ${problems.length} problem(s)`);
+      for (const problem of problems) {
+        lines.push(`  ${problem.file} ${problem.message}`);
+      }
+    }
+    context.output(results, lines.join("\n"));
+    return results.some(({ problems }) => problems.length > 0) ? EXIT_CODES.failure : EXIT_CODES.success;
+  },
+};
+
+if (require.main === module) {
+  runStandalone(verifyCommand, "orvium-tools-verify");
+}
@@ -0,0 +1,134 @@
+#!/usr/bin/env node
+
+/**
+ * CLI for importing the deposit folders dropped into a hot folder, until it is stopped.
+ *
+ * Usage:
+ *   $ orvium-tools watch [--interval <seconds>] [--settle <seconds>] [--on-existing <policy>]
+ *                        [--on-failure <policy>] <directory> [community]
+ *   # or through the alias:
+ *   $ orvium-tools-watch <directory> [community]
+ *
+ * Arguments:
+ *   <directory>  The hot folder: every subfolder with a meta.json (or another supported metadata file) is imported
+ *   <community>  Community of the deposits (optional: defaults to the community in their metadata)
+ *
+ * Options:
+ *   --interval <seconds>    Time between two scans of the hot folder (default 5)
+ *   --settle <seconds>      Time the files of a folder must stay unchanged before it is imported (default 10)
+ *   --on-existing <policy>  skip (default), update or replace deposits that already exist, as for import
+ *   --on-failure <policy>   resume (default) or rollback deposits whose import fails after they were created
+ *   (and the global options of cli.ts; --json prints the counts of imported and failed folders as JSON)
+ *
+ * Example:
+ *   $ orvium-tools watch /mnt/intake "Ethics Community"
+ *
+ * Behavior:
+ *   - Calls `watchDepositFolder(directory, community, options)`, which moves every imported folder to
+ *     <directory>/processed or <directory>/failed with a <folder>.import-result.json.
+ *   - On SIGTERM or SIGINT, finishes the import in progress, then exits with 0.
+ */
+
+import { CliCommand, EXIT_CODES, UsageError, runStandalone } from "./cli";
+import { EXISTING_DEPOSIT_POLICIES, isExistingDepositPolicy } from "./existing-deposits";
+import { IMPORT_FAILURE_POLICIES, isImportFailurePolicy } from "./import-checkpoint";
+import { watchDepositFolder } from "./watch-folder";
+
+function seconds(value: string | boolean | (string | boolean)[] | undefined, option: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new UsageError(`Invalid --${option}. Expected a number of seconds`);
+  }
+  return parsed * 1000;
+}
+
+export const watchCommand: CliCommand = {
+  name: "watch",
+  summary: "Import every deposit folder dropped into a hot folder, moving it to processed/ or failed/",
+  usage: [
+    "[--interval <seconds>] [--settle <seconds>] [--on-existing <policy>]",
+    "  [--on-failure <policy>] <directory> [community]",
+  ],
+  arguments: [
+    ["<directory>", "Hot folder: every subfolder with a supported metadata file is imported"],
+    ["[community]", "Community of the deposits (defaults to the community in their metadata)"],
+  ],
+  options: {
+    interval: { type: "string", value: "<seconds>", description: "Time between two scans of the hot folder (default 5)" },
+    settle: {
+      type: "string",
+      value: "<seconds>",
+      description: "Time the files of a folder must stay unchanged before it is imported (default 10)",
+    },
+    "on-existing": {
+      type: "string",
+      value: "<policy>",
+      description: "When a deposit with the same DOI or sourceId exists: skip (default), update its metadata, or replace its metadata and files",
+    },
+    "on-failure": {
+      type: "string",
+      value: "<policy>",
+      description: "When a step fails after the deposit was created: resume (default) keeps it, rollback deletes it",
+    },
+  },
+
+  async run({ values, positionals }, context) {
+    const [directoryPath, community] = positionals;
+    if (!directoryPath) {
+      throw new UsageError("Missing <directory>");
+    }
+    const interval = seconds(values.interval, "interval");
+    const settleTime = seconds(values.settle, "settle");
+    const onExisting = (values["on-existing"] as string | undefined) ?? "skip";
+    if (!isExistingDepositPolicy(onExisting)) {
+      throw new UsageError(`Invalid --on-existing. Expected one of: ${EXISTING_DEPOSIT_POLICIES.join(", ")}`);
+    }
+    const onFailure = (values["on-failure"] as string | undefined) ?? "resume";
+    if (!isImportFailurePolicy(onFailure)) {
+      throw new UsageError(`Invalid --on-failure. Expected one of: ${IMPORT_FAILURE_POLICIES.join(", ")}`);
+    }
+
+    // A stop request lets the import in progress finish, so no deposit is left half imported
+    const controller = new AbortController();
+    const stop = (signal: NodeJS.Signals) => {
+      if (!controller.signal.aborted) {
+        context.logger.info(`${signal} received, stopping after the import in progress`);
+        controller.abort();
+      }
+    };
+    process.on("SIGTERM", stop);
+    process.on("SIGINT", stop);
+
+    const counts = { processed: 0, failed: 0 };
+    try {
+      await watchDepositFolder(directoryPath, community, {
+        connection: context.connection(),
+        interval,
+        settleTime,
+        onExisting,
+        onFailure,
+        signal: controller.signal,
+        onResult: (result) => {
+          counts[result.status === "succeeded" ? "processed" : "failed"]++;
+          context.logger.info(
+            result.status === "succeeded"
+              ? `${result.folder}: deposit ${result.depositId} (${result.action})`
+              : `${result.folder}: failed, see ${result.path}.import-result.json`
+          );
+        },
+      });
+    } finally {
+      process.off("SIGTERM", stop);
+      process.off("SIGINT", stop);
+    }
+    context.output(counts, `Watch stopped: ${counts.processed} imported, ${counts.failed} failed`);
+    return EXIT_CODES.success;
+  },
+};
+
+if (require.main === module) {
+  runStandalone(watchCommand, "orvium-tools-watch");
+}
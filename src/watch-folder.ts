@@ -0,0 +1,243 @@
+/**
+ * Watch mode: imports the deposit folders dropped into a hot folder.
+ *
+ * - The hot folder is polled for subfolders with `meta.json` or another supported metadata file. Polling also
+ *   works on shared and network volumes, where file system events are not reliable.
+ * - A folder is imported once none of its files has changed for `settleTime`, so folders still being copied
+ *   are left alone.
+ * - Imported folders are moved to `processed/`, failed ones to `failed/`, each with a `<folder>.import-result.json`
+ *   holding the deposit id or the error. The checkpoint of a failed import moves to `failed/` with its folder, and
+ *   only a folder moved back from there resumes it.
+ * - Folders are imported one at a time. Stopping the watch (e.g. on SIGTERM) lets the import in progress finish.
+ */
+import * as fs from "fs";
+import * as path from "path";
+import { ApiConnection, connectionFromEnv } from "./api-connection";
+import { ImportManifestEntry, WatchImportResult } from "./deposit-interfaces";
+import { ExistingDepositPolicy } from "./existing-deposits";
+import { ImportFailurePolicy, defaultCheckpointPath } from "./import-checkpoint";
+import { importOrUpdateDeposit } from "./import-deposit";
+import { loggerOf } from "./logger";
+import { findMetadataFile } from "./metadata-readers";
+
+export const PROCESSED_FOLDER = "processed";
+export const FAILED_FOLDER = "failed";
+
+const RESULT_SUFFIX = ".import-result.json";
+const DEFAULT_INTERVAL = 5000;
+const DEFAULT_SETTLE_TIME = 10000;
+
+/**
+ * Options accepted by `watchDepositFolder`.
+ *
+ * @property {ApiConnection} [connection] - Orvium instance to import into (defaults to the one configured in the environment).
+ * @property {number} [interval] - Time between two scans of the hot folder in milliseconds (defaults to 5000).
+ * @property {number} [settleTime] - Time the files of a folder must stay unchanged before it is imported, in milliseconds (defaults to 10000).
+ * @property {ExistingDepositPolicy} [onExisting] - Policy for deposits that already exist in the community (defaults to `skip`).
+ * @property {ImportFailurePolicy} [onFailure] - Policy for deposits whose import fails after they were created (defaults to `resume`).
+ * @property {AbortSignal} [signal] - Stops the watch once aborted, after the import in progress.
+ * @property {Function} [onResult] - Called with the result of every imported folder.
+ */
+export interface WatchOptions {
+  connection?: ApiConnection;
+  interval?: number;
+  settleTime?: number;
+  onExisting?: ExistingDepositPolicy;
+  onFailure?: ImportFailurePolicy;
+  signal?: AbortSignal;
+  onResult?: (result: WatchImportResult) => void;
+}
+
+// Names, sizes and modification times of every file below a folder: it changes whenever a file is written
+function folderSnapshot(folderPath: string): string {
+  const entries: string[] = [];
+  const scan = (relativePath: string) => {
+    for (const entry of fs.readdirSync(path.join(folderPath, relativePath), { withFileTypes: true })) {
+      const entryPath = path.join(relativePath, entry.name);
+      if (entry.isDirectory()) {
+        scan(entryPath);
+      } else {
+        const stats = fs.statSync(path.join(folderPath, entryPath));
+        entries.push(`${entryPath}:${stats.size}:${stats.mtimeMs}`);
+      }
+    }
+  };
+  scan("");
+  return entries.sort().join("\n");
+}
+
+// A folder being copied may vanish or hold a partial metadata file: it is checked again on the next scan
+function hasMetadata(folderPath: string): boolean {
+  try {
+    return findMetadataFile(folderPath) !== undefined;
+  } catch {
+    return false;
+  }
+}
+
+// Deposit folders directly below the hot folder, except the result folders and hidden folders
+function depositFolders(hotPath: string): string[] {
+  return fs
+    .readdirSync(hotPath, { withFileTypes: true })
+    .filter(
+      (entry) =>
+        entry.isDirectory() &&
+        !entry.name.startsWith(".") &&
+        entry.name !== PROCESSED_FOLDER &&
+        entry.name !== FAILED_FOLDER &&
+        hasMetadata(path.join(hotPath, entry.name))
+    )
+    .map((entry) => entry.name)
+    .sort();
+}
+
+// A path in `directory` for the folder that does not overwrite an earlier folder of the same name
+function destinationPath(directory: string, name: string): string {
+  let destination = path.join(directory, name);
+  const taken = (candidate: string) =>
+    fs.existsSync(candidate) || fs.existsSync(`${candidate}${RESULT_SUFFIX}`) || fs.existsSync(defaultCheckpointPath(candidate));
+  for (let copy = 2; taken(destination); copy++) {
+    destination = path.join(directory, `${name}-${copy}`);
+  }
+  return destination;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
+
+// Puts the checkpoint of a folder about to be imported next to it. One already in the hot folder is stale, e.g. left
+// by an earlier folder of the same name; a folder moved back from `failed/` gets the checkpoint saved there.
+function restoreCheckpoint(hotPath: string, name: string, connection: ApiConnection): void {
+  const checkpointPath = defaultCheckpointPath(path.join(hotPath, name));
+  if (fs.existsSync(checkpointPath)) {
+    loggerOf(connection).warn(`Removing the stale checkpoint ${checkpointPath} before importing ${name}`);
+    fs.rmSync(checkpointPath, { force: true });
+  }
+  const failedPath = path.join(hotPath, FAILED_FOLDER, name);
+  if (!fs.existsSync(failedPath) && fs.existsSync(defaultCheckpointPath(failedPath))) {
+    fs.renameSync(defaultCheckpointPath(failedPath), checkpointPath);
+  }
+}
+
+/**
+ * Imports a folder of the hot folder, then moves it to `processed/` or `failed/` next to its result file, and
+ * its checkpoint, if the import left one.
+ */
+async function importWatchedFolder(
+  hotPath: string,
+  name: string,
+  community: string | undefined,
+  connection: ApiConnection,
+  options: WatchOptions
+): Promise<WatchImportResult> {
+  const folderPath = path.join(hotPath, name);
+  const startedAt = new Date().toISOString();
+  restoreCheckpoint(hotPath, name, connection);
+  let entry: ImportManifestEntry;
+  try {
+    const { depositId, action } = await importOrUpdateDeposit(folderPath, community, connection, {
+      onExisting: options.onExisting,
+      onFailure: options.onFailure,
+    });
+    entry = { status: "succeeded", depositId, action, updatedAt: new Date().toISOString() };
+  } catch (error: any) {
+    loggerOf(connection).error(`Error importing ${name}: ${error?.message ?? error}`);
+    entry = {
+      status: "failed",
+      depositId: error?.depositId,
+      error: error?.message ?? String(error),
+      step: error?.step,
+      updatedAt: new Date().toISOString(),
+    };
+  }
+
+  const destination = destinationPath(
+    path.join(hotPath, entry.status === "succeeded" ? PROCESSED_FOLDER : FAILED_FOLDER),
+    name
+  );
+  fs.renameSync(folderPath, destination);
+  if (fs.existsSync(defaultCheckpointPath(folderPath))) {
+    fs.renameSync(defaultCheckpointPath(folderPath), defaultCheckpointPath(destination));
+  }
+  const result: WatchImportResult = { folder: name, path: destination, startedAt, ...entry };
+  fs.writeFileSync(`${destination}${RESULT_SUFFIX}`, JSON.stringify(result, null, 2));
+  return result;
+}
+
+/**
+ * Watches a hot folder and imports every deposit folder dropped into it, until `options.signal` is aborted.
+ * Each folder is imported with `importOrUpdateDeposit` once its files have not changed for `settleTime`, then
+ * moved to `processed/` or `failed/` (created inside the hot folder) with a `<folder>.import-result.json`.
+ *
+ * With the `resume` failure policy, the checkpoint of a failed import is moved to `failed/` with the folder, as
+ * `<folder>.import-checkpoint.json`: moving the folder back from `failed/`, under the name it has there, resumes its
+ * import on the same deposit. A checkpoint found in the hot folder itself is stale and removed before the import,
+ * so a new folder never resumes the deposit of an earlier folder of the same name. Remove the checkpoint of a
+ * failed folder together with the folder when giving up on it.
+ *
+ * @param {string} hotPath - The folder to watch.
+ * @param {string} [community] - Community of the deposits (defaults to the community in their metadata).
+ * @param {WatchOptions} [options] - Connection, timings, import policies, stop signal and result callback.
+ * @returns {Promise<void>} A promise that resolves once the watch is stopped and no import is in progress.
+ * @throws {Error} Throws if the hot folder cannot be read, or an imported folder cannot be moved out of it.
+ */
+export async function watchDepositFolder(
+  hotPath: string,
+  community?: string,
+  options: WatchOptions = {}
+): Promise<void> {
+  const connection = options.connection ?? connectionFromEnv();
+  const { signal } = options;
+  const interval = options.interval ?? DEFAULT_INTERVAL;
+  const settleTime = options.settleTime ?? DEFAULT_SETTLE_TIME;
+  fs.mkdirSync(path.join(hotPath, PROCESSED_FOLDER), { recursive: true });
+  fs.mkdirSync(path.join(hotPath, FAILED_FOLDER), { recursive: true });
+
+  // Last snapshot of every folder, and since when it has not changed
+  const pending = new Map<string, { snapshot: string; since: number }>();
+  loggerOf(connection).info(`Watching ${hotPath} for deposit folders`);
+
+  while (!signal?.aborted) {
+    const folders = depositFolders(hotPath);
+    for (const name of pending.keys()) {
+      if (!folders.includes(name)) {
+        pending.delete(name);
+      }
+    }
+
+    for (const name of folders) {
+      if (signal?.aborted) {
+        break;
+      }
+      let snapshot: string;
+      try {
+        snapshot = folderSnapshot(path.join(hotPath, name));
+      } catch {
+        continue; // Removed or renamed while it was scanned
+      }
+      const previous = pending.get(name);
+      if (previous?.snapshot !== snapshot) {
+        pending.set(name, { snapshot, since: Date.now() });
+        continue;
+      }
+      if (Date.now() - previous.since < settleTime) {
+        continue;
+      }
+      pending.delete(name);
+      const result = await importWatchedFolder(hotPath, name, community, connection, options);
+      options.onResult?.(result);
+    }
+
+    await sleep(interval, signal);
+  }
+  loggerOf(connection).info(`Stopped watching ${hotPath}`);
+}
@@ -0,0 +1,122 @@
+import assert from "node:assert/strict";
+import AdmZip from "adm-zip";
+import * as fs from "fs";
+import * as path from "path";
+import { after, afterEach, before, describe, it } from "node:test";
+import {
+  IntegrityError,
+  MockOrviumServer,
+  exportDeposit,
+  importOrUpdateDeposit,
+  silentLogger,
+  startMockServer,
+  verifyArchiveManifest,
+} from "../index";
+import { EXIT_CODES, runCommand } from "../src/cli";
+import { verifyCommand } from "../src/verify-deposit-cli";
+import { DATA, MANUSCRIPT, tempDir, writeDepositFolder } from "./fixtures";
+
+describe("archive manifest", () => {
+  let server: MockOrviumServer;
+  let temp: ReturnType<typeof tempDir>;
+  let archive: string;
+
+  before(async () => {
+    server = await startMockServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  afterEach(() => {
+    server.reset();
+    temp.remove();
+  });
+
+  const connection = () => server.connection({ logger: silentLogger });
+
+  // Exports the default deposit folder and extracts its archive, returning the extracted folder
+  async function exported(): Promise<string> {
+    temp = tempDir();
+    const { depositId } = await importOrUpdateDeposit(writeDepositFolder(temp.dir, "deposit"), undefined, connection());
+    await exportDeposit(depositId, temp.dir, connection());
+    archive = path.join(temp.dir, `deposit_${depositId}.zip`);
+    const extracted = path.join(temp.dir, "extracted");
+    new AdmZip(archive).extractAllTo(extracted);
+    return extracted;
+  }
+
+  it("lists every exported file with its size and checksum", async () => {
+    const folder = await exported();
+    const manifest = JSON.parse(fs.readFileSync(path.join(folder, "manifest.json"), "utf8"));
+    assert.deepEqual(
+      manifest.files.map((file: { name: string }) => file.name).sort(),
+      ["data.csv", "manuscript.pdf", "meta.json"]
+    );
+    assert.equal(manifest.files.find((file: { name: string }) => file.name === "data.csv").size, DATA.length);
+    assert.deepEqual(verifyArchiveManifest(folder), []);
+  });
+
+  it("reports changed, truncated, missing and unlisted files", async () => {
+    const folder = await exported();
+    fs.writeFileSync(path.join(folder, "data.csv"), DATA.replace("1", "9"));
+    fs.truncateSync(path.join(folder, "manuscript.pdf"), 100);
+    fs.rmSync(path.join(folder, "meta.json"));
+    fs.mkdirSync(path.join(folder, "reviews"));
+    fs.writeFileSync(path.join(folder, "reviews", "extra.txt"), "extra");
+
+    assert.deepEqual(
+      verifyArchiveManifest(folder).sort((a, b) => a.file.localeCompare(b.file)),
+      [
+        { file: "data.csv", message: "does not match its SHA-256 checksum" },
+        { file: "manuscript.pdf", message: `has 100 bytes, expected ${MANUSCRIPT.length}` },
+        { file: "meta.json", message: "is missing" },
+        { file: "reviews/extra.txt", message: "is not listed in manifest.json" },
+      ]
+    );
+  });
+
+  it("rejects manifest entries outside the folder", async () => {
+    const folder = await exported();
+    const manifestPath = path.join(folder, "manifest.json");
+    const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf8"));
+    manifest.files.push({ name: "../outside.txt", size: 0, sha256: "" });
+    fs.writeFileSync(manifestPath, JSON.stringify(manifest));
+
+    assert.deepEqual(verifyArchiveManifest(folder), [{ file: "../outside.txt", message: "is not a valid file name" }]);
+  });
+
+  it("refuses to import a corrupted archive before creating anything", async () => {
+    await exported();
+    const zip = new AdmZip(archive);
+    zip.updateFile("data.csv", Buffer.from(DATA.replace("1", "9")));
+    zip.writeZip(archive);
+    const created = server.deposits.size;
+
+    const target = await startMockServer();
+    try {
+      await assert.rejects(
+        importOrUpdateDeposit(archive, "other-community", target.connection({ logger: silentLogger })),
+        (error: unknown) => {
+          assert.ok(error instanceof IntegrityError);
+          assert.equal(error.step, "verifyManifest");
+          assert.match(error.message, /data\.csv does not match its SHA-256 checksum/);
+          return true;
+        }
+      );
+      assert.equal(target.requests.length, 0);
+    } finally {
+      await target.close();
+    }
+    assert.equal(server.deposits.size, created);
+  });
+
+  it("exits with a failure from the verify command when an archive does not verify", async () => {
+    const folder = await exported();
+    assert.equal(await runCommand(verifyCommand, [archive, folder, "--quiet"], "orvium-tools verify"), EXIT_CODES.success);
+
+    fs.appendFileSync(path.join(folder, "data.csv"), "c,3\n");
+    assert.equal(await runCommand(verifyCommand, [archive, folder, "--quiet"], "orvium-tools verify"), EXIT_CODES.failure);
+  });
+});
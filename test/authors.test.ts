@@ -0,0 +1,120 @@
+import assert from "node:assert/strict";
+import { after, afterEach, before, describe, it } from "node:test";
+import {
+  MockOrviumServer,
+  ValidationError,
+  importOrUpdateDeposit,
+  isValidOrcid,
+  normalizeOrcid,
+  normalizeRor,
+  silentLogger,
+  startMockServer,
+  transformAuthor,
+} from "../index";
+import { nickNameOf } from "../src/authors";
+import { tempDir, writeDepositFolder } from "./fixtures";
+
+describe("author identifiers", () => {
+  it("normalizes ORCID iDs written as URLs, bare iDs or without hyphens", () => {
+    for (const value of [
+      "0000-0002-1825-0097",
+      "https://orcid.org/0000-0002-1825-0097",
+      "http://orcid.org/0000-0002-1825-0097/",
+      "orcid:0000000218250097",
+      " 0000-0002-1825-0097 ",
+    ]) {
+      assert.equal(normalizeOrcid(value), "0000-0002-1825-0097", value);
+    }
+    assert.equal(normalizeOrcid("0000-0002-1694-233x"), "0000-0002-1694-233X");
+    assert.equal(normalizeOrcid("0000-0002-1825"), undefined);
+    assert.equal(normalizeOrcid("https://example.org/10000-0002-1825-0097"), undefined);
+  });
+
+  it("checks the check digit of ORCID iDs", () => {
+    assert.equal(isValidOrcid("0000-0002-1825-0097"), true);
+    assert.equal(isValidOrcid("https://orcid.org/0000-0002-1694-233X"), true);
+    assert.equal(isValidOrcid("0000-0002-1825-0098"), false);
+    assert.equal(isValidOrcid("not an orcid"), false);
+  });
+
+  it("normalizes ROR ids into their URL", () => {
+    assert.equal(normalizeRor("05dxps055"), "https://ror.org/05dxps055");
+    assert.equal(normalizeRor("https://ror.org/05DXPS055/"), "https://ror.org/05dxps055");
+    assert.equal(normalizeRor("https://example.org/05dxps055"), undefined);
+  });
+
+  it("derives nicknames without accents", () => {
+    assert.equal(nickNameOf("José", "María", "García"), "jose-maria-garcia");
+    assert.equal(nickNameOf("Jane", undefined, "O'Doe"), "jane-o-doe");
+  });
+});
+
+describe("transformAuthor", () => {
+  it("maps the snake case author of meta.json, normalizing its identifiers", () => {
+    const author = transformAuthor({
+      first_name: "José",
+      middle_name: "",
+      last_name: "García",
+      orcid: "https://orcid.org/0000-0002-1825-0097",
+      affiliations: [{ name: "Orvium", ror: "05dxps055" }],
+      author_id: 7,
+      user_id: null,
+    });
+    assert.equal(author.orcid, "0000-0002-1825-0097");
+    assert.equal(author.nickName, "jose-garcia");
+    assert.deepEqual(author.affiliations, [{ name: "Orvium", ror: "https://ror.org/05dxps055" }]);
+    assert.equal(author.sourceId, "7");
+  });
+
+  it("drops the empty values of exported deposits and rejects an invalid ORCID iD", () => {
+    const author = transformAuthor({ firstName: "Jane", lastName: "Doe", middleName: "", email: "", orcid: "" });
+    assert.equal(author.middleName, undefined);
+    assert.equal(author.email, undefined);
+    assert.equal(author.orcid, undefined);
+
+    assert.throws(
+      () => transformAuthor({ firstName: "Jane", lastName: "Doe", orcid: "0000-0002-1825-0098" }),
+      (error: unknown) => error instanceof ValidationError && /Invalid ORCID iD 0000-0002-1825-0098/.test(error.message)
+    );
+  });
+});
+
+describe("author import", () => {
+  let server: MockOrviumServer;
+  let temp: ReturnType<typeof tempDir>;
+
+  before(async () => {
+    server = await startMockServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  afterEach(() => {
+    server.reset();
+    temp.remove();
+  });
+
+  it("stores the ORCID iD of an author given as URL in the platform form", async () => {
+    temp = tempDir();
+    const folder = writeDepositFolder(temp.dir, "deposit", {
+      authors: [{ firstName: "Jane", lastName: "Doe", orcid: "https://orcid.org/0000-0002-1694-233x" }],
+    });
+
+    const { depositId } = await importOrUpdateDeposit(folder, undefined, server.connection({ logger: silentLogger }));
+    assert.deepEqual(server.deposits.get(depositId)?.authors.map((author) => author.orcid), ["0000-0002-1694-233X"]);
+  });
+
+  it("rejects a folder with an invalid ORCID iD before calling the platform", async () => {
+    temp = tempDir();
+    const folder = writeDepositFolder(temp.dir, "deposit", {
+      authors: [{ firstName: "Jane", lastName: "Doe", orcid: "0000-0002-1825-0098" }],
+    });
+
+    await assert.rejects(importOrUpdateDeposit(folder, undefined, server.connection({ logger: silentLogger })), {
+      step: "validateMetadata",
+    });
+    assert.equal(server.requests.length, 0);
+  });
+});
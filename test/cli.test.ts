@@ -0,0 +1,127 @@
+import assert from "node:assert/strict";
+import { execFile } from "child_process";
+import * as path from "path";
+import { after, afterEach, before, describe, it } from "node:test";
+import { MockOrviumServer, startMockServer } from "../index";
+import { EXIT_CODES } from "../src/cli";
+import { tempDir, writeDepositFolder } from "./fixtures";
+
+const CLI = path.join(__dirname, "..", "src", "orvium-tools-cli.ts");
+const TSCONFIG = path.join(__dirname, "..", "tsconfig.json");
+
+interface CliRun {
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+describe("orvium-tools", () => {
+  let server: MockOrviumServer;
+  let temp: ReturnType<typeof tempDir>;
+
+  before(async () => {
+    server = await startMockServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  afterEach(() => {
+    server.reset();
+    temp.remove();
+  });
+
+  // Runs the CLI in the temporary directory, with the given API settings instead of those of the environment.
+  // The temporary directory has no tsconfig.json, so ts-node is pointed at the one of the repository.
+  function run(argv: string[], settings: Record<string, string> = {}): Promise<CliRun> {
+    const env: NodeJS.ProcessEnv = { ...process.env, TS_NODE_PROJECT: TSCONFIG, TS_NODE_TRANSPILE_ONLY: "1", ...settings };
+    for (const name of ["API_URL", "API_KEY", "API_KEY_USER", "ORVIUM_TOOLS_CONFIG"]) {
+      if (!(name in settings)) {
+        delete env[name];
+      }
+    }
+    return new Promise((resolve) => {
+      execFile(
+        process.execPath,
+        ["--require", require.resolve("ts-node/register"), CLI, ...argv],
+        { cwd: temp.dir, env },
+        (error, stdout, stderr) => resolve({ code: error ? Number(error.code) : 0, stdout, stderr })
+      );
+    });
+  }
+
+  const apiKeys = () => ({ API_KEY: "mock-api-key", API_KEY_USER: "mock-api-key-user" });
+
+  it("exits with a usage error for a missing or unknown command, and prints the help on request", async () => {
+    temp = tempDir();
+
+    const missing = await run([]);
+    assert.equal(missing.code, EXIT_CODES.usage);
+    assert.match(missing.stderr, /Usage: orvium-tools <command>/);
+
+    const unknown = await run(["frobnicate"]);
+    assert.equal(unknown.code, EXIT_CODES.usage);
+    assert.match(unknown.stderr, /Unknown command "frobnicate"/);
+
+    const help = await run(["--json", "import", "--help"]);
+    assert.equal(help.code, EXIT_CODES.success);
+    assert.match(help.stdout, /^Usage: orvium-tools import /);
+    assert.match(help.stdout, /--on-existing <policy>/);
+  });
+
+  it("exits with a usage error for unknown options and invalid values", async () => {
+    temp = tempDir();
+
+    const option = await run(["import", "--bogus", "deposit"]);
+    assert.equal(option.code, EXIT_CODES.usage);
+    assert.match(option.stderr, /--bogus/);
+
+    const value = await run(["import", "--batch", "--concurrency", "0", ".", "community"]);
+    assert.equal(value.code, EXIT_CODES.usage);
+    assert.match(value.stderr, /Invalid --concurrency/);
+  });
+
+  it("exits with a configuration error when the connection cannot be resolved", async () => {
+    temp = tempDir();
+    writeDepositFolder(temp.dir, "deposit");
+
+    const settings = await run(["import", "deposit"]);
+    assert.equal(settings.code, EXIT_CODES.config);
+    assert.match(settings.stderr, /Missing required environment variables/);
+
+    const profile = await run(["--profile", "staging", "--config", "profiles.json", "import", "deposit"]);
+    assert.equal(profile.code, EXIT_CODES.config);
+    assert.equal(server.requests.length, 0);
+  });
+
+  it("prints the result as JSON with --json, wherever the global options are given", async () => {
+    temp = tempDir();
+    writeDepositFolder(temp.dir, "deposit");
+
+    const { code, stdout } = await run(["import", "deposit", "--json", "--api-url", server.url], apiKeys());
+    assert.equal(code, EXIT_CODES.success);
+    const result = JSON.parse(stdout);
+    assert.equal(result.action, "created");
+    assert.ok(server.deposits.has(result.depositId));
+  });
+
+  it("exits with a failure when a deposit fails, with the error as JSON on stderr", async () => {
+    temp = tempDir();
+    writeDepositFolder(temp.dir, "deposit");
+    writeDepositFolder(temp.dir, "invalid", { title: "" });
+
+    const invalid = await run(["validate", "deposit", "invalid"]);
+    assert.equal(invalid.code, EXIT_CODES.failure);
+    assert.match(invalid.stdout, /deposit: OK/);
+    assert.match(invalid.stdout, /invalid: 1 problem\(s\)/);
+
+    server.injectFailure({ method: "PATCH", path: "/deposits/*/files/confirm", times: 5 });
+    const failed = await run(["--json", "import", "deposit"], { ...apiKeys(), API_URL: server.url });
+    assert.equal(failed.code, EXIT_CODES.failure);
+    assert.equal(failed.stdout, "");
+    const { error } = JSON.parse(failed.stderr.trim().split("\n").pop()!);
+    assert.equal(error.step, "confirmUpload");
+    assert.equal(error.status, 500);
+  });
+});
@@ -0,0 +1,104 @@
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { after, afterEach, before, describe, it } from "node:test";
+import {
+  MockOrviumServer,
+  importOrUpdateDeposit,
+  readDepositIdList,
+  runLifecycleAction,
+  silentLogger,
+  startMockServer,
+} from "../index";
+import { tempDir, writeDepositFolder } from "./fixtures";
+
+describe("deposit lifecycle", () => {
+  let server: MockOrviumServer;
+  let temp: ReturnType<typeof tempDir>;
+
+  before(async () => {
+    server = await startMockServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  afterEach(() => {
+    server.reset();
+    temp.remove();
+  });
+
+  async function publishedDeposit(metadata: Record<string, unknown> = {}): Promise<string> {
+    const connection = server.connection({ logger: silentLogger });
+    const { depositId } = await importOrUpdateDeposit(writeDepositFolder(temp.dir, "deposit", metadata), undefined, connection);
+    await runLifecycleAction("submit", [depositId], connection);
+    await runLifecycleAction("publish", [depositId], connection);
+    return depositId;
+  }
+
+  it("skips deposits already in the target state when a batch runs again", async () => {
+    temp = tempDir();
+    const connection = server.connection({ logger: silentLogger });
+    const { depositId } = await importOrUpdateDeposit(writeDepositFolder(temp.dir, "deposit"), undefined, connection);
+
+    const [first] = await runLifecycleAction("submit", [depositId], connection);
+    assert.equal(first.status, "succeeded");
+    assert.equal(first.depositStatus, "pending_approval");
+
+    const [again] = await runLifecycleAction("submit", [depositId], connection);
+    assert.equal(again.status, "skipped");
+    assert.equal(again.depositStatus, "pending_approval");
+  });
+
+  it("records a failed deposit without stopping the others", async () => {
+    temp = tempDir();
+    const connection = server.connection({ logger: silentLogger, maxRetries: 0 });
+    const { depositId } = await importOrUpdateDeposit(writeDepositFolder(temp.dir, "deposit"), undefined, connection);
+
+    const results = await runLifecycleAction("publish", [depositId, "0123456789abcdef01234567"], connection);
+    assert.equal(results[0].status, "failed");
+    assert.equal(results[0].step, "publishDeposit");
+    assert.equal(results[1].status, "failed");
+    assert.equal(results[1].step, "getDeposit");
+  });
+
+  it("does not create another version of a deposit when new-version runs again", async () => {
+    temp = tempDir();
+    const depositId = await publishedDeposit();
+    const connection = server.connection({ logger: silentLogger });
+
+    const [first] = await runLifecycleAction("new-version", [depositId], connection);
+    assert.equal(first.status, "succeeded");
+    assert.equal(server.deposits.get(first.versionId!)?.version, 2);
+
+    const [again] = await runLifecycleAction("new-version", [depositId], connection);
+    assert.equal(again.status, "skipped");
+    assert.equal(again.versionId, first.versionId);
+    assert.equal(server.deposits.size, 2);
+  });
+
+  it("creates a new version on every run for a deposit without a DOI or source identifier", async () => {
+    temp = tempDir();
+    const depositId = await publishedDeposit({ sourceId: undefined });
+    const connection = server.connection({ logger: silentLogger });
+
+    await runLifecycleAction("new-version", [depositId], connection);
+    const [again] = await runLifecycleAction("new-version", [depositId], connection);
+    assert.equal(again.status, "succeeded");
+    assert.equal(server.deposits.size, 3);
+  });
+
+  it("reads deposit ids from a file with comments and separators", () => {
+    temp = tempDir();
+    const file = path.join(temp.dir, "ids.txt");
+    fs.writeFileSync(
+      file,
+      "# imported\n64A09F6CE3D5FF0813586345, 64a09f6ce3d5ff0813586346\n64a09f6ce3d5ff0813586345 # again\n"
+    );
+    assert.deepEqual(readDepositIdList(file), ["64a09f6ce3d5ff0813586345", "64a09f6ce3d5ff0813586346"]);
+
+    fs.writeFileSync(file, "64a09f6ce3d5ff0813586345\nnot-an-id\n");
+    assert.throws(() => readDepositIdList(file), /line 2: not-an-id/);
+  });
+});
@@ -0,0 +1,138 @@
+import assert from "node:assert/strict";
+import AdmZip from "adm-zip";
+import * as fs from "fs";
+import * as path from "path";
+import { after, afterEach, before, describe, it } from "node:test";
+import {
+  MockOrviumServer,
+  exportDeposit,
+  importOrUpdateDeposit,
+  silentLogger,
+  startMockServer,
+  verifyArchiveManifest,
+} from "../index";
+import { toExportedReview } from "../src/deposit-reviews";
+import { tempDir, writeDepositFolder } from "./fixtures";
+
+const REPORT = Buffer.concat([Buffer.from("%PDF-1.4\n"), Buffer.alloc(2048, "r")]);
+
+const reportFile = (filename: string, contentLength: number) => ({
+  filename,
+  description: filename,
+  contentType: "application/pdf",
+  contentLength,
+  tags: [],
+});
+
+describe("toExportedReview", () => {
+  it("names the reviewer only when their identity is public", () => {
+    const review = {
+      _id: "review",
+      deposit: "deposit",
+      status: "published",
+      ownerProfile: { firstName: "Rita", lastName: "Roe", nickname: "rita-roe", orcid: "" },
+      doi: "",
+    };
+    assert.equal(toExportedReview({ ...review, showIdentityToAuthor: true }).reviewer, undefined);
+    assert.deepEqual(toExportedReview({ ...review, showIdentityToEveryone: true }).reviewer, {
+      firstName: "Rita",
+      lastName: "Roe",
+      nickname: "rita-roe",
+      orcid: undefined,
+    });
+    assert.equal(toExportedReview(review).doi, undefined);
+  });
+
+  it("lists the report first and every extra file once, under the folder of the review", () => {
+    const exported = toExportedReview({
+      _id: "review",
+      deposit: "deposit",
+      status: "published",
+      file: reportFile("report.pdf", 10),
+      extraFiles: [reportFile("annex.pdf", 20), reportFile("report.pdf", 10), reportFile("annex.pdf", 20)],
+    });
+    assert.deepEqual(
+      exported.files.map((file) => [file.path, file.report]),
+      [
+        ["reviews/review/report.pdf", true],
+        ["reviews/review/annex.pdf", undefined],
+      ]
+    );
+  });
+});
+
+describe("review export", () => {
+  let server: MockOrviumServer;
+  let temp: ReturnType<typeof tempDir>;
+
+  before(async () => {
+    server = await startMockServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  afterEach(() => {
+    server.reset();
+    temp.remove();
+  });
+
+  const connection = () => server.connection({ logger: silentLogger, maxRetries: 0 });
+
+  // Imports the default deposit folder with a review that has a report and an extra file
+  async function reviewedDeposit(): Promise<{ depositId: string; reviewId: string }> {
+    temp = tempDir();
+    const { depositId } = await importOrUpdateDeposit(writeDepositFolder(temp.dir, "deposit"), undefined, connection());
+    const review = server.addReview({
+      deposit: depositId,
+      decision: "accepted",
+      comments: "Convincing",
+      showIdentityToEveryone: true,
+      ownerProfile: { firstName: "Rita", lastName: "Roe" },
+      file: reportFile("report.pdf", REPORT.length),
+      files: { "report.pdf": REPORT, "annex.txt": "Annex" },
+    });
+    return { depositId, reviewId: review._id };
+  }
+
+  it("writes the reviews with their files into the archive and its manifest", async () => {
+    const { depositId, reviewId } = await reviewedDeposit();
+    await exportDeposit(depositId, temp.dir, connection(), { reviews: true, formats: ["ro-crate"] });
+
+    const zip = new AdmZip(path.join(temp.dir, `deposit_${depositId}.zip`));
+    const review = JSON.parse(zip.readAsText(`reviews/${reviewId}/review.json`));
+    assert.equal(review.decision, "accepted");
+    assert.equal(review.comments, "Convincing");
+    assert.deepEqual(review.reviewer, { firstName: "Rita", lastName: "Roe" });
+    assert.deepEqual(zip.readFile(`reviews/${reviewId}/report.pdf`), REPORT);
+    assert.equal(zip.readAsText(`reviews/${reviewId}/annex.txt`), "Annex");
+
+    const crate = JSON.parse(zip.readAsText("ro-crate-metadata.json"))["@graph"];
+    assert.ok(crate.some((entity: { "@id": string }) => entity["@id"] === `reviews/${reviewId}/report.pdf`));
+
+    const extracted = path.join(temp.dir, "extracted");
+    zip.extractAllTo(extracted);
+    assert.deepEqual(verifyArchiveManifest(extracted), []);
+  });
+
+  it("leaves the reviews out unless they are requested", async () => {
+    const { depositId } = await reviewedDeposit();
+    await exportDeposit(depositId, temp.dir, connection());
+
+    const zip = new AdmZip(path.join(temp.dir, `deposit_${depositId}.zip`));
+    assert.ok(zip.getEntries().every((entry) => !entry.entryName.startsWith("reviews/")));
+    assert.ok(!server.requests.some((request) => request.path.startsWith("/reviews")));
+  });
+
+  it("fails the export without leaving an archive when a review file cannot be downloaded", async () => {
+    const { depositId, reviewId } = await reviewedDeposit();
+    server.injectFailure({ method: "GET", path: `/reviews/${reviewId}/files/annex.txt`, status: 404 });
+
+    await assert.rejects(exportDeposit(depositId, temp.dir, connection(), { reviews: true }), { status: 404 });
+    assert.deepEqual(
+      fs.readdirSync(temp.dir).filter((name) => name.startsWith("deposit_")),
+      []
+    );
+  });
+});
@@ -0,0 +1,99 @@
+import assert from "node:assert/strict";
+import AdmZip from "adm-zip";
+import * as fs from "fs";
+import * as path from "path";
+import { after, afterEach, before, describe, it } from "node:test";
+import { MockOrviumServer, exportCommunity, importOrUpdateDeposit, silentLogger, startMockServer } from "../index";
+import { MANUSCRIPT, tempDir, writeDepositFolder } from "./fixtures";
+
+describe("community export", () => {
+  let server: MockOrviumServer;
+  let temp: ReturnType<typeof tempDir>;
+
+  before(async () => {
+    server = await startMockServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  afterEach(() => {
+    server.reset();
+    temp.remove();
+  });
+
+  const connection = () => server.connection({ logger: silentLogger, maxRetries: 0 });
+
+  // Imports the given folders into "community" and returns the deposit ids, in the same order
+  async function depositsOf(...names: string[]): Promise<string[]> {
+    temp = tempDir();
+    const ids: string[] = [];
+    for (const name of names) {
+      const { depositId } = await importOrUpdateDeposit(writeDepositFolder(temp.dir, name), undefined, connection());
+      ids.push(depositId);
+    }
+    fs.mkdirSync(path.join(temp.dir, "export"));
+    return ids;
+  }
+
+  it("exports the deposits that match the filters into a combined archive", async () => {
+    const [first, second] = await depositsOf("first", "second");
+    server.deposits.get(second)!.status = "published";
+    const downloadPath = path.join(temp.dir, "export");
+
+    const manifest = await exportCommunity("community", downloadPath, {
+      connection: connection(),
+      filters: { status: "published" },
+      combined: true,
+    });
+    assert.deepEqual(Object.keys(manifest.deposits), [second]);
+    assert.ok(fs.existsSync(path.join(downloadPath, `deposit_${second}.zip`)));
+    assert.ok(!fs.existsSync(path.join(downloadPath, `deposit_${first}.zip`)));
+
+    const combined = new AdmZip(path.join(downloadPath, "community_community.zip"));
+    const index = JSON.parse(combined.readAsText("index.json"));
+    assert.deepEqual(index.filters, { status: "published" });
+    assert.deepEqual(
+      index.deposits.map((deposit: { id: string; folder: string }) => [deposit.id, deposit.folder]),
+      [[second, second]]
+    );
+    assert.deepEqual(combined.readFile(`${second}/manuscript.pdf`), MANUSCRIPT);
+  });
+
+  it("exports again only the deposits that failed or whose archive is missing", async () => {
+    const [first, second, third] = await depositsOf("first", "second", "third");
+    const downloadPath = path.join(temp.dir, "export");
+    server.injectFailure({ method: "GET", path: `/deposits/${second}/files/manuscript.pdf`, status: 404 });
+
+    const manifest = await exportCommunity("community", downloadPath, { connection: connection() });
+    assert.equal(manifest.deposits[first].status, "succeeded");
+    assert.equal(manifest.deposits[second].status, "failed");
+    assert.equal(manifest.deposits[third].status, "succeeded");
+    assert.ok(!fs.existsSync(path.join(downloadPath, `deposit_${second}.zip.partial`)));
+    const saved = JSON.parse(fs.readFileSync(path.join(downloadPath, "export-manifest.json"), "utf8"));
+    assert.equal(saved.deposits[second].status, "failed");
+
+    fs.rmSync(path.join(downloadPath, `deposit_${third}.zip`));
+    const before = server.requests.length;
+    const again = await exportCommunity("community", downloadPath, { connection: connection() });
+    const downloaded = server.requests
+      .slice(before)
+      .filter((request) => request.path.endsWith("/files/manuscript.pdf"))
+      .map((request) => request.path.split("/")[2]);
+    assert.deepEqual(downloaded.sort(), [second, third].sort());
+    assert.ok(Object.values(again.deposits).every((entry) => entry.status === "succeeded"));
+    assert.equal(again.createdAt, manifest.createdAt);
+  });
+
+  it("refuses a manifest written for another community", async () => {
+    await depositsOf("first");
+    const downloadPath = path.join(temp.dir, "export");
+    await exportCommunity("community", downloadPath, { connection: connection() });
+
+    await assert.rejects(
+      exportCommunity("other", downloadPath, { connection: connection() }),
+      /belongs to community "community"/
+    );
+  });
+});
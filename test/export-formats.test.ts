@@ -0,0 +1,111 @@
+import assert from "node:assert/strict";
+import AdmZip from "adm-zip";
+import * as fs from "fs";
+import * as path from "path";
+import { after, afterEach, before, describe, it } from "node:test";
+import {
+  EXPORT_FORMATS,
+  MockOrviumServer,
+  exportDeposit,
+  importOrUpdateDeposit,
+  readDepositMetadata,
+  silentLogger,
+  startMockServer,
+} from "../index";
+import { MANUSCRIPT, tempDir, writeDepositFolder } from "./fixtures";
+
+describe("export formats", () => {
+  let server: MockOrviumServer;
+  let temp: ReturnType<typeof tempDir>;
+
+  before(async () => {
+    server = await startMockServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  afterEach(() => {
+    server.reset();
+    temp.remove();
+  });
+
+  // Imports the default deposit folder and exports it in every format
+  async function exportAll(): Promise<AdmZip> {
+    temp = tempDir();
+    const connection = server.connection({ logger: silentLogger });
+    const { depositId } = await importOrUpdateDeposit(
+      writeDepositFolder(temp.dir, "deposit", { doi: "10.1234/export.1" }),
+      undefined,
+      connection
+    );
+    await exportDeposit(depositId, temp.dir, connection, { formats: EXPORT_FORMATS });
+    return new AdmZip(path.join(temp.dir, `deposit_${depositId}.zip`));
+  }
+
+  it("writes the citation formats alongside meta.json", async () => {
+    const zip = await exportAll();
+
+    const [item] = JSON.parse(zip.readAsText("citation.json"));
+    assert.equal(item.title, "Open peer review in practice");
+    assert.equal(item.DOI, "10.1234/export.1");
+    assert.deepEqual(item.author, [{ family: "Doe", given: "Jane", ORCID: "https://orcid.org/0000-0002-1825-0097" }]);
+    assert.equal(item["container-title"], "community");
+
+    const bibtex = zip.readAsText("citation.bib");
+    assert.match(bibtex, /^@misc\{orvium_\w+,$/m);
+    assert.match(bibtex, /author = \{Doe, Jane\}/);
+    assert.match(bibtex, /orcid-numbers = \{Doe, Jane\/0000-0002-1825-0097\}/);
+    assert.match(bibtex, /file = \{Manuscript:manuscript\.pdf:application\/pdf\}/);
+  });
+
+  it("describes every packaged file in the RO-Crate, including the other formats", async () => {
+    const zip = await exportAll();
+
+    const graph: any[] = JSON.parse(zip.readAsText("ro-crate-metadata.json"))["@graph"];
+    const root = graph.find((entity) => entity["@id"] === "./");
+    assert.equal(root.identifier, "https://doi.org/10.1234/export.1");
+    assert.deepEqual(root.mainEntity, { "@id": "manuscript.pdf" });
+    assert.deepEqual(
+      root.hasPart.map((part: { "@id": string }) => part["@id"]).sort(),
+      ["citation.bib", "citation.json", "data.csv", "jats.xml", "manuscript.pdf", "meta.json"]
+    );
+    const manuscript = graph.find((entity) => entity["@id"] === "manuscript.pdf");
+    assert.equal(manuscript.contentSize, String(MANUSCRIPT.length));
+    assert.equal(graph.find((entity) => entity["@id"] === "data.csv").description, "Raw data");
+    assert.ok(graph.find((entity) => entity["@id"] === "https://orcid.org/0000-0002-1825-0097"));
+  });
+
+  it("writes JATS and BibTeX files that the metadata readers read back", async () => {
+    const zip = await exportAll();
+
+    for (const name of ["jats.xml", "citation.bib"]) {
+      const folder = path.join(temp.dir, name);
+      fs.mkdirSync(folder);
+      zip.extractEntryTo("manuscript.pdf", folder);
+      zip.extractEntryTo(name, folder);
+
+      const { metadata } = readDepositMetadata(folder);
+      assert.equal(metadata.title, "Open peer review in practice");
+      assert.equal(metadata.abstract, "How communities run open peer review.");
+      assert.deepEqual(metadata.authors, [{ firstName: "Jane", lastName: "Doe", orcid: "0000-0002-1825-0097" }]);
+      assert.deepEqual(metadata.keywords, ["peer review"]);
+      assert.equal(metadata.doi, "10.1234/export.1");
+      assert.deepEqual(metadata.manuscript, { filename: "manuscript.pdf" });
+    }
+  });
+
+  it("writes only meta.json when no format is selected", async () => {
+    temp = tempDir();
+    const connection = server.connection({ logger: silentLogger });
+    const { depositId } = await importOrUpdateDeposit(writeDepositFolder(temp.dir, "deposit"), undefined, connection);
+    await exportDeposit(depositId, temp.dir, connection);
+
+    const zip = new AdmZip(path.join(temp.dir, `deposit_${depositId}.zip`));
+    assert.deepEqual(
+      zip.getEntries().map((entry) => entry.entryName).sort(),
+      ["data.csv", "manifest.json", "manuscript.pdf", "meta.json"]
+    );
+  });
+});
@@ -0,0 +1,69 @@
+import assert from "node:assert/strict";
+import AdmZip from "adm-zip";
+import * as fs from "fs";
+import * as path from "path";
+import { after, before, describe, it } from "node:test";
+import { detectContentType, resolveContentType } from "../src/file-types";
+import { tempDir } from "./fixtures";
+
+describe("content type detection", () => {
+  let temp: ReturnType<typeof tempDir>;
+
+  before(() => {
+    temp = tempDir();
+  });
+
+  after(() => {
+    temp.remove();
+  });
+
+  function writeFile(name: string, content: Buffer | string): string {
+    const filePath = path.join(temp.dir, name);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  }
+
+  function writeZip(name: string, entries: Record<string, string>): string {
+    const zip = new AdmZip();
+    for (const [entryName, content] of Object.entries(entries)) {
+      zip.addFile(entryName, Buffer.from(content));
+    }
+    const filePath = path.join(temp.dir, name);
+    zip.writeZip(filePath);
+    return filePath;
+  }
+
+  it("recognises files from their first bytes, whatever their extension", () => {
+    assert.equal(detectContentType(writeFile("paper.docx", "%PDF-1.4\n...")), "application/pdf");
+    assert.equal(detectContentType(writeFile("paper.bin", "{\\rtf1\\ansi text}")), "application/rtf");
+    assert.equal(
+      detectContentType(writeFile("figure", Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))),
+      "image/png"
+    );
+  });
+
+  it("tells the zip based formats apart from their entries", () => {
+    assert.equal(
+      detectContentType(writeZip("paper.zip", { "[Content_Types].xml": "<Types/>", "word/document.xml": "<w/>" })),
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+    );
+    assert.equal(
+      detectContentType(writeZip("paper.bin", { mimetype: "application/vnd.oasis.opendocument.text" })),
+      "application/vnd.oasis.opendocument.text"
+    );
+    assert.equal(detectContentType(writeZip("sources.docx", { "main.tex": "\\documentclass{article}" })), "application/zip");
+  });
+
+  it("falls back to the extension, then to application/octet-stream", () => {
+    assert.equal(detectContentType(writeFile("data.csv", "a,b\n1,2\n")), "text/csv");
+    assert.equal(detectContentType(writeFile("data.unknown", "a,b\n1,2\n")), "application/octet-stream");
+  });
+
+  it("accepts only the formats of the role of the file", () => {
+    const png = writeFile("figure.png", Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+    assert.equal(resolveContentType(png, "supplementary"), "image/png");
+    assert.throws(() => resolveContentType(png, "manuscript"), /figure\.png has unsupported format image\/png/);
+    assert.throws(() => resolveContentType(writeFile("paper.docx", "%PDF-1.4\n"), "pdf", "text/plain"), /text\/plain/);
+    assert.equal(resolveContentType(writeFile("notes.txt", "notes"), "manuscript", "application/pdf"), "application/pdf");
+  });
+});
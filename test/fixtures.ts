@@ -0,0 +1,47 @@
+/**
+ * Deposit folders written to a temporary directory for the end-to-end tests.
+ */
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+export const MANUSCRIPT = Buffer.concat([Buffer.from("%PDF-1.4\n"), Buffer.alloc(64 * 1024, "m")]);
+export const DATA = "sample,value\na,1\nb,2\n";
+
+/**
+ * Creates an empty temporary directory, removed by the returned function.
+ */
+export function tempDir(): { dir: string; remove: () => void } {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "orvium-tools-test-"));
+  return { dir, remove: () => fs.rmSync(dir, { recursive: true, force: true }) };
+}
+
+/**
+ * Writes a deposit folder with a manuscript, a supplementary file and its `meta.json`.
+ *
+ * @param {string} parent - Directory where the folder is created.
+ * @param {string} name - Name of the folder.
+ * @param {object} [metadata] - Fields added to or replacing those of the default `meta.json`.
+ * @returns {string} The path of the folder.
+ */
+export function writeDepositFolder(parent: string, name: string, metadata: Record<string, unknown> = {}): string {
+  const folder = path.join(parent, name);
+  fs.mkdirSync(folder, { recursive: true });
+  fs.writeFileSync(path.join(folder, "manuscript.pdf"), MANUSCRIPT);
+  fs.writeFileSync(path.join(folder, "data.csv"), DATA);
+  fs.writeFileSync(
+    path.join(folder, "meta.json"),
+    JSON.stringify({
+      title: "Open peer review in practice",
+      abstract: "How communities run open peer review.",
+      sourceId: `source-${name}`,
+      keywords: ["peer review"],
+      authors: [{ firstName: "Jane", lastName: "Doe", orcid: "0000-0002-1825-0097" }],
+      community: "community",
+      manuscript: { filename: "manuscript.pdf" },
+      files: [{ filename: "data.csv", description: "Raw data" }],
+      ...metadata,
+    })
+  );
+  return folder;
+}
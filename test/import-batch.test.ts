@@ -0,0 +1,111 @@
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { after, afterEach, before, describe, it } from "node:test";
+import {
+  MockOrviumServer,
+  importDeposits,
+  planDepositImports,
+  silentLogger,
+  startMockServer,
+} from "../index";
+import { findDepositFolders, groupByIdentity } from "../src/import-batch";
+import { tempDir, writeDepositFolder } from "./fixtures";
+
+describe("groupByIdentity", () => {
+  it("groups the folders with the same DOI or source identifier, in the order of the batch", () => {
+    const identities = new Map([
+      ["a", { doi: "10.1234/ONE" }],
+      ["b", { sourceId: "x" }],
+      ["c", { doi: "https://doi.org/10.1234/one" }],
+      ["d", {}],
+      ["e", { sourceId: "x" }],
+    ]);
+    assert.deepEqual(groupByIdentity(["a", "b", "c", "d", "e"], identities), [["a", "c"], ["b", "e"], ["d"]]);
+  });
+
+  it("joins two groups through a folder that shares an identifier with each", () => {
+    const identities = new Map([
+      ["a", { sourceId: "x" }],
+      ["b", { doi: "10.1234/two" }],
+      ["c", { doi: "10.1234/two", sourceId: "x" }],
+    ]);
+    assert.deepEqual(groupByIdentity(["a", "b", "c"], identities), [["a", "b", "c"]]);
+  });
+});
+
+describe("batch import", () => {
+  let server: MockOrviumServer;
+  let temp: ReturnType<typeof tempDir>;
+
+  before(async () => {
+    server = await startMockServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  afterEach(() => {
+    server.reset();
+    temp.remove();
+  });
+
+  it("finds the folders with a metadata file", () => {
+    temp = tempDir();
+    writeDepositFolder(temp.dir, "first");
+    writeDepositFolder(temp.dir, "second");
+    fs.mkdirSync(path.join(temp.dir, "empty"));
+    assert.deepEqual(findDepositFolders(temp.dir), ["first", "second"]);
+  });
+
+  it("creates one deposit for the folders of a batch with the same source identifier", async () => {
+    temp = tempDir();
+    writeDepositFolder(temp.dir, "first", { sourceId: "shared" });
+    writeDepositFolder(temp.dir, "second", { sourceId: "shared" });
+    writeDepositFolder(temp.dir, "third");
+
+    const manifest = await importDeposits(temp.dir, "community", {
+      concurrency: 3,
+      connection: server.connection({ logger: silentLogger }),
+    });
+
+    const { first, second, third } = manifest.deposits;
+    assert.equal(first.action, "created");
+    assert.equal(second.action, "skipped");
+    assert.equal(second.depositId, first.depositId);
+    assert.equal(third.action, "created");
+    assert.equal(server.deposits.size, 2);
+  });
+
+  it("retries only the failed folders when the manifest is used again", async () => {
+    temp = tempDir();
+    writeDepositFolder(temp.dir, "first");
+    writeDepositFolder(temp.dir, "second", { title: "" });
+    const connection = server.connection({ logger: silentLogger });
+
+    const manifest = await importDeposits(temp.dir, "community", { concurrency: 1, connection });
+    assert.equal(manifest.deposits.first.status, "succeeded");
+    assert.equal(manifest.deposits.second.status, "failed");
+    assert.equal(manifest.deposits.second.step, "validateMetadata");
+
+    writeDepositFolder(temp.dir, "second");
+    const created = server.requests.filter((request) => request.path === "/deposits/importBasicDeposit").length;
+    const again = await importDeposits(temp.dir, "community", { concurrency: 1, connection });
+    assert.equal(again.deposits.second.status, "succeeded");
+    assert.equal(again.deposits.first.depositId, manifest.deposits.first.depositId);
+    assert.equal(server.requests.filter((request) => request.path === "/deposits/importBasicDeposit").length, created + 1);
+  });
+
+  it("plans a batch without calling the platform", () => {
+    temp = tempDir();
+    writeDepositFolder(temp.dir, "first");
+    writeDepositFolder(temp.dir, "second", { title: "" });
+
+    const plans = planDepositImports(temp.dir, "community");
+    assert.deepEqual(plans.map((plan) => plan.folder), ["first", "second"]);
+    assert.ok(plans[0].plan);
+    assert.ok(plans[1].error);
+    assert.equal(server.requests.length, 0);
+  });
+});
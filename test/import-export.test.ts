@@ -0,0 +1,117 @@
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { after, afterEach, before, describe, it } from "node:test";
+import {
+  MockOrviumServer,
+  defaultCheckpointPath,
+  exportDeposit,
+  importDeposit,
+  importOrUpdateDeposit,
+  silentLogger,
+  startMockServer,
+} from "../index";
+import type { Logger } from "../index";
+import { DATA, MANUSCRIPT, tempDir, writeDepositFolder } from "./fixtures";
+
+describe("import and export", () => {
+  let server: MockOrviumServer;
+  let temp: ReturnType<typeof tempDir>;
+
+  before(async () => {
+    server = await startMockServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  afterEach(() => {
+    server.reset();
+    temp.remove();
+  });
+
+  it("imports a folder, exports it and imports the archive into another instance", async () => {
+    temp = tempDir();
+    const folder = writeDepositFolder(temp.dir, "deposit");
+    const connection = server.connection({ logger: silentLogger });
+
+    const { depositId, action } = await importOrUpdateDeposit(folder, undefined, connection);
+    assert.equal(action, "created");
+    assert.deepEqual(server.fileContent(depositId, "manuscript.pdf"), MANUSCRIPT);
+    assert.equal(server.fileContent(depositId, "data.csv")?.toString(), DATA);
+
+    await exportDeposit(depositId, temp.dir, connection);
+    const archive = path.join(temp.dir, `deposit_${depositId}.zip`);
+    assert.ok(fs.existsSync(archive));
+
+    const target = await startMockServer();
+    try {
+      const imported = await importOrUpdateDeposit(archive, "other-community", target.connection({ logger: silentLogger }));
+      assert.equal(imported.action, "created");
+      const copy = target.deposits.get(imported.depositId);
+      assert.equal(copy?.title, "Open peer review in practice");
+      assert.equal(copy?.communityPopulated.name, "other-community");
+      assert.deepEqual(copy?.authors.map((author) => author.orcid), ["0000-0002-1825-0097"]);
+      assert.deepEqual(target.fileContent(imported.depositId, "manuscript.pdf"), MANUSCRIPT);
+      assert.equal(target.fileContent(imported.depositId, "data.csv")?.toString(), DATA);
+    } finally {
+      await target.close();
+    }
+  });
+
+  it("skips a folder whose deposit was already imported", async () => {
+    temp = tempDir();
+    const folder = writeDepositFolder(temp.dir, "deposit");
+    const connection = server.connection({ logger: silentLogger });
+
+    const first = await importOrUpdateDeposit(folder, undefined, connection);
+    const second = await importOrUpdateDeposit(folder, undefined, connection);
+    assert.equal(second.action, "skipped");
+    assert.equal(second.depositId, first.depositId);
+    assert.equal(server.deposits.size, 1);
+  });
+
+  it("runs a dry run without API credentials", async () => {
+    temp = tempDir();
+    const folder = writeDepositFolder(temp.dir, "deposit");
+    const variables = ["API_URL", "API_KEY", "API_KEY_USER"];
+    const saved = variables.map((name) => process.env[name]);
+    variables.forEach((name) => delete process.env[name]);
+    const messages: string[] = [];
+    const logger: Logger = { ...silentLogger, info: (message) => messages.push(message) };
+    try {
+      await importDeposit(folder, undefined, { dryRun: true, logger });
+    } finally {
+      variables.forEach((name, index) => {
+        if (saved[index] !== undefined) {
+          process.env[name] = saved[index];
+        }
+      });
+    }
+    assert.match(messages.join("\n"), /POST .*importBasicDeposit/);
+    assert.match(messages.join("\n"), /data\.csv/);
+    assert.equal(server.requests.length, 0);
+  });
+
+  it("resumes an import from its checkpoint on the same deposit", async () => {
+    temp = tempDir();
+    const folder = writeDepositFolder(temp.dir, "deposit");
+    const connection = server.connection({ logger: silentLogger, maxRetries: 0 });
+    server.injectFailure({ method: "PATCH", path: "/deposits/*/files/confirm" });
+
+    await assert.rejects(importOrUpdateDeposit(folder, undefined, connection), { step: "confirmUpload" });
+    const checkpointPath = defaultCheckpointPath(folder);
+    assert.ok(fs.existsSync(checkpointPath));
+    assert.equal(server.deposits.size, 1);
+    const [draftId] = server.deposits.keys();
+
+    const { depositId, action } = await importOrUpdateDeposit(folder, undefined, connection);
+    assert.equal(action, "created");
+    assert.equal(depositId, draftId);
+    assert.equal(server.deposits.size, 1);
+    assert.deepEqual(server.fileContent(depositId, "manuscript.pdf"), MANUSCRIPT);
+    assert.equal(server.fileContent(depositId, "data.csv")?.toString(), DATA);
+    assert.ok(!fs.existsSync(checkpointPath));
+  });
+});
@@ -0,0 +1,218 @@
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { afterEach, describe, it } from "node:test";
+import { readDepositMetadata } from "../index";
+import { MANUSCRIPT, tempDir } from "./fixtures";
+
+const JANE = { firstName: "Jane", lastName: "Doe", orcid: "0000-0002-1825-0097" };
+
+const JATS = `<?xml version="1.0" encoding="UTF-8"?>
+<article xmlns:xlink="http://www.w3.org/1999/xlink" article-type="research-article">
+  <front>
+    <article-meta>
+      <article-id pub-id-type="doi">10.1234/jats.1</article-id>
+      <article-categories>
+        <subj-group subj-group-type="heading"><subject>Research Article</subject></subj-group>
+        <subj-group><subject>Sociology</subject></subj-group>
+      </article-categories>
+      <title-group><article-title>Open <italic>peer</italic> review</article-title></title-group>
+      <contrib-group>
+        <contrib contrib-type="author" corresp="yes">
+          <contrib-id contrib-id-type="orcid">https://orcid.org/0000-0002-1825-0097</contrib-id>
+          <name><surname>Doe</surname><given-names>Jane</given-names></name>
+          <email>jane@example.org</email>
+        </contrib>
+        <contrib contrib-type="editor"><name><surname>Roe</surname><given-names>Richard</given-names></name></contrib>
+      </contrib-group>
+      <self-uri xlink:href="manuscript.pdf"/>
+      <abstract><title>Abstract</title><p>How communities run open peer review.</p></abstract>
+      <kwd-group><kwd>peer review</kwd><kwd>open science</kwd></kwd-group>
+    </article-meta>
+  </front>
+</article>
+`;
+
+const CROSSREF_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<doi_batch version="5.3.1" xmlns="http://www.crossref.org/schema/5.3.1">
+  <body>
+    <posted_content type="preprint">
+      <contributors>
+        <person_name contributor_role="author" sequence="first">
+          <given_name>Jane</given_name>
+          <surname>Doe</surname>
+          <ORCID>https://orcid.org/0000-0002-1825-0097</ORCID>
+        </person_name>
+      </contributors>
+      <titles><title>Open peer review</title></titles>
+      <doi_data><doi>10.1234/crossref.1</doi><resource>https://example.org/1</resource></doi_data>
+    </posted_content>
+  </body>
+</doi_batch>
+`;
+
+const CROSSREF_JSON = {
+  status: "ok",
+  message: {
+    DOI: "10.1234/crossref.2",
+    title: ["Open peer review"],
+    abstract: "<jats:p>How communities run open peer review.</jats:p>",
+    author: [{ given: "Jane", family: "Doe", ORCID: "http://orcid.org/0000-0002-1825-0097" }],
+    subject: ["Sociology"],
+  },
+};
+
+const DATACITE_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<resource xmlns="http://datacite.org/schema/kernel-4">
+  <identifier identifierType="DOI">10.1234/datacite.1</identifier>
+  <creators>
+    <creator>
+      <creatorName>Doe, Jane</creatorName>
+      <nameIdentifier nameIdentifierScheme="ORCID">0000-0002-1825-0097</nameIdentifier>
+    </creator>
+  </creators>
+  <titles><title>Open peer review</title></titles>
+  <subjects><subject>Sociology</subject></subjects>
+  <descriptions><description descriptionType="Abstract">How communities run open peer review.</description></descriptions>
+</resource>
+`;
+
+const DATACITE_JSON = {
+  data: {
+    attributes: {
+      doi: "10.1234/datacite.2",
+      titles: [{ title: "Open peer review" }],
+      creators: [
+        {
+          name: "Doe, Jane",
+          givenName: "Jane",
+          familyName: "Doe",
+          nameIdentifiers: [{ nameIdentifier: "https://orcid.org/0000-0002-1825-0097", nameIdentifierScheme: "ORCID" }],
+        },
+      ],
+      descriptions: [{ description: "How communities run open peer review.", descriptionType: "Abstract" }],
+      subjects: [{ subject: "Sociology" }],
+    },
+  },
+};
+
+const BIBTEX = `@comment{exported by a reference manager}
+@article{doe2024,
+  title = {Open {Peer} Review in M{\\"u}nster},
+  author = {Doe, Jane and {Orvium Consortium}},
+  abstract = "How communities run open peer review.",
+  keywords = {peer review; open science},
+  doi = {https://doi.org/10.1234/bibtex.1},
+  orcid-numbers = {Doe, Jane/0000-0002-1825-0097},
+  file = {Full Text:manuscript.pdf:application/pdf}
+}
+`;
+
+const RIS = `TY  - JOUR
+TI  - Open peer review
+AU  - Doe, Jane
+AB  - How communities run
+  open peer review.
+KW  - peer review
+DO  - 10.1234/ris.1
+ER  - 
+TY  - JOUR
+TI  - Another record
+ER  - 
+`;
+
+describe("metadata readers", () => {
+  let temp: ReturnType<typeof tempDir>;
+
+  afterEach(() => {
+    temp.remove();
+  });
+
+  // Writes a deposit folder with a manuscript and a metadata file
+  function folderWith(filename: string, content: string | object): string {
+    temp = tempDir();
+    fs.writeFileSync(path.join(temp.dir, "manuscript.pdf"), MANUSCRIPT);
+    fs.writeFileSync(
+      path.join(temp.dir, filename),
+      typeof content === "string" ? content : JSON.stringify(content)
+    );
+    return temp.dir;
+  }
+
+  it("reads JATS XML", () => {
+    const { reader, filename, metadata } = readDepositMetadata(folderWith("article.xml", JATS));
+    assert.equal(reader, "JATS XML");
+    assert.equal(filename, "article.xml");
+    assert.equal(metadata.title, "Open peer review");
+    assert.equal(metadata.abstract, "How communities run open peer review.");
+    assert.deepEqual(metadata.authors, [{ ...JANE, email: "jane@example.org", corresponding: true }]);
+    assert.deepEqual(metadata.keywords, ["peer review", "open science"]);
+    assert.deepEqual(metadata.disciplines, ["Sociology"]);
+    assert.equal(metadata.doi, "10.1234/jats.1");
+    assert.deepEqual(metadata.manuscript, { filename: "manuscript.pdf" });
+  });
+
+  it("reads a Crossref deposit and a Crossref work", () => {
+    const xml = readDepositMetadata(folderWith("crossref.xml", CROSSREF_XML));
+    assert.equal(xml.reader, "Crossref XML");
+    assert.equal(xml.metadata.title, "Open peer review");
+    assert.deepEqual(xml.metadata.authors, [JANE]);
+    assert.equal(xml.metadata.doi, "10.1234/crossref.1");
+    temp.remove();
+
+    const json = readDepositMetadata(folderWith("work.json", CROSSREF_JSON));
+    assert.equal(json.reader, "Crossref JSON");
+    assert.equal(json.metadata.abstract, "How communities run open peer review.");
+    assert.deepEqual(json.metadata.authors, [JANE]);
+    assert.deepEqual(json.metadata.disciplines, ["Sociology"]);
+    assert.equal(json.metadata.doi, "10.1234/crossref.2");
+  });
+
+  it("reads a DataCite kernel and a DataCite DOI", () => {
+    const xml = readDepositMetadata(folderWith("datacite.xml", DATACITE_XML));
+    assert.equal(xml.reader, "DataCite XML");
+    assert.equal(xml.metadata.title, "Open peer review");
+    assert.equal(xml.metadata.abstract, "How communities run open peer review.");
+    assert.deepEqual(xml.metadata.authors, [JANE]);
+    assert.equal(xml.metadata.doi, "10.1234/datacite.1");
+    temp.remove();
+
+    const json = readDepositMetadata(folderWith("doi.json", DATACITE_JSON));
+    assert.equal(json.reader, "DataCite JSON");
+    assert.deepEqual(json.metadata.authors, [JANE]);
+    assert.deepEqual(json.metadata.disciplines, ["Sociology"]);
+    assert.equal(json.metadata.doi, "10.1234/datacite.2");
+  });
+
+  it("reads the first entry of a BibTeX file", () => {
+    const { reader, metadata } = readDepositMetadata(folderWith("references.bib", BIBTEX));
+    assert.equal(reader, "BibTeX");
+    assert.equal(metadata.title, "Open Peer Review in Münster");
+    assert.equal(metadata.abstract, "How communities run open peer review.");
+    assert.deepEqual(metadata.authors, [JANE, { firstName: "", lastName: "Orvium Consortium" }]);
+    assert.deepEqual(metadata.keywords, ["peer review", "open science"]);
+    assert.equal(metadata.doi, "10.1234/bibtex.1");
+    assert.deepEqual(metadata.manuscript, { filename: "manuscript.pdf" });
+  });
+
+  it("reads the first record of a RIS file and finds its manuscript in the folder", () => {
+    const { reader, metadata } = readDepositMetadata(folderWith("references.ris", RIS));
+    assert.equal(reader, "RIS");
+    assert.equal(metadata.title, "Open peer review");
+    assert.equal(metadata.abstract, "How communities run open peer review.");
+    assert.deepEqual(metadata.authors, [{ firstName: "Jane", lastName: "Doe" }]);
+    assert.deepEqual(metadata.keywords, ["peer review"]);
+    assert.equal(metadata.doi, "10.1234/ris.1");
+    assert.deepEqual(metadata.manuscript, { filename: "manuscript.pdf" });
+  });
+
+  it("prefers meta.json and reports a folder without metadata", () => {
+    const folder = folderWith("references.ris", RIS);
+    fs.writeFileSync(path.join(folder, "meta.json"), JSON.stringify({ title: "From meta.json" }));
+    assert.equal(readDepositMetadata(folder).reader, "meta.json");
+
+    fs.rmSync(path.join(folder, "meta.json"));
+    fs.rmSync(path.join(folder, "references.ris"));
+    assert.throws(() => readDepositMetadata(folder), /No deposit metadata found/);
+  });
+});
@@ -0,0 +1,97 @@
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { after, afterEach, before, describe, it } from "node:test";
+import {
+  IncompleteMigrationError,
+  MockOrviumServer,
+  importOrUpdateDeposit,
+  migrateDeposit,
+  migrateDeposits,
+  silentLogger,
+  startMockServer,
+} from "../index";
+import { DATA, MANUSCRIPT, tempDir, writeDepositFolder } from "./fixtures";
+
+const RENDERING = Buffer.concat([Buffer.from("%PDF-1.7\n"), Buffer.alloc(1024, "r")]);
+
+describe("migration", () => {
+  let source: MockOrviumServer;
+  let target: MockOrviumServer;
+  let temp: ReturnType<typeof tempDir>;
+
+  before(async () => {
+    source = await startMockServer();
+    target = await startMockServer();
+  });
+
+  after(async () => {
+    await source.close();
+    await target.close();
+  });
+
+  afterEach(() => {
+    source.reset();
+    target.reset();
+    temp.remove();
+  });
+
+  const connections = () => ({
+    from: source.connection({ logger: silentLogger }),
+    to: target.connection({ logger: silentLogger, maxRetries: 0 }),
+  });
+
+  async function sourceDeposit(): Promise<string> {
+    temp = tempDir();
+    const folder = writeDepositFolder(temp.dir, "deposit", { pdf: { filename: "rendering.pdf" } });
+    fs.writeFileSync(path.join(folder, "rendering.pdf"), RENDERING);
+    const { depositId } = await importOrUpdateDeposit(folder, undefined, connections().from);
+    return depositId;
+  }
+
+  it("copies the manuscript, the supplementary files and the PDF rendering", async () => {
+    const depositId = await sourceDeposit();
+    const { from, to } = connections();
+
+    const targetId = await migrateDeposit(from, to, depositId, { targetCommunity: "target" });
+    const copy = target.deposits.get(targetId);
+    assert.equal(copy?.communityPopulated.name, "target");
+    assert.equal(copy?.publicationFile.filename, "manuscript.pdf");
+    assert.deepEqual(copy?.files?.map((file) => [file.filename, file.description]), [["data.csv", "Raw data"]]);
+    assert.equal(copy?.pdfFile?.filename, "rendering.pdf");
+    assert.deepEqual(target.fileContent(targetId, "manuscript.pdf"), MANUSCRIPT);
+    assert.equal(target.fileContent(targetId, "data.csv")?.toString(), DATA);
+    assert.deepEqual(target.fileContent(targetId, "rendering.pdf"), RENDERING);
+  });
+
+  it("reports the files that could not be copied with the created deposit", async () => {
+    const depositId = await sourceDeposit();
+    const { from, to } = connections();
+    source.injectFailure({ method: "GET", path: "/deposits/*/files/data.csv", status: 404 });
+
+    await assert.rejects(migrateDeposit(from, to, depositId), (error: unknown) => {
+      assert.ok(error instanceof IncompleteMigrationError);
+      assert.deepEqual(error.failedFiles.map((file) => file.filename), ["data.csv"]);
+      assert.ok(target.deposits.has(error.targetId));
+      return true;
+    });
+
+    source.injectFailure({ method: "GET", path: "/deposits/*/files/data.csv", status: 404 });
+    const [result] = await migrateDeposits(from, to, [depositId]);
+    assert.equal(result.status, "failed");
+    assert.ok(result.targetId && target.deposits.has(result.targetId));
+    assert.deepEqual(result.failedFiles?.map((file) => file.filename), ["data.csv"]);
+  });
+
+  it("names the created deposit when its manuscript cannot be copied", async () => {
+    const depositId = await sourceDeposit();
+    const { from, to } = connections();
+    source.injectFailure({ method: "GET", path: "/deposits/*/files/manuscript.pdf", status: 404 });
+
+    const [result] = await migrateDeposits(from, to, [depositId]);
+    assert.equal(result.status, "failed");
+    assert.ok(result.targetId && target.deposits.has(result.targetId));
+    assert.deepEqual(result.failedFiles?.map((file) => file.filename), ["manuscript.pdf"]);
+    assert.equal(target.fileContent(result.targetId, "data.csv")?.toString(), DATA);
+  });
+});
@@ -0,0 +1,102 @@
+import assert from "node:assert/strict";
+import AdmZip from "adm-zip";
+import { PassThrough } from "stream";
+import { after, afterEach, before, describe, it } from "node:test";
+import {
+  MockOrviumServer,
+  defaultCheckpointPath,
+  exportDepositToStream,
+  importOrUpdateDeposit,
+  loadImportCheckpoint,
+  silentLogger,
+  startMockServer,
+} from "../index";
+import { MANUSCRIPT, tempDir, writeDepositFolder } from "./fixtures";
+
+const PART_SIZE = 16 * 1024;
+
+describe("multipart upload", () => {
+  let server: MockOrviumServer;
+  let temp: ReturnType<typeof tempDir>;
+
+  before(async () => {
+    server = await startMockServer({ partSize: PART_SIZE });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  afterEach(() => {
+    server.reset();
+    temp.remove();
+  });
+
+  const connection = () => server.connection({ logger: silentLogger, maxRetries: 0, multipartThreshold: 1024 });
+  const partRequests = () =>
+    server.requests.filter((request) => request.method === "PUT" && /\/parts\/\d+$/.test(request.path));
+
+  it("uploads a large file in parts", async () => {
+    temp = tempDir();
+    const { depositId } = await importOrUpdateDeposit(writeDepositFolder(temp.dir, "deposit"), undefined, connection());
+
+    assert.equal(partRequests().length, Math.ceil(MANUSCRIPT.length / PART_SIZE));
+    assert.deepEqual(server.fileContent(depositId, "manuscript.pdf"), MANUSCRIPT);
+  });
+
+  it("resumes an upload in parts with the parts not stored yet", async () => {
+    temp = tempDir();
+    const folder = writeDepositFolder(temp.dir, "deposit");
+    server.injectFailure({ method: "PUT", path: "/storage/upload/*/parts/3", drop: true });
+
+    await assert.rejects(importOrUpdateDeposit(folder, undefined, connection()), { step: "uploadToStorage" });
+    const checkpoint = loadImportCheckpoint(defaultCheckpointPath(folder));
+    assert.deepEqual(checkpoint?.multipart?.parts.map((part) => part.partNumber), [1, 2]);
+
+    const before = partRequests().length;
+    const { depositId } = await importOrUpdateDeposit(folder, undefined, connection());
+    assert.equal(partRequests().length - before, Math.ceil(MANUSCRIPT.length / PART_SIZE) - 2);
+    assert.deepEqual(server.fileContent(depositId, "manuscript.pdf"), MANUSCRIPT);
+  });
+
+  it("uploads the file again when the signed URLs saved in the checkpoint expired", async () => {
+    temp = tempDir();
+    const folder = writeDepositFolder(temp.dir, "deposit");
+    server.injectFailure({ method: "PUT", path: "/storage/upload/*/parts/3", drop: true });
+    await assert.rejects(importOrUpdateDeposit(folder, undefined, connection()));
+
+    server.injectFailure({ method: "PUT", path: "/storage/upload/*/parts/*", status: 403 });
+    const { depositId } = await importOrUpdateDeposit(folder, undefined, connection());
+    assert.deepEqual(server.fileContent(depositId, "manuscript.pdf"), MANUSCRIPT);
+    assert.equal(loadImportCheckpoint(defaultCheckpointPath(folder)), undefined);
+  });
+
+  it("drops the expired upload from the checkpoint when it fails again", async () => {
+    temp = tempDir();
+    const folder = writeDepositFolder(temp.dir, "deposit");
+    server.injectFailure({ method: "PUT", path: "/storage/upload/*/parts/2", status: 403 });
+
+    await assert.rejects(importOrUpdateDeposit(folder, undefined, connection()), { status: 403 });
+    const checkpoint = loadImportCheckpoint(defaultCheckpointPath(folder));
+    assert.equal(checkpoint?.multipart, undefined);
+
+    const { depositId } = await importOrUpdateDeposit(folder, undefined, connection());
+    assert.deepEqual(server.fileContent(depositId, "manuscript.pdf"), MANUSCRIPT);
+  });
+
+  it("streams an export into a caller stream", async () => {
+    temp = tempDir();
+    const { depositId } = await importOrUpdateDeposit(writeDepositFolder(temp.dir, "deposit"), undefined, connection());
+
+    const output = new PassThrough();
+    const chunks: Buffer[] = [];
+    output.on("data", (chunk: Buffer) => chunks.push(chunk));
+    const bytes = await exportDepositToStream(depositId, output, connection());
+
+    const archive = Buffer.concat(chunks);
+    assert.equal(archive.length, bytes);
+    const zip = new AdmZip(archive);
+    assert.deepEqual(zip.readFile("manuscript.pdf"), MANUSCRIPT);
+    assert.ok(zip.getEntry("meta.json"));
+  });
+});
@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { after, before, describe, it } from "node:test";
+import {
+  MockOrviumServer,
+  diffDeposit,
+  importOrUpdateDeposit,
+  silentLogger,
+  startMockServer,
+  syncDeposit,
+} from "../index";
+import { tempDir, writeDepositFolder } from "./fixtures";
+
+describe("sync", () => {
+  let server: MockOrviumServer;
+
+  before(async () => {
+    server = await startMockServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("syncs a folder without a community with the deposit of the given community", async () => {
+    const temp = tempDir();
+    try {
+      const folder = writeDepositFolder(temp.dir, "deposit", { community: undefined });
+      const connection = server.connection({ logger: silentLogger });
+      const { depositId } = await importOrUpdateDeposit(folder, "community", connection);
+
+      const metaPath = path.join(folder, "meta.json");
+      const metadata = JSON.parse(fs.readFileSync(metaPath, "utf-8"));
+      fs.writeFileSync(metaPath, JSON.stringify({ ...metadata, title: "Open peer review in practice, corrected" }));
+
+      const diff = await diffDeposit(folder, undefined, connection, { community: "community" });
+      assert.equal(diff.depositId, depositId);
+      assert.deepEqual(diff.changes.map((change) => change.field), ["title"]);
+      assert.equal(diff.mainFile, undefined);
+
+      const result = await syncDeposit(folder, undefined, connection, { community: "community", confirm: () => true });
+      assert.equal(result.applied, true);
+      assert.equal(server.deposits.get(depositId)?.title, "Open peer review in practice, corrected");
+    } finally {
+      temp.remove();
+    }
+  });
+});
@@ -0,0 +1,120 @@
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { after, afterEach, before, describe, it } from "node:test";
+import {
+  MockOrviumServer,
+  formatSummaryReport,
+  formatUserSummary,
+  getUserSummary,
+  getUserSummaryReport,
+  importOrUpdateDeposit,
+  readOrcidList,
+  silentLogger,
+  startMockServer,
+} from "../index";
+import { renderRows } from "../src/summary-formats";
+import { tempDir, writeDepositFolder } from "./fixtures";
+
+const JANE = "0000-0002-1825-0097";
+const UNKNOWN = "0000-0002-1694-233X";
+
+describe("summary formats", () => {
+  const header = ["title", "details"];
+  const rows = [
+    ["Peer review, in practice", 'The "open" model'],
+    ["Pipes | and\nlines", ""],
+  ];
+
+  it("renders an aligned table", () => {
+    assert.equal(
+      renderRows(header, [["Short", "a"], ["A longer title", "b"]], "table"),
+      ["title           details", "--------------  -------", "Short           a", "A longer title  b"].join("\n")
+    );
+  });
+
+  it("quotes the CSV fields with separators, quotes or line breaks", () => {
+    assert.equal(
+      renderRows(header, rows, "csv"),
+      ['title,details', '"Peer review, in practice","The ""open"" model"', '"Pipes | and\nlines",'].join("\n")
+    );
+  });
+
+  it("escapes pipes and line breaks in Markdown cells", () => {
+    assert.equal(
+      renderRows(header, rows, "markdown"),
+      [
+        "| title | details |",
+        "| --- | --- |",
+        '| Peer review, in practice | The "open" model |',
+        "| Pipes \\| and lines |  |",
+      ].join("\n")
+    );
+  });
+});
+
+describe("user summaries", () => {
+  let server: MockOrviumServer;
+  let temp: ReturnType<typeof tempDir>;
+
+  before(async () => {
+    server = await startMockServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  afterEach(() => {
+    server.reset();
+    temp.remove();
+  });
+
+  const connection = () => server.connection({ logger: silentLogger, maxRetries: 0 });
+
+  async function janesDeposits(): Promise<void> {
+    temp = tempDir();
+    const { depositId } = await importOrUpdateDeposit(writeDepositFolder(temp.dir, "first"), undefined, connection());
+    await importOrUpdateDeposit(writeDepositFolder(temp.dir, "second", { title: "Second" }), undefined, connection());
+    server.deposits.get(depositId)!.status = "published";
+  }
+
+  it("renders the summary of a user with one row per deposit and community", async () => {
+    await janesDeposits();
+
+    const summary = await getUserSummary(JANE, connection());
+    const lines = formatUserSummary(summary, "csv").split("\n");
+    assert.equal(lines[0], "type,title,status,date,details");
+    assert.deepEqual(
+      lines.slice(1).map((line) => line.split(",").slice(0, 3).join(",")),
+      ["deposit,Open peer review in practice,published", "deposit,Second,draft", "community,community,"]
+    );
+    assert.deepEqual(JSON.parse(formatUserSummary(summary, "json")), summary);
+  });
+
+  it("reports every ORCID iD of a list, with the people that cannot be retrieved and the totals", async () => {
+    await janesDeposits();
+    const list = path.join(temp.dir, "orcids.txt");
+    fs.writeFileSync(list, `# Department\nhttps://orcid.org/${JANE}, ${UNKNOWN}\n${JANE} # again\n`);
+
+    const report = await getUserSummaryReport(readOrcidList(list), connection());
+    assert.deepEqual(
+      report.people.map((person) => [person.orcid, person.counts.deposits, person.error !== undefined]),
+      [[JANE, 2, false], [UNKNOWN, 0, true]]
+    );
+    assert.deepEqual(report.totals, { deposits: 2, publishedDeposits: 1, reviews: 0, communities: 1 });
+
+    const table = formatSummaryReport(report, "markdown").split("\n");
+    assert.equal(table[0], "| orcid | nickname | deposits | published | reviews | communities | error |");
+    assert.equal(table[2], `| ${JANE} | jane-doe | 2 | 1 | 0 | 1 |  |`);
+    assert.equal(table[4], "| total |  | 2 | 1 | 0 | 1 |  |");
+  });
+
+  it("rejects an ORCID list with invalid iDs, naming their lines", () => {
+    temp = tempDir();
+    const list = path.join(temp.dir, "orcids.txt");
+    fs.writeFileSync(list, `${JANE}\n0000-0002-1825-0098\nnobody\n`);
+
+    assert.throws(() => readOrcidList(list), /line 2: 0000-0002-1825-0098; line 3: nobody/);
+  });
+});
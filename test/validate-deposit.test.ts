@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { afterEach, describe, it } from "node:test";
+import { validateDepositDirectory, validateMetadata } from "../src/validate-deposit";
+import { tempDir, writeDepositFolder } from "./fixtures";
+
+const METADATA = {
+  title: "Open peer review in practice",
+  abstract: "How communities run open peer review.",
+  authors: [{ firstName: "Jane", lastName: "Doe", orcid: "0000-0002-1825-0097" }],
+  manuscript: { filename: "manuscript.pdf" },
+};
+
+describe("validateMetadata", () => {
+  it("accepts valid metadata", () => {
+    assert.deepEqual(validateMetadata(METADATA), []);
+  });
+
+  it("reports every problem at once with its JSON path", () => {
+    const problems = validateMetadata({
+      ...METADATA,
+      abstract: undefined,
+      authors: [{ firstName: "Jane" }],
+      colour: "blue",
+    });
+    assert.deepEqual(problems.map((problem) => problem.path).sort(), ["/", "/authors/0", "/colour"]);
+    assert.match(problems.find((problem) => problem.path === "/")!.message, /abstract/);
+    assert.match(problems.find((problem) => problem.path === "/authors/0")!.message, /lastName/);
+  });
+
+  it("reports an ORCID iD with a wrong check digit", () => {
+    const problems = validateMetadata({
+      ...METADATA,
+      authors: [{ firstName: "Jane", lastName: "Doe", orcid: "0000-0002-1825-0098" }],
+    });
+    assert.deepEqual(problems, [
+      { path: "/authors/0/orcid", message: "0000-0002-1825-0098 has an invalid check digit" },
+    ]);
+  });
+});
+
+describe("validateDepositDirectory", () => {
+  let temp: ReturnType<typeof tempDir>;
+
+  afterEach(() => {
+    temp.remove();
+  });
+
+  it("accepts a complete deposit folder", () => {
+    temp = tempDir();
+    assert.deepEqual(validateDepositDirectory(writeDepositFolder(temp.dir, "deposit")), []);
+  });
+
+  it("reports the missing files and the files in a format not accepted for their role", () => {
+    temp = tempDir();
+    const folder = writeDepositFolder(temp.dir, "deposit", {
+      manuscript: { filename: "data.csv" },
+      files: [{ filename: "missing.csv" }],
+    });
+
+    const problems = validateDepositDirectory(folder);
+    assert.deepEqual(problems.map((problem) => problem.path), ["/manuscript/filename", "/files/0/filename"]);
+    assert.match(problems[0].message, /unsupported format text\/csv/);
+    assert.equal(problems[1].message, "file missing.csv not found");
+  });
+
+  it("reports a folder without metadata", () => {
+    temp = tempDir();
+    const problems = validateDepositDirectory(temp.dir);
+    assert.equal(problems.length, 1);
+    assert.equal(problems[0].path, "/");
+  });
+});
@@ -0,0 +1,123 @@
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { after, afterEach, before, describe, it } from "node:test";
+import {
+  FAILED_FOLDER,
+  MockOrviumServer,
+  PROCESSED_FOLDER,
+  defaultCheckpointPath,
+  silentLogger,
+  startMockServer,
+  watchDepositFolder,
+} from "../index";
+import type { WatchImportResult } from "../index";
+import { MANUSCRIPT, tempDir, writeDepositFolder } from "./fixtures";
+
+describe("watch folder", () => {
+  let server: MockOrviumServer;
+  let temp: ReturnType<typeof tempDir>;
+
+  before(async () => {
+    server = await startMockServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  afterEach(() => {
+    server.reset();
+    temp.remove();
+  });
+
+  // Watches the hot folder until `count` folders were imported
+  async function watch(count = 1): Promise<WatchImportResult[]> {
+    const controller = new AbortController();
+    const results: WatchImportResult[] = [];
+    await watchDepositFolder(temp.dir, undefined, {
+      connection: server.connection({ logger: silentLogger, maxRetries: 0 }),
+      interval: 10,
+      settleTime: 0,
+      signal: controller.signal,
+      onResult: (result) => {
+        results.push(result);
+        if (results.length === count) {
+          controller.abort();
+        }
+      },
+    });
+    return results;
+  }
+
+  it("imports a dropped folder and moves it to processed/ with its result", async () => {
+    temp = tempDir();
+    writeDepositFolder(temp.dir, "deposit");
+
+    const [result] = await watch();
+    assert.equal(result.status, "succeeded");
+    assert.equal(result.path, path.join(temp.dir, PROCESSED_FOLDER, "deposit"));
+    assert.ok(fs.existsSync(path.join(temp.dir, PROCESSED_FOLDER, "deposit", "meta.json")));
+    const saved = JSON.parse(fs.readFileSync(`${result.path}.import-result.json`, "utf8"));
+    assert.equal(saved.depositId, result.depositId);
+    assert.deepEqual(server.fileContent(result.depositId!, "manuscript.pdf"), MANUSCRIPT);
+  });
+
+  it("moves the checkpoint of a failed import to failed/ and resumes it once the folder is moved back", async () => {
+    temp = tempDir();
+    writeDepositFolder(temp.dir, "deposit");
+    server.injectFailure({ method: "PATCH", path: "/deposits/*/files/confirm" });
+
+    const [failed] = await watch();
+    assert.equal(failed.status, "failed");
+    assert.equal(failed.path, path.join(temp.dir, FAILED_FOLDER, "deposit"));
+    assert.ok(!fs.existsSync(defaultCheckpointPath(path.join(temp.dir, "deposit"))));
+    assert.ok(fs.existsSync(defaultCheckpointPath(failed.path)));
+
+    fs.renameSync(failed.path, path.join(temp.dir, "deposit"));
+    const [resumed] = await watch();
+    assert.equal(resumed.status, "succeeded");
+    assert.equal(resumed.depositId, failed.depositId);
+    assert.equal(server.deposits.size, 1);
+    assert.ok(!fs.existsSync(defaultCheckpointPath(failed.path)));
+  });
+
+  it("resumes a folder moved back under the name it got in failed/", async () => {
+    temp = tempDir();
+    writeDepositFolder(temp.dir, "deposit", { sourceId: undefined });
+    server.injectFailure({ method: "PATCH", path: "/deposits/*/files/confirm", times: 2 });
+    await watch();
+    writeDepositFolder(temp.dir, "deposit", { sourceId: undefined });
+    const [second] = await watch();
+    assert.equal(second.path, path.join(temp.dir, FAILED_FOLDER, "deposit-2"));
+    assert.ok(fs.existsSync(defaultCheckpointPath(second.path)));
+
+    fs.renameSync(second.path, path.join(temp.dir, "deposit-2"));
+    const [resumed] = await watch();
+    assert.equal(resumed.status, "succeeded");
+    assert.equal(resumed.depositId, second.depositId);
+    assert.equal(server.deposits.size, 2);
+  });
+
+  it("does not resume a stale checkpoint for a new folder of the same name", async () => {
+    temp = tempDir();
+    const folder = writeDepositFolder(temp.dir, "deposit");
+    fs.writeFileSync(
+      defaultCheckpointPath(folder),
+      JSON.stringify({
+        source: folder,
+        apiUrl: server.url,
+        community: "community",
+        depositId: "0123456789abcdef01234567",
+        step: "confirmUpload",
+        completed: [],
+        updatedAt: new Date().toISOString(),
+      })
+    );
+
+    const [result] = await watch();
+    assert.equal(result.status, "succeeded");
+    assert.notEqual(result.depositId, "0123456789abcdef01234567");
+    assert.ok(!fs.existsSync(defaultCheckpointPath(folder)));
+  });
+});